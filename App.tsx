@@ -1,8 +1,49 @@
 
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { AppLanguage, AppSection, BoardItem, BoardLink, PlanningRoom } from './types';
-import { TRANSLATIONS } from './constants';
+import { AppLanguage, AppSection, BoardItem, BoardLink, Contact, PlanningRoom, Tool } from './types';
+import { INITIAL_TOOLS, TRANSLATIONS } from './constants';
 import Button from './components/Button';
+import ProgressBar from './components/ProgressBar';
+import ItemDetailsFields from './components/ItemDetailsFields';
+import OwnerAvatar from './components/OwnerAvatar';
+import PeopleView from './components/PeopleView';
+import ToolsView from './components/ToolsView';
+import ToolIcon from './components/ToolIcon';
+import BoardDraftReview from './components/BoardDraftReview';
+import { computeProgress, formatProgress, summarizeRoom } from './services/progressService';
+import { STATUS_COLORS, STATUS_LABELS, completionPatch, formatDay, getStatus, isOverdue, toDateString } from './services/scheduleService';
+import { RoomStore, isQuotaExceededError } from './services/storageService';
+import { createDefaultDirectoryStore, createDefaultRoomStore, createDefaultSnapshotStore, createDefaultToolStore } from './services/indexedDbService';
+import { Directory, DirectoryStore, EMPTY_DIRECTORY, getOwner } from './services/contactService';
+import { ToolStore, categoryOf } from './services/toolService';
+import { AiProvider, createDefaultAiProvider } from './services/aiService';
+import { BoardDraft, materializeDraft, requestBoardDraft } from './services/boardDraftService';
+import { Finding, applyFix } from './services/planReviewService';
+import { RoomSnapshot, SnapshotStore, branchFromSnapshot, runAutoSnapshots } from './services/snapshotService';
+import { LINK_COLORS, Point, Rect, computeLinkPaths, getContentBounds, getItemDimensions, getItemRect, rectsIntersect, getItemRotation } from './services/boardGeometry';
+import { downloadBoardImage } from './services/boardImageService';
+import { DEFAULT_VIEWPORT, Viewport, fitRect, getVisibleRect, loadViewport, removeViewport, saveViewport } from './services/viewportService';
+import BoardMinimap from './components/BoardMinimap';
+import { createSpatialIndex, expandRect, getCullingRect, getCurveBounds } from './services/spatialIndex';
+import { generateLargeBoard, isBenchmarkRoom, runBoardBenchmark } from './services/boardFixtures';
+import { BoardFilter, EMPTY_FILTER, UNASSIGNED_OWNER, getMatchingItemIds, getOwnerKey, isFilterActive, linkMatchesFilter, toggleInList } from './services/boardFilterService';
+import { SearchResult } from './services/searchService';
+import CommandPalette from './components/CommandPalette';
+import TimelineView from './components/TimelineView';
+import KanbanView from './components/KanbanView';
+import SnapshotPanel from './components/SnapshotPanel';
+import PlanReviewPanel from './components/PlanReviewPanel';
+import CollaborationMenu from './components/CollaborationMenu';
+import { Presence, SyncSession, SyncSettings, SyncStatus, createSyncSession, loadSyncSettings, saveSyncSettings } from './services/syncService';
+import { createTransport } from './services/syncTransport';
+import { CREATE_SHORTCUTS, ITEM_TYPE_LABELS, describeItem, getGraphOrder, getNextInOrder } from './services/boardNavigation';
+import { createClipboardPayload, instantiateClipboardPayload, readClipboardPayload, textToStickies, writeClipboardPayload } from './services/clipboardService';
+import { AlignMode, DistributeAxis, STICKY_PALETTE, alignItems, distributeItems, normalizeRect } from './services/selectionService';
+import { LayoutMode, applyLayout, computeLayout, layoutHierarchical } from './services/layoutService';
+import { buildStrategicPlan, downloadPlanHtml, downloadPlanMarkdown, getDependencies, hasDependencyIssues, printPlan, renderPlanMarkdown } from './services/planExportService';
+import { analyzeDependencies, isActionable } from './services/dependencyAnalysis';
+import { BUNDLE_EXTENSION, ImportReport, downloadRoomBundle, importRoomBundle } from './services/bundleService';
+import { BoardSnapshot, EMPTY_HISTORY, HistoryMeta, RoomHistory, recordChange, undo, redo } from './services/historyService';
 
 // --- TEMPLATES ---
 
@@ -92,23 +133,85 @@ interface DashboardProps {
   onSelectRoom: (id: string) => void;
   onCreateRoom: (name: string, description: string, color: string, style?: 'noir' | 'modern', initialItems?: BoardItem[], initialLinks?: BoardLink[]) => void;
   onDeleteRoom: (id: string) => void;
+  onImportRoom: (room: PlanningRoom) => void;
+  onOpenSnapshots: (id: string) => void;
+  // Drafts a board from the room description
+  aiProvider: AiProvider;
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ rooms, activeRoomId, t, onNavigate, onSelectRoom, onCreateRoom, onDeleteRoom }) => {
+const Dashboard: React.FC<DashboardProps> = ({ rooms, activeRoomId, t, onNavigate, onSelectRoom, onCreateRoom, onDeleteRoom, onImportRoom, onOpenSnapshots, aiProvider }) => {
   const [isCreating, setIsCreating] = useState(false);
   const [newName, setNewName] = useState('');
   const [newDesc, setNewDesc] = useState('');
   const [newColor, setNewColor] = useState('blue');
+  const [draft, setDraft] = useState<BoardDraft | null>(null);
+  const [keptDraftKeys, setKeptDraftKeys] = useState<Set<string>>(new Set());
+  const [isDrafting, setIsDrafting] = useState(false);
+  const [draftError, setDraftError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [exportingId, setExportingId] = useState<string | null>(null);
+  const [importResult, setImportResult] = useState<{ name: string; report: ImportReport } | { error: string; during: 'import' | 'export' } | null>(null);
+  const summaries = useMemo(() => new Map(rooms.map(room => [room.id, summarizeRoom(room)])), [rooms]);
+  const overview = useMemo(() => [...summaries.values()].reduce((sum, s) => ({ totalGoals: sum.totalGoals + s.totalGoals, achievedGoals: sum.achievedGoals + s.achievedGoals, activeObjectives: sum.activeObjectives + s.activeObjectives, pendingTasks: sum.pendingTasks + s.pendingTasks, doneTasks: sum.doneTasks + s.doneTasks, totalTasks: sum.totalTasks + s.totalTasks }), { totalGoals: 0, achievedGoals: 0, activeObjectives: 0, pendingTasks: 0, doneTasks: 0, totalTasks: 0 }), [summaries]);
 
-  const handleCreate = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!newName.trim()) return;
-    onCreateRoom(newName, newDesc, newColor);
+  const handleExport = async (room: PlanningRoom) => {
+    setExportingId(room.id);
+    try {
+      await downloadRoomBundle(room);
+    } catch (error) {
+      console.error("Error exporting room:", error);
+      setImportResult({ error: error instanceof Error ? error.message : t('exportFailed'), during: 'export' });
+    } finally {
+      setExportingId(null);
+    }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { room, report } = importRoomBundle(await file.text());
+      onImportRoom(room);
+      setImportResult({ name: room.name, report });
+    } catch (error) {
+      setImportResult({ error: error instanceof Error ? error.message : t('importFailed'), during: 'import' });
+    }
+  };
+
+  const closeCreate = () => {
     setNewName('');
     setNewDesc('');
+    setDraft(null);
+    setDraftError(null);
     setIsCreating(false);
   };
 
+  const handleDraft = async () => {
+    setIsDrafting(true);
+    setDraftError(null);
+    try {
+      const proposed = await requestBoardDraft(aiProvider, { name: newName.trim(), brief: newDesc.trim() });
+      setDraft(proposed);
+      setKeptDraftKeys(new Set(proposed.items.map(i => i.key)));
+    } catch (error) {
+      console.error("Error drafting board:", error);
+      setDraftError(error instanceof Error ? error.message : t('draftFailed'));
+    } finally {
+      setIsDrafting(false);
+    }
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    if (draft && keptDraftKeys.size > 0) {
+      const { items, links } = materializeDraft(draft, keptDraftKeys);
+      onCreateRoom(newName, newDesc, newColor, 'modern', items, links);
+    } else onCreateRoom(newName, newDesc, newColor);
+    closeCreate();
+  };
+
   const colors = [
     { name: 'blue', class: 'bg-blue-600' },
     { name: 'emerald', class: 'bg-emerald-600' },
@@ -164,10 +267,31 @@ const Dashboard: React.FC<DashboardProps> = ({ rooms, activeRoomId, t, onNavigat
             <h1 className="text-4xl font-black text-slate-900 dark:text-white tracking-tight">{t('welcome')}</h1>
             <p className="text-slate-500 font-medium">Currently managing <span className="text-slate-900 dark:text-slate-200 font-bold">{rooms.length}</span> planning rooms.</p>
           </div>
-          <Button onClick={() => setIsCreating(true)} size="lg" className="rounded-2xl px-8 shadow-xl">
-            <svg className="w-5 h-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M12 4v16m8-8H4" /></svg>
-            {t('newMission')}
-          </Button>
+          <div className="flex gap-3">
+            <input ref={importInputRef} type="file" accept={`${BUNDLE_EXTENSION},.json,application/json`} className="hidden" onChange={handleImportFile} />
+            <Button onClick={() => importInputRef.current?.click()} variant="secondary" size="lg" className="rounded-2xl px-6">
+              <svg className="w-5 h-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" /></svg>
+              {t('importRoom')}
+            </Button>
+            <Button onClick={() => setIsCreating(true)} size="lg" className="rounded-2xl px-8 shadow-xl">
+              <svg className="w-5 h-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M12 4v16m8-8H4" /></svg>
+              {t('newMission')}
+            </Button>
+          </div>
+        </div>
+
+        {/* Project Overview */}
+        <div className="space-y-6">
+          <h2 className="text-sm font-black text-slate-400 uppercase tracking-widest flex items-center gap-3"><span className="w-2 h-2 rounded-full bg-slate-200"></span>{t('projectOverview')}</h2>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            {[{ key: 'totalGoals', value: overview.totalGoals, detail: `${overview.achievedGoals} ${t('achieved').toLowerCase()}`, ratio: overview.totalGoals > 0 ? overview.achievedGoals / overview.totalGoals : 0, fill: 'bg-slate-900 dark:bg-white' }, { key: 'activeObjectives', value: overview.activeObjectives, detail: null, ratio: null, fill: '' }, { key: 'pendingTasks', value: overview.pendingTasks, detail: `${overview.doneTasks}/${overview.totalTasks} ${t('tasksDone')}`, ratio: overview.totalTasks > 0 ? overview.doneTasks / overview.totalTasks : 0, fill: 'bg-green-500' }].map(stat => (
+              <div key={stat.key} className="bg-slate-50 dark:bg-stone-900 border-2 border-slate-100 dark:border-slate-800 rounded-3xl p-6 flex flex-col gap-3">
+                <span className="text-[10px] font-black uppercase text-slate-400 tracking-widest">{t(stat.key)}</span>
+                <span className="text-4xl font-black text-slate-900 dark:text-white">{stat.value}</span>
+                {stat.ratio !== null && (<ProgressBar ratio={stat.ratio} label={stat.detail || undefined} fillClassName={stat.fill} className="text-slate-500" />)}
+              </div>
+            ))}
+          </div>
         </div>
 
         {/* Presets Carousel */}
@@ -235,17 +359,35 @@ const Dashboard: React.FC<DashboardProps> = ({ rooms, activeRoomId, t, onNavigat
                      >
                         <span className="font-black text-xl">{room.name.charAt(0).toUpperCase()}</span>
                      </div>
-                     <button 
-                        onClick={(e) => { e.stopPropagation(); onDeleteRoom(room.id); }}
-                        className="p-2 opacity-0 group-hover:opacity-100 hover:bg-red-50 dark:hover:bg-red-900/20 text-slate-400 hover:text-red-500 rounded-lg transition-all"
-                     >
-                        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
-                     </button>
+                     <div className="flex gap-1">
+                       <button 
+                          onClick={(e) => { e.stopPropagation(); handleExport(room); }}
+                          disabled={exportingId === room.id}
+                          title={t('exportRoom')}
+                          className={`p-2 hover:bg-blue-50 dark:hover:bg-blue-900/20 text-slate-400 hover:text-blue-500 rounded-lg transition-all ${exportingId === room.id ? 'opacity-100 animate-pulse' : 'opacity-0 group-hover:opacity-100'}`}
+                       >
+                          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>
+                       </button>
+                       <button 
+                          onClick={(e) => { e.stopPropagation(); onOpenSnapshots(room.id); }}
+                          title={t('snapshots')}
+                          className="p-2 opacity-0 group-hover:opacity-100 hover:bg-blue-50 dark:hover:bg-blue-900/20 text-slate-400 hover:text-blue-500 rounded-lg transition-all"
+                       >
+                          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+                       </button>
+                       <button 
+                          onClick={(e) => { e.stopPropagation(); onDeleteRoom(room.id); }}
+                          className="p-2 opacity-0 group-hover:opacity-100 hover:bg-red-50 dark:hover:bg-red-900/20 text-slate-400 hover:text-red-500 rounded-lg transition-all"
+                       >
+                          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+                       </button>
+                     </div>
                   </div>
 
                   <div>
                      <h3 className="text-xl font-bold text-slate-900 dark:text-white mb-2 line-clamp-1">{room.name}</h3>
                      <p className="text-slate-500 dark:text-slate-400 text-xs font-medium line-clamp-2 min-h-[32px]">{room.description || 'No description provided for this mission.'}</p>
+                     <ProgressBar ratio={summaries.get(room.id)!.ratio} label={`${summaries.get(room.id)!.doneTasks}/${summaries.get(room.id)!.totalTasks} ${t('tasksDone')}`} className="mt-4 text-slate-500" />
                   </div>
 
                   <div className="mt-6 flex items-center justify-between border-t border-slate-50 dark:border-slate-800 pt-4">
@@ -277,10 +419,37 @@ const Dashboard: React.FC<DashboardProps> = ({ rooms, activeRoomId, t, onNavigat
         </div>
       </div>
 
+      {/* Import Report */}
+      {importResult && (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-900/60 backdrop-blur-md p-4" onClick={() => setImportResult(null)}>
+          <div className="bg-white dark:bg-stone-900 border border-slate-200 dark:border-stone-800 w-full max-w-lg rounded-[32px] p-8 shadow-2xl animate-in zoom-in-95 duration-200" onClick={e => e.stopPropagation()}>
+            <h2 className="text-2xl font-black text-slate-900 dark:text-white uppercase tracking-tight mb-6 border-b border-slate-100 dark:border-stone-800 pb-4">{'error' in importResult ? t(importResult.during === 'export' ? 'exportFailed' : 'importFailed') : t('importComplete')}</h2>
+            {'error' in importResult ? (
+              <p className="text-sm font-medium text-red-500">{importResult.error}</p>
+            ) : (
+              <div className="space-y-4 text-sm text-slate-600 dark:text-slate-300">
+                <p><span className="font-bold text-slate-900 dark:text-white">{importResult.name}</span> — {importResult.report.itemCount} {t('items')}, {importResult.report.linkCount} {t('links')}.</p>
+                {importResult.report.droppedItemCount > 0 && <p className="text-amber-600">{importResult.report.droppedItemCount} {t('importDroppedItems')}</p>}
+                {importResult.report.missingAssetIds.length > 0 && <p className="text-amber-600">{importResult.report.missingAssetIds.length} {t('importMissingAssets')}</p>}
+                {importResult.report.danglingLinks.length > 0 && (
+                  <div>
+                    <p className="text-xs font-black uppercase tracking-widest text-amber-600 mb-2">{importResult.report.danglingLinks.length} {t('importDanglingLinks')}</p>
+                    <ul className="max-h-40 overflow-y-auto custom-scrollbar space-y-1 text-xs font-mono">
+                      {importResult.report.danglingLinks.map(({ link, missingIds }) => (<li key={link.id} className="px-3 py-1.5 bg-slate-50 dark:bg-stone-800 rounded">{link.fromId} → {link.toId} <span className="text-slate-400">({t('missing')}: {missingIds.join(', ')})</span></li>))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
+            <div className="flex justify-end pt-6"><Button onClick={() => setImportResult(null)} className="rounded-2xl">OK</Button></div>
+          </div>
+        </div>
+      )}
+
       {/* Creation Modal */}
       {isCreating && (
         <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-900/60 backdrop-blur-md p-4">
-          <div className="bg-white dark:bg-stone-900 border border-slate-200 dark:border-stone-800 w-full max-w-lg rounded-[32px] p-8 shadow-2xl animate-in zoom-in-95 duration-200">
+          <div className={`bg-white dark:bg-stone-900 border border-slate-200 dark:border-stone-800 w-full ${draft ? 'max-w-2xl' : 'max-w-lg'} max-h-[90vh] overflow-y-auto custom-scrollbar rounded-[32px] p-8 shadow-2xl animate-in zoom-in-95 duration-200`}>
             <h2 className="text-2xl font-black text-slate-900 dark:text-white uppercase tracking-tight mb-8 border-b border-slate-100 dark:border-stone-800 pb-4">{t('createRoom')}</h2>
             <form onSubmit={handleCreate} className="space-y-6">
               <div>
@@ -302,7 +471,17 @@ const Dashboard: React.FC<DashboardProps> = ({ rooms, activeRoomId, t, onNavigat
                   className="w-full bg-slate-50 dark:bg-stone-800 border border-slate-200 dark:border-stone-700 rounded-2xl px-5 py-4 text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 font-medium h-24 resize-none"
                   placeholder="Key objectives and mission boundaries..."
                 />
+                <div className="flex items-center justify-between gap-3 mt-2 ml-1">
+                  <span className={`text-[10px] ${draftError ? 'text-red-500 font-bold' : 'text-slate-400'}`}>{draftError || `${t('draftWith')} ${aiProvider.label}`}</span>
+                  <Button type="button" size="sm" variant="secondary" onClick={handleDraft} disabled={!newDesc.trim()} isLoading={isDrafting} className="whitespace-nowrap">{draft ? t('redraft') : t('draftWithAi')}</Button>
+                </div>
               </div>
+              {draft && (
+                <div className="p-4 rounded-2xl bg-slate-50 dark:bg-stone-800/50 border border-slate-100 dark:border-stone-800">
+                  <div className="flex items-center justify-between pb-3"><span className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">{t('reviewDraft')}</span><button type="button" onClick={() => setDraft(null)} className="text-[10px] font-bold text-slate-400 hover:text-red-500">{t('discardDraft')}</button></div>
+                  <BoardDraftReview draft={draft} keptKeys={keptDraftKeys} t={t} onChange={setKeptDraftKeys} />
+                </div>
+              )}
               <div>
                 <label className="block text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-4 ml-1">{t('roomTheme')}</label>
                 <div className="flex gap-4">
@@ -317,7 +496,7 @@ const Dashboard: React.FC<DashboardProps> = ({ rooms, activeRoomId, t, onNavigat
                 </div>
               </div>
               <div className="flex gap-4 pt-6">
-                <Button type="button" variant="ghost" className="flex-1 rounded-2xl" onClick={() => setIsCreating(false)}>{t('discard')}</Button>
+                <Button type="button" variant="ghost" className="flex-1 rounded-2xl" onClick={closeCreate}>{t('discard')}</Button>
                 <Button type="submit" className="flex-1 rounded-2xl shadow-lg shadow-blue-500/20">{t('confirmRegistry')}</Button>
               </div>
             </form>
@@ -341,16 +520,19 @@ const DocumentScanner: React.FC<DocumentScannerProps> = ({ t, onSync }) => {
   const handleTag = (tag: DocBlock['tag']) => { if (contextMenu) { setBlocks(prev => prev.map(b => b.id === contextMenu.blockId ? { ...b, tag } : b)); setContextMenu(null); } };
   const handleSyncToBoard = () => {
     const newItems: BoardItem[] = []; const newLinks: BoardLink[] = [];
-    let lastTaskItemId: string | null = null; let gridX = 100; let gridY = 100;
+    let lastTaskItemId: string | null = null;
     blocks.forEach((block) => {
       if (block.tag) {
-        const newItem: BoardItem = { id: `scan-${block.id}`, type: block.tag === 'sticky' ? 'sticky' : block.tag === 'image' ? 'image' : block.tag === 'goal' ? 'goal' : block.tag === 'objective' ? 'objective' : 'idea-strip', content: block.content, x: gridX, y: gridY, color: block.tag === 'sticky' ? 'bg-yellow-200' : undefined, isCompleted: false };
+        const newItem: BoardItem = { id: `scan-${block.id}`, type: block.tag === 'sticky' ? 'sticky' : block.tag === 'image' ? 'image' : block.tag === 'goal' ? 'goal' : block.tag === 'objective' ? 'objective' : 'idea-strip', content: block.content, x: 0, y: 0, color: block.tag === 'sticky' ? 'bg-yellow-200' : undefined, isCompleted: false };
         if (block.tag === 'sticky') lastTaskItemId = newItem.id;
         if (block.tag === 'image' && lastTaskItemId) newLinks.push({ id: `link-${Math.random().toString(36).substr(2, 9)}`, fromId: lastTaskItemId, toId: newItem.id, variant: 'neutral' });
-        newItems.push(newItem); gridX += 220; if (gridX > 800) { gridX = 100; gridY += 220; }
+        newItems.push(newItem);
       }
     });
-    onSync(newItems, newLinks);
+    // Lay the scanned items out as a hierarchy, then shift it so its top-left corner sits at (100, 100)
+    const laidOut = applyLayout(newItems, layoutHierarchical(newItems, newLinks));
+    const minX = Math.min(...laidOut.map(i => i.x)); const minY = Math.min(...laidOut.map(i => i.y));
+    onSync(laidOut.map(i => ({ ...i, x: i.x - minX + 100, y: i.y - minY + 100 })), newLinks);
   };
   const getTagColor = (tag?: string) => {
     switch (tag) {
@@ -399,29 +581,56 @@ const DocumentScanner: React.FC<DocumentScannerProps> = ({ t, onSync }) => {
 };
 
 // 2. PlanningSheet Component
-interface PlanningSheetProps { activeRoom: PlanningRoom; t: (key: string) => string; }
-const PlanningSheet: React.FC<PlanningSheetProps> = ({ activeRoom, t }) => {
+interface PlanningSheetProps { activeRoom: PlanningRoom; tools: Tool[]; t: (key: string) => string; }
+const PlanningSheet: React.FC<PlanningSheetProps> = ({ activeRoom, tools, t }) => {
   const { items, links } = activeRoom;
   const goals = items.filter(i => i.type === 'goal');
   const objectives = items.filter(i => i.type === 'objective');
   const tasks = items.filter(i => i.type === 'sticky');
   const ideas = items.filter(i => i.type === 'idea-strip');
-  const getDeps = (id: string, type: 'incoming' | 'outgoing') => {
-    const deps = links.filter(l => type === 'incoming' ? l.toId === id : l.fromId === id);
-    return deps.map(l => { const targetId = type === 'incoming' ? l.fromId : l.toId; return items.find(i => i.id === targetId); }).filter(Boolean) as BoardItem[];
+  const getDeps = (id: string, type: 'incoming' | 'outgoing') => getDependencies(items, links, id, type);
+  const analysis = useMemo(() => analyzeDependencies(items, links), [items, links]);
+  const progress = useMemo(() => computeProgress(items, links), [items, links]);
+  const tooling = useMemo(() => buildStrategicPlan(activeRoom, tools).tooling, [activeRoom, tools]);
+  const summary = summarizeRoom(activeRoom);
+  const nameOf = (id: string) => { const item = items.find(i => i.id === id); return !item ? '' : item.type === 'image' ? 'Image' : item.content; };
+  const [copied, setCopied] = useState(false);
+  const handleCopyMarkdown = async () => {
+    try {
+      await navigator.clipboard.writeText(renderPlanMarkdown(buildStrategicPlan(activeRoom, tools), t));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error("Error copying plan:", error);
+    }
   };
   return (
     <div className="w-full h-full bg-slate-50 dark:bg-slate-900 overflow-y-auto custom-scrollbar">
+      <div className="sticky top-0 z-20 flex justify-end gap-2 px-6 py-3 bg-slate-50/90 dark:bg-slate-900/90 backdrop-blur no-print">
+        <Button size="sm" variant="secondary" onClick={handleCopyMarkdown}>{copied ? t('copied') : t('copyMarkdown')}</Button>
+        <Button size="sm" variant="secondary" onClick={() => downloadPlanMarkdown(buildStrategicPlan(activeRoom, tools), t)}>{t('exportMarkdown')}</Button>
+        <Button size="sm" variant="secondary" onClick={() => downloadPlanHtml(buildStrategicPlan(activeRoom, tools), t)}>{t('exportHtml')}</Button>
+        <Button size="sm" variant="primary" onClick={() => printPlan(buildStrategicPlan(activeRoom, tools), t)}>{t('printPdf')}</Button>
+      </div>
       <div className="max-w-4xl mx-auto min-h-full bg-white dark:bg-black shadow-xl">
         <div className="p-12 space-y-12">
           <div className="border-b border-slate-200 dark:border-slate-800 pb-8 text-center">
             <h1 className="text-4xl font-black uppercase tracking-tight text-slate-900 dark:text-white mb-2">{t('strategicPlan')}</h1>
             <p className="text-slate-500 dark:text-slate-400 font-serif italic">{activeRoom.name} • {new Date().toLocaleDateString()}</p>
+            <ProgressBar ratio={summary.ratio} label={`${t('overallProgress')}: ${summary.doneTasks}/${summary.totalTasks} ${t('tasksDone')}`} className="max-w-xs mx-auto mt-6 text-slate-500" />
           </div>
-          <section><h2 className="text-sm font-black text-slate-400 uppercase tracking-widest mb-6 flex items-center gap-2"><span className="w-2 h-2 rounded-full bg-slate-400"></span>{t('strategicGoals')}</h2><div className="grid gap-6">{goals.length === 0 ? <p className="text-slate-400 italic">{t('noGoals')}</p> : goals.map(goal => { const contributors = getDeps(goal.id, 'incoming'); return (<div key={goal.id} className="p-6 rounded-xl border-2 border-slate-100 dark:border-slate-800 bg-slate-50 dark:bg-slate-900 relative overflow-hidden"><div className="absolute top-0 right-0 p-2 opacity-10 pointer-events-none"><CheckeredFlagIcon className="w-24 h-24 text-black dark:text-white" /></div><div className="flex items-start justify-between mb-4 relative z-10"><div className="flex items-center gap-3"><CheckeredFlagIcon className="w-6 h-6 text-slate-900 dark:text-white" /><h3 className="text-2xl font-bold text-slate-900 dark:text-white leading-tight">{goal.content}</h3></div>{goal.isCompleted && <span className="px-3 py-1 bg-green-100 text-green-700 rounded-full text-xs font-bold uppercase">Achieved</span>}</div>{contributors.length > 0 && (<div className="mt-4 pt-4 border-t border-slate-200 dark:border-slate-800 relative z-10"><p className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">Key Dependencies</p><ul className="space-y-2">{contributors.map(c => (<li key={c.id} className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300"><span className={`w-1.5 h-1.5 rounded-full ${c.type === 'objective' ? 'bg-red-500' : 'bg-blue-500'}`}></span>{c.content}</li>))}</ul></div>)}</div>); })}</div></section>
-          <section><h2 className="text-sm font-black text-slate-400 uppercase tracking-widest mb-6 flex items-center gap-2"><span className="w-2 h-2 rounded-full bg-slate-400"></span>{t('missionObjectives')}</h2><div className="space-y-4">{objectives.length === 0 ? <p className="text-slate-400 italic">{t('noObjectives')}</p> : objectives.map(obj => (<div key={obj.id} className="flex items-start gap-4 p-4 border-b border-slate-100 dark:border-slate-800 last:border-0"><div className="w-12 h-12 flex-shrink-0 bg-slate-100 dark:bg-slate-800 rounded-lg flex items-center justify-center font-black text-slate-300">{obj.id.substring(0,2).toUpperCase()}</div><div><h4 className="font-bold text-lg text-slate-900 dark:text-white">{obj.content}</h4><div className="mt-2 flex gap-2">{getDeps(obj.id, 'incoming').length > 0 && (<span className="text-xs text-slate-500">{t('requires')} {getDeps(obj.id, 'incoming').length} {t('inputs')}</span>)}{getDeps(obj.id, 'outgoing').length > 0 && (<span className="text-xs text-slate-500">{t('contributes')} {getDeps(obj.id, 'outgoing').length} {t('outcomes')}</span>)}</div></div></div>))}</div></section>
-           <section><h2 className="text-sm font-black text-slate-400 uppercase tracking-widest mb-6 flex items-center gap-2"><span className="w-2 h-2 rounded-full bg-slate-400"></span>{t('actionItems')}</h2><div className="grid grid-cols-1 md:grid-cols-2 gap-4">{tasks.length === 0 ? <p className="text-slate-400 italic">{t('noTasks')}</p> : tasks.map(task => { const targets = getDeps(task.id, 'outgoing'); return (<div key={task.id} className="p-4 bg-yellow-50 dark:bg-yellow-900/10 border border-yellow-100 dark:border-yellow-900/30 rounded-lg"><p className="font-serif text-lg leading-snug text-slate-800 dark:text-slate-200">{task.content}</p>{targets.length > 0 && (<div className="mt-3 pt-3 border-t border-yellow-200/50 flex flex-wrap gap-2">{targets.map(t => (<span key={t.id} className="text-[10px] font-bold uppercase px-2 py-1 bg-white/50 dark:bg-black/20 rounded text-slate-600 dark:text-slate-400">For: {t.content.substring(0, 15)}...</span>))}</div>)}</div>); })}</div></section>
+          <section><h2 className="text-sm font-black text-slate-400 uppercase tracking-widest mb-6 flex items-center gap-2"><span className="w-2 h-2 rounded-full bg-slate-400"></span>{t('strategicGoals')}</h2><div className="grid gap-6">{goals.length === 0 ? <p className="text-slate-400 italic">{t('noGoals')}</p> : goals.map(goal => { const contributors = getDeps(goal.id, 'incoming'); return (<div key={goal.id} className="p-6 rounded-xl border-2 border-slate-100 dark:border-slate-800 bg-slate-50 dark:bg-slate-900 relative overflow-hidden"><div className="absolute top-0 right-0 p-2 opacity-10 pointer-events-none"><CheckeredFlagIcon className="w-24 h-24 text-black dark:text-white" /></div><div className="flex items-start justify-between mb-4 relative z-10"><div className="flex items-center gap-3"><CheckeredFlagIcon className="w-6 h-6 text-slate-900 dark:text-white" /><h3 className="text-2xl font-bold text-slate-900 dark:text-white leading-tight">{goal.content}</h3></div>{goal.isCompleted && <span className="px-3 py-1 bg-green-100 text-green-700 rounded-full text-xs font-bold uppercase">{t('achieved')}</span>}</div>{progress.get(goal.id) && (<ProgressBar ratio={progress.get(goal.id)!.ratio} label={formatProgress(progress.get(goal.id)!)} trackClassName="bg-slate-200 dark:bg-slate-800" fillClassName="bg-slate-900 dark:bg-white" className="relative z-10 text-slate-500" />)}{contributors.length > 0 && (<div className="mt-4 pt-4 border-t border-slate-200 dark:border-slate-800 relative z-10"><p className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">{t('keyDependencies')}</p><ul className="space-y-2">{contributors.map(c => (<li key={c.id} className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300"><span className={`w-1.5 h-1.5 rounded-full ${c.type === 'objective' ? 'bg-red-500' : 'bg-blue-500'}`}></span>{c.content}</li>))}</ul></div>)}</div>); })}</div></section>
+          <section><h2 className="text-sm font-black text-slate-400 uppercase tracking-widest mb-6 flex items-center gap-2"><span className="w-2 h-2 rounded-full bg-slate-400"></span>{t('missionObjectives')}</h2><div className="space-y-4">{objectives.length === 0 ? <p className="text-slate-400 italic">{t('noObjectives')}</p> : objectives.map(obj => (<div key={obj.id} className="flex items-start gap-4 p-4 border-b border-slate-100 dark:border-slate-800 last:border-0"><div className="w-12 h-12 flex-shrink-0 bg-slate-100 dark:bg-slate-800 rounded-lg flex items-center justify-center font-black text-slate-300">{obj.id.substring(0,2).toUpperCase()}</div><div className="flex-1"><h4 className="font-bold text-lg text-slate-900 dark:text-white">{obj.content}</h4>{progress.get(obj.id)!.unit !== 'self' && (<ProgressBar ratio={progress.get(obj.id)!.ratio} label={formatProgress(progress.get(obj.id)!)} fillClassName="bg-red-500" className="mt-2 max-w-sm text-slate-500" />)}<div className="mt-2 flex gap-2">{getDeps(obj.id, 'incoming').length > 0 && (<span className="text-xs text-slate-500">{t('requires')} {getDeps(obj.id, 'incoming').length} {t('inputs')}</span>)}{getDeps(obj.id, 'outgoing').length > 0 && (<span className="text-xs text-slate-500">{t('contributes')} {getDeps(obj.id, 'outgoing').length} {t('outcomes')}</span>)}</div></div></div>))}</div></section>
+           <section><h2 className="text-sm font-black text-slate-400 uppercase tracking-widest mb-6 flex items-center gap-2"><span className="w-2 h-2 rounded-full bg-slate-400"></span>{t('actionItems')}</h2><div className="grid grid-cols-1 md:grid-cols-2 gap-4">{tasks.length === 0 ? <p className="text-slate-400 italic">{t('noTasks')}</p> : tasks.map(task => { const targets = getDeps(task.id, 'outgoing'); return (<div key={task.id} className="p-4 bg-yellow-50 dark:bg-yellow-900/10 border border-yellow-100 dark:border-yellow-900/30 rounded-lg"><p className="font-serif text-lg leading-snug text-slate-800 dark:text-slate-200">{task.content}</p>{targets.length > 0 && (<div className="mt-3 pt-3 border-t border-yellow-200/50 flex flex-wrap gap-2">{targets.map(target => (<span key={target.id} className="text-[10px] font-bold uppercase px-2 py-1 bg-white/50 dark:bg-black/20 rounded text-slate-600 dark:text-slate-400">{t('for')}: {target.content.substring(0, 15)}...</span>))}</div>)}</div>); })}</div></section>
           {ideas.length > 0 && (<section><h2 className="text-sm font-black text-slate-400 uppercase tracking-widest mb-6 flex items-center gap-2"><span className="w-2 h-2 rounded-full bg-slate-400"></span>{t('conceptRepository')}</h2><div className="flex flex-wrap gap-3">{ideas.map(idea => (<div key={idea.id} className="px-4 py-3 bg-white dark:bg-stone-800 shadow-sm border border-stone-200 dark:border-stone-700 text-sm font-medium text-stone-700 dark:text-stone-300 relative overflow-hidden"><div className="absolute left-0 top-0 bottom-0 w-1 bg-purple-500/50"></div>{idea.content}</div>))}</div></section>)}
+          <section><h2 className="text-sm font-black text-slate-400 uppercase tracking-widest mb-6 flex items-center gap-2"><span className="w-2 h-2 rounded-full bg-slate-400"></span>{t('dependencyAnalysis')}</h2><div className="space-y-6">
+            {analysis.criticalPaths.length > 0 && (<div><h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">{t('criticalPaths')}</h3><ul className="space-y-2">{analysis.criticalPaths.map(path => (<li key={path.goalId} className="text-sm text-slate-600 dark:text-slate-300"><span className="font-bold text-slate-900 dark:text-white">{nameOf(path.goalId)}</span> <span className="text-xs text-slate-400">({path.remaining} {t('remaining')})</span><div className="mt-1 flex flex-wrap items-center gap-1">{path.itemIds.map((id, i) => (<React.Fragment key={id}>{i > 0 && <span className="text-red-400">→</span>}<span className="px-2 py-0.5 rounded bg-slate-100 dark:bg-slate-800 text-xs">{nameOf(id)}</span></React.Fragment>))}</div></li>))}</ul></div>)}
+            {analysis.cycles.length > 0 && (<div><h3 className="text-xs font-bold text-red-500 uppercase tracking-wider mb-3">{t('dependencyCycles')}</h3><ul className="space-y-1">{analysis.cycles.map(cycle => (<li key={cycle.join('-')} className="text-sm text-slate-600 dark:text-slate-300">{[...cycle, cycle[0]].map(nameOf).join(' → ')}</li>))}</ul></div>)}
+            {analysis.blocked.length > 0 && (<div><h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">{t('blockedItems')}</h3><ul className="space-y-1">{analysis.blocked.map(({ itemId, blockerIds }) => (<li key={itemId} className="text-sm text-slate-600 dark:text-slate-300">{nameOf(itemId)} <span className="text-xs text-slate-400">— {t('blockedBy')}: {blockerIds.map(nameOf).join(', ')}</span></li>))}</ul></div>)}
+            {analysis.orphans.length > 0 && (<div><h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">{t('orphanItems')}</h3><div className="flex flex-wrap gap-2">{analysis.orphans.map(id => (<span key={id} className="px-2 py-1 rounded border border-dashed border-slate-300 dark:border-slate-700 text-xs text-slate-500">{nameOf(id)}</span>))}</div></div>)}
+            {!hasDependencyIssues(analysis) && (<p className="text-slate-400 italic">{t('noDependencyIssues')}</p>)}
+          </div></section>
+          {tooling.length > 0 && (<section><h2 className="text-sm font-black text-slate-400 uppercase tracking-widest mb-6 flex items-center gap-2"><span className="w-2 h-2 rounded-full bg-slate-400"></span>{t('tooling')}</h2><div className="divide-y divide-slate-100 dark:divide-slate-800">{tooling.map(({ tool, items: usedBy }, index) => (<React.Fragment key={tool.id}>{(index === 0 || categoryOf(tooling[index - 1].tool) !== categoryOf(tool)) && (<h3 className="pt-4 pb-2 text-xs font-bold text-slate-500 uppercase tracking-wider">{categoryOf(tool)}</h3>)}<div className="flex items-start gap-3 py-3"><ToolIcon tool={tool} className="w-6 h-6" /><div className="min-w-0"><p className="font-bold text-slate-900 dark:text-white">{tool.url ? (<a href={tool.url} target="_blank" rel="noopener noreferrer" className="hover:text-blue-600">{tool.name}</a>) : tool.name}</p>{tool.description && (<p className="text-sm text-slate-600 dark:text-slate-300">{tool.description}</p>)}<p className="mt-1 text-xs text-slate-400">{t('usedBy')}: {usedBy.map(i => i.content).join(', ')}</p></div></div></React.Fragment>))}</div></section>)}
         </div>
       </div>
     </div>
@@ -429,16 +638,27 @@ const PlanningSheet: React.FC<PlanningSheetProps> = ({ activeRoom, t }) => {
 };
 
 // 3. PlanningBoard Component
-interface PlanningBoardProps { boardItems: BoardItem[]; setBoardItems: (items: BoardItem[]) => void; boardLinks: BoardLink[]; setBoardLinks: (links: BoardLink[]) => void; style?: 'noir' | 'modern'; }
-const PlanningBoard: React.FC<PlanningBoardProps> = ({ boardItems, setBoardItems, boardLinks, setBoardLinks, style = 'noir' }) => {
-    const [selectedId, setSelectedId] = useState<string | null>(null);
+interface PlanningBoardProps { boardItems: BoardItem[]; setBoardItems: (items: BoardItem[], meta: HistoryMeta) => void; boardLinks: BoardLink[]; setBoardLinks: (links: BoardLink[], meta: HistoryMeta) => void; setBoard: (items: BoardItem[], links: BoardLink[], meta: HistoryMeta) => void; onUndo: () => void; onRedo: () => void; canUndo: boolean; canRedo: boolean; roomId: string; roomName: string; style?: 'noir' | 'modern'; focusItemId?: string | null; onFocusItemHandled?: () => void; onOpenSnapshots?: () => void; onOpenReview?: () => void; peers?: Presence[]; onPresenceChange?: (changes: Partial<Pick<Presence, 'cursor' | 'selection'>>) => void; contacts?: Contact[]; tools?: Tool[]; }
+const PlanningBoard: React.FC<PlanningBoardProps> = ({ boardItems, setBoardItems, boardLinks, setBoardLinks, setBoard, onUndo, onRedo, canUndo, canRedo, roomId, roomName, style = 'noir', focusItemId, onFocusItemHandled, onOpenSnapshots, onOpenReview, peers = [], onPresenceChange, contacts = [], tools = [] }) => {
+    // Selection holds item ids (and at most one link id); the last entry is the primary selection
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+    const selectedId = selectedIds.length > 0 ? selectedIds[selectedIds.length - 1] : null;
+    const setSelectedId = (id: string | null) => setSelectedIds(id ? [id] : []);
+    const selectedItemIds = selectedIds.filter(id => boardItems.some(i => i.id === id));
+    const [marquee, setMarquee] = useState<{ start: Point; end: Point } | null>(null);
+    // Last pointer position in board coordinates; pastes land here
+    const lastPointerRef = useRef<Point | null>(null);
     const [draggingId, setDraggingId] = useState<string | null>(null);
+    // A drag only accumulates an offset locally; the room itself is updated once, on drop
+    const [dragDelta, setDragDelta] = useState<Point | null>(null);
     const [pendingLinkStart, setPendingLinkStart] = useState<string | null>(null);
     const [activeLinkVariant, setActiveLinkVariant] = useState<BoardLink['variant']>('critical');
     const [activeLinkMenuId, setActiveLinkMenuId] = useState<string | null>(null);
     const containerRef = useRef<HTMLDivElement>(null);
     const [deletingIds, setDeletingIds] = useState<Set<string>>(new Set());
-    const [transform, setTransform] = useState({ x: 0, y: 0, s: 1 });
+    const [transform, setTransform] = useState<Viewport>(() => loadViewport(roomId) || DEFAULT_VIEWPORT);
+    const [screenSize, setScreenSize] = useState({ w: 0, h: 0 });
+    const [showMinimap, setShowMinimap] = useState(true);
     const [isPanning, setIsPanning] = useState(false);
     const lastMousePos = useRef({ x: 0, y: 0 });
     const [cursorPos, setCursorPos] = useState({ x: 0, y: 0 });
@@ -448,6 +668,102 @@ const PlanningBoard: React.FC<PlanningBoardProps> = ({ boardItems, setBoardItems
     const [wizardGoalId, setWizardGoalId] = useState<string>('');
     const [wizardNewGoalName, setWizardNewGoalName] = useState('');
     const [wizardSourceId, setWizardSourceId] = useState<string | null>(null);
+    const [wizardDetails, setWizardDetails] = useState<Partial<BoardItem>>({});
+    const [detailsOpenId, setDetailsOpenId] = useState<string | null>(null);
+    const dragSessionRef = useRef(0);
+    const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+    const [exportViewportOnly, setExportViewportOnly] = useState(false);
+    const [isExporting, setIsExporting] = useState(false);
+    const [isLayoutMenuOpen, setIsLayoutMenuOpen] = useState(false);
+    const [filter, setFilter] = useState<BoardFilter>(EMPTY_FILTER);
+    const [isFilterMenuOpen, setIsFilterMenuOpen] = useState(false);
+    const layoutAnimationRef = useRef<number | null>(null);
+    // Timers and animation frames fire after later renders, so they read the board and its setters from here
+    const latestBoardRef = useRef({ boardItems, boardLinks, setBoardItems, setBoard });
+    latestBoardRef.current = { boardItems, boardLinks, setBoardItems, setBoard };
+
+    // Reopening the room restores the last viewport; saving is debounced so panning doesn't hammer storage
+    useEffect(() => { const timer = setTimeout(() => saveViewport(roomId, transform), 400); return () => clearTimeout(timer); }, [roomId, transform]);
+    useEffect(() => {
+      if (!containerRef.current) return;
+      const observer = new ResizeObserver(([entry]) => setScreenSize({ w: entry.contentRect.width, h: entry.contentRect.height }));
+      observer.observe(containerRef.current);
+      return () => observer.disconnect();
+    }, []);
+
+    const [announcement, setAnnouncement] = useState('');
+    const [showShortcuts, setShowShortcuts] = useState(false);
+    const [showAnalysis, setShowAnalysis] = useState(false);
+
+    // Ctrl+Z / Ctrl+Shift+Z (and Ctrl+Y) step through the room history; Delete, Escape and Ctrl+A act on the selection.
+    // Without a modifier: arrows nudge, Tab walks the link graph, letters create items, L starts a link and Enter completes it
+    useEffect(() => {
+      const handleKeyDown = (e: KeyboardEvent) => {
+        const target = e.target as HTMLElement | null;
+        const isEditing = !!target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable);
+        const key = e.key.toLowerCase();
+        if (e.ctrlKey || e.metaKey) {
+          // Inside a text field these keys belong to the field's own undo stack
+          if (key === 'z' && !e.shiftKey && !isEditing) { e.preventDefault(); onUndo(); }
+          else if (((key === 'z' && e.shiftKey) || key === 'y') && !isEditing) { e.preventDefault(); onRedo(); }
+          else if (key === 'a' && !isEditing) { e.preventDefault(); setSelectedIds(boardItems.map(i => i.id)); }
+          else if (key === 'd' && !isEditing && selectedItemIds.length > 0) { e.preventDefault(); handleDuplicate(); }
+          return;
+        }
+        if (isEditing || e.altKey || isTaskWizardOpen) return;
+        // Keys pressed on a focused control (toolbar buttons, menus, links) belong to that control
+        if (key !== 'escape' && !!target?.closest('button, a[href], select, summary, [role="button"], [role="menuitem"]')) return;
+        const selectedItem = boardItems.find(i => i.id === selectedId);
+        const onBoard = !target || target === document.body || !!target.closest('[data-item-id]');
+        if (key === 'delete' || key === 'backspace') {
+          if (selectedItemIds.length > 0) { e.preventDefault(); handleDeleteItems(selectedItemIds); }
+          else if (selectedId && boardLinks.some(l => l.id === selectedId)) { e.preventDefault(); handleDeleteLink(selectedId); }
+        } else if (key === 'escape') {
+          if (pendingLinkStart) setAnnouncement('Link cancelled');
+          setSelectedIds([]); setPendingLinkStart(null); setShowShortcuts(false);
+        } else if (key.startsWith('arrow') && selectedItemIds.length > 0 && !focusModeId) {
+          e.preventDefault();
+          const step = e.shiftKey ? 50 : 10;
+          const dx = key === 'arrowleft' ? -step : key === 'arrowright' ? step : 0;
+          const dy = key === 'arrowup' ? -step : key === 'arrowdown' ? step : 0;
+          setBoardItems(boardItems.map(item => selectedItemIds.includes(item.id) && !item.isLocked ? { ...item, x: item.x + dx, y: item.y + dy } : item), { action: 'move', mergeKey: `nudge-${selectedItemIds.join(',')}` });
+        } else if (key === 'tab' && onBoard && (selectedItem || target?.closest('[data-item-id]')) && !focusModeId) {
+          e.preventDefault();
+          const next = getNextInOrder(getGraphOrder(boardItems, boardLinks), selectedItem ? selectedItem.id : null, e.shiftKey ? -1 : 1);
+          if (next) focusItem(next);
+        } else if (key === 'enter' && selectedItem && onBoard) {
+          e.preventDefault();
+          if (pendingLinkStart) completeKeyboardLink(selectedItem.id);
+          else enterFocusMode(selectedItem.id, 'node', selectedItem.x, selectedItem.y + 100);
+        } else if (key === 'l' && selectedItem && selectedItemIds.length === 1) {
+          e.preventDefault();
+          setPendingLinkStart(selectedItem.id);
+          setAnnouncement(`Linking from ${ITEM_TYPE_LABELS[selectedItem.type]} ${selectedItem.content}. Tab to the target and press Enter, or Escape to cancel.`);
+        } else if (e.code === 'Digit1' && e.shiftKey) {
+          fitAll();
+        } else if (e.code === 'Digit2' && e.shiftKey) {
+          fitSelection();
+        } else if (key === 'z' && selectedItem) {
+          zoomToItem(selectedItem.id);
+        } else if (key === 'm') {
+          setShowMinimap(prev => !prev);
+        } else if (key === 'a') {
+          setShowAnalysis(prev => !prev);
+        } else if (key === 'x' && selectedItemIds.length > 0) {
+          const targets = boardItems.filter(i => selectedItemIds.includes(i.id) && isActionable(i));
+          const complete = targets.some(i => !i.isCompleted);
+          if (targets.length > 0) { setBoardItems(boardItems.map(i => targets.includes(i) ? { ...i, ...completionPatch(complete) } : i), { action: 'edit' }); setAnnouncement(complete ? 'Marked done' : 'Marked not done'); }
+        } else if (e.key === '?') {
+          setShowShortcuts(prev => !prev);
+        } else if (CREATE_SHORTCUTS[key] && !e.shiftKey && !focusModeId) {
+          e.preventDefault();
+          handleAddItem(CREATE_SHORTCUTS[key]);
+          setAnnouncement(`${ITEM_TYPE_LABELS[CREATE_SHORTCUTS[key]]} created`);
+        }
+      };
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+    });
 
     // handleWheel for zooming
     const handleWheel = (e: React.WheelEvent) => {
@@ -466,21 +782,80 @@ const PlanningBoard: React.FC<PlanningBoardProps> = ({ boardItems, setBoardItems
       });
     };
 
-    // handleDeleteItem
-    const handleDeleteItem = (id: string) => {
-      setDeletingIds(prev => new Set(prev).add(id));
+    // handleDeleteItems removes the items and every link attached to them as one history step
+    const handleDeleteItems = (ids: string[]) => {
+      if (ids.length === 0) return;
+      const removed = new Set(ids);
+      setDeletingIds(prev => { const next = new Set(prev); ids.forEach(id => next.add(id)); return next; });
       setTimeout(() => {
-        setBoardItems(boardItems.filter(item => item.id !== id));
-        setBoardLinks(boardLinks.filter(link => link.fromId !== id && link.toId !== id));
-        setDeletingIds(prev => { const next = new Set(prev); next.delete(id); return next; });
-        if (selectedId === id) setSelectedId(null);
-        if (focusModeId === id) exitFocusMode();
+        // Applied to the board as it is when the timer fires, so edits from collaborators in the meantime are kept
+        const { boardItems: items, boardLinks: links, setBoard: commit } = latestBoardRef.current;
+        commit(items.filter(item => !removed.has(item.id)), links.filter(link => !removed.has(link.fromId) && !removed.has(link.toId)), { action: 'delete' });
+        setDeletingIds(prev => { const next = new Set(prev); ids.forEach(id => next.delete(id)); return next; });
+        setSelectedIds(prev => prev.filter(id => !removed.has(id)));
+        setFocusModeId(prev => prev && removed.has(prev) ? null : prev);
       }, 300);
     };
+    const handleDeleteItem = (id: string) => handleDeleteItems([id]);
+
+    // Copy/cut/paste go through the system clipboard so clusters can move between rooms and tabs
+    useEffect(() => {
+      const isEditingTarget = () => { const el = document.activeElement as HTMLElement | null; return !!el && (el.tagName === 'INPUT' || el.tagName === 'TEXTAREA' || el.isContentEditable); };
+      const handleCopy = (e: ClipboardEvent, cut: boolean) => {
+        if (isEditingTarget() || selectedItemIds.length === 0 || !e.clipboardData) return;
+        e.preventDefault();
+        writeClipboardPayload(e.clipboardData, createClipboardPayload(boardItems, boardLinks, selectedItemIds));
+        if (cut) handleDeleteItems(selectedItemIds);
+      };
+      const handlePaste = (e: ClipboardEvent) => {
+        if (isEditingTarget() || !e.clipboardData || focusModeId) return;
+        const content = readClipboardPayload(e.clipboardData);
+        if (!content) return;
+        e.preventDefault();
+        const at = lastPointerRef.current || getViewportCenter();
+        if ('payload' in content) { const pasted = instantiateClipboardPayload(content.payload, at); insertItems(pasted.items, pasted.links); }
+        else insertItems(textToStickies(content.text, at), []);
+      };
+      const onCopy = (e: ClipboardEvent) => handleCopy(e, false);
+      const onCut = (e: ClipboardEvent) => handleCopy(e, true);
+      document.addEventListener('copy', onCopy);
+      document.addEventListener('cut', onCut);
+      document.addEventListener('paste', handlePaste);
+      return () => { document.removeEventListener('copy', onCopy); document.removeEventListener('cut', onCut); document.removeEventListener('paste', handlePaste); };
+    });
+    const insertItems = (items: BoardItem[], links: BoardLink[]) => {
+      if (items.length === 0) return;
+      setBoard([...boardItems, ...items], [...boardLinks, ...links], { action: 'add' });
+      setSelectedIds(items.map(i => i.id));
+    };
+    // Duplicates the selection and its internal links, offset from the originals
+    const handleDuplicate = () => {
+      const payload = createClipboardPayload(boardItems, boardLinks, selectedItemIds);
+      const bounds = getContentBounds(payload.items);
+      if (!bounds) return;
+      const copy = instantiateClipboardPayload(payload, { x: bounds.x + bounds.w / 2 + 40, y: bounds.y + bounds.h / 2 + 40 });
+      insertItems(copy.items, copy.links);
+    };
+
+    // Bulk operations on the current selection
+    const selectionLinks = boardLinks.filter(l => selectedItemIds.includes(l.fromId) && selectedItemIds.includes(l.toId));
+    const updateSelectedItems = (updates: Partial<BoardItem>) => setBoardItems(boardItems.map(item => selectedItemIds.includes(item.id) ? { ...item, ...updates } : item), { action: 'edit' });
+    // Only stickies take palette colours; other cards keep their type's own styling
+    const selectedStickyIds = selectedItemIds.filter(id => boardItems.find(i => i.id === id)?.type === 'sticky');
+    const recolorSelection = (color: string) => setBoardItems(boardItems.map(item => selectedStickyIds.includes(item.id) ? { ...item, color } : item), { action: 'edit' });
+    const setSelectionLinkVariant = (variant: BoardLink['variant']) => setBoardLinks(boardLinks.map(link => selectionLinks.includes(link) ? { ...link, variant } : link), { action: 'edit' });
+    const handleAlign = (mode: AlignMode) => setBoardItems(alignItems(boardItems, selectedItemIds, mode), { action: 'move' });
+    const handleDistribute = (axis: DistributeAxis) => setBoardItems(distributeItems(boardItems, selectedItemIds, axis), { action: 'move' });
 
     // handleUpdateItem
     const handleUpdateItem = (id: string, updates: Partial<BoardItem>) => {
-      setBoardItems(boardItems.map(item => item.id === id ? { ...item, ...updates } : item));
+      setBoardItems(boardItems.map(item => item.id === id ? { ...item, ...updates } : item), { action: 'edit', mergeKey: `edit-${id}` });
+    };
+
+    // handleDeleteLink
+    const handleDeleteLink = (id: string) => {
+      setBoardLinks(boardLinks.filter(link => link.id !== id), { action: 'link-delete' });
+      if (selectedId === id) setSelectedId(null);
     };
 
     // handleStartLink
@@ -491,8 +866,44 @@ const PlanningBoard: React.FC<PlanningBoardProps> = ({ boardItems, setBoardItems
       setActiveLinkMenuId(null);
     };
 
-    const getItemDimensions = (type: BoardItem['type']) => { switch (type) { case 'objective': return { w: 300, h: 200 }; case 'idea-strip': return { w: 280, h: 60 }; case 'image': return { w: 280, h: 220 }; case 'goal': return { w: 180, h: 180 }; case 'sticky': default: return { w: 180, h: 180 }; } };
-    const checkOverlap = (x: number, y: number, width: number, height: number, excludeId?: string) => { const buffer = 40; return boardItems.some(item => { if (item.id === excludeId) return false; const d = getItemDimensions(item.type); return (x < item.x + d.w + buffer && x + width + buffer > item.x && y < item.y + d.h + buffer && y + height + buffer > item.y); }); };
+    const completeKeyboardLink = (toId: string) => {
+      if (!pendingLinkStart) return;
+      if (pendingLinkStart !== toId) { setBoardLinks([...boardLinks, { id: Math.random().toString(36).substr(2, 9), fromId: pendingLinkStart, toId, variant: activeLinkVariant }], { action: 'link-create' }); setAnnouncement('Link created'); }
+      setPendingLinkStart(null);
+    };
+
+    // Viewport commands: fit everything, fit the selection, zoom to one item, or centre on a minimap point
+    const fitToRect = (rect: Rect | null, maxScale?: number) => {
+      if (!rect || !containerRef.current) return;
+      const { width, height } = containerRef.current.getBoundingClientRect();
+      if (focusModeId) exitFocusMode();
+      setTransform(fitRect(rect, width, height, 60, maxScale));
+    };
+    const fitAll = () => fitToRect(getContentBounds(boardItems));
+    const fitSelection = () => fitToRect(getContentBounds(boardItems.filter(i => selectedItemIds.includes(i.id))));
+    const zoomToItem = (id: string) => { const item = boardItems.find(i => i.id === id); if (!item) return; setSelectedId(id); fitToRect(getItemRect(item), 2); };
+    const centerOn = (point: Point) => { if (!containerRef.current) return; const { width, height } = containerRef.current.getBoundingClientRect(); setTransform(prev => ({ ...prev, x: width / 2 - point.x * prev.s, y: height / 2 - point.y * prev.s })); };
+
+    // Search results jump here: centre and select the requested item once it is on the board
+    useEffect(() => {
+      if (!focusItemId) return;
+      const item = boardItems.find(i => i.id === focusItemId);
+      if (item) { const d = getItemDimensions(item.type); if (focusModeId) exitFocusMode(); setSelectedId(item.id); centerOn({ x: item.x + d.w / 2, y: item.y + d.h / 2 }); }
+      onFocusItemHandled?.();
+    }, [focusItemId]);
+
+    // Selects an item from the keyboard, focuses its node and pans it into view if it is off screen
+    const focusItem = (id: string) => {
+      const item = boardItems.find(i => i.id === id);
+      if (!item || !containerRef.current) return;
+      setSelectedId(id);
+      const rect = containerRef.current.getBoundingClientRect(); const d = getItemDimensions(item.type);
+      const left = item.x * transform.s + transform.x; const top = item.y * transform.s + transform.y;
+      if (left < 0 || top < 0 || left + d.w * transform.s > rect.width || top + d.h * transform.s > rect.height) setTransform(prev => ({ ...prev, x: rect.width / 2 - (item.x + d.w / 2) * prev.s, y: rect.height / 2 - (item.y + d.h / 2) * prev.s }));
+      requestAnimationFrame(() => containerRef.current?.querySelector<HTMLElement>(`[data-item-id="${id}"]`)?.focus({ preventScroll: true }));
+    };
+
+    const checkOverlap = (x: number, y: number, width: number, height: number, excludeId?: string) => spatialIndex.query(expandRect({ x, y, w: width, h: height }, 40)).some(item => item.id !== excludeId);
     const findBestPosition = (refX: number, refY: number, width: number, height: number, mode: 'spiral' | 'grid-below' = 'spiral') => {
         if (mode === 'grid-below') { const rowHeight = 250; const offsets = [0, 220, -220, 440, -440, 660, -660, 880, -880]; for (let row = 1; row <= 5; row++) { const targetY = refY + (row * rowHeight); for (const ox of offsets) { const targetX = refX + ox; if (!checkOverlap(targetX, targetY, width, height)) return { x: targetX, y: targetY }; } } }
         let angle = 0; let radius = 0; let x = refX; let y = refY; let attempts = 0;
@@ -504,101 +915,457 @@ const PlanningBoard: React.FC<PlanningBoardProps> = ({ boardItems, setBoardItems
     const handleAddItem = (type: BoardItem['type']) => {
       const center = getViewportCenter(); const dims = getItemDimensions(type); const pos = findBestPosition(center.x - dims.w/2, center.y - dims.h/2, dims.w, dims.h, 'spiral');
       const newItem: BoardItem = { id: Math.random().toString(36).substr(2, 9), type, content: type === 'image' ? 'https://picsum.photos/300/200' : (type === 'sticky' ? 'Note' : (type === 'objective' ? 'New Objective' : (type === 'idea-strip' ? 'New Idea Strip' : (type === 'goal' ? 'New Goal' : 'Card')))), x: pos.x, y: pos.y, color: type === 'sticky' ? 'bg-yellow-200' : undefined, isCompleted: false, isLocked: false };
-      setBoardItems([...boardItems, newItem]); setSelectedId(newItem.id); if (type === 'objective') enterFocusMode(newItem.id, 'node', newItem.x, newItem.y);
+      setBoardItems([...boardItems, newItem], { action: 'add' }); setSelectedId(newItem.id); if (type === 'objective') enterFocusMode(newItem.id, 'node', newItem.x, newItem.y);
+    };
+    const openTaskWizard = (sourceId?: string) => { setWizardSourceId(sourceId || null); setWizardTaskName(''); setWizardNewGoalName(''); setWizardDetails({}); const goals = boardItems.filter(i => i.type === 'goal'); setWizardGoalId(goals.length > 0 ? goals[0].id : ''); setIsTaskWizardOpen(true); };
+    // Creates the wizard's task below its source (or in view), linked from the source and on to the chosen or newly named goal
+    const createConnectedTask = (e: React.FormEvent) => {
+      e.preventDefault(); const sourceItem = boardItems.find(i => i.id === wizardSourceId); const dims = getItemDimensions('sticky'); const center = getViewportCenter();
+      const pos = sourceItem ? findBestPosition(sourceItem.x, sourceItem.y, dims.w, dims.h, 'grid-below') : findBestPosition(center.x - dims.w / 2, center.y - dims.h / 2, dims.w, dims.h, 'spiral');
+      const newTask: BoardItem = { id: Math.random().toString(36).substr(2, 9), type: 'sticky', content: wizardTaskName.trim() || 'New Task', x: pos.x, y: pos.y, color: 'bg-yellow-200', isCompleted: false, isLocked: false, ...wizardDetails };
+      const newItems = [newTask]; const newLinks: BoardLink[] = [];
+      if (sourceItem) newLinks.push({ id: Math.random().toString(36).substr(2, 9), fromId: sourceItem.id, toId: newTask.id, variant: 'critical' });
+      let goalId = wizardGoalId;
+      if (goalId === 'new') { const goalDims = getItemDimensions('goal'); const goal: BoardItem = { id: Math.random().toString(36).substr(2, 9), type: 'goal', content: wizardNewGoalName.trim() || 'New Goal', x: pos.x, y: pos.y + dims.h + 120, isCompleted: false, isLocked: false }; const goalPos = findBestPosition(goal.x, goal.y, goalDims.w, goalDims.h, 'spiral'); newItems.push({ ...goal, ...goalPos }); goalId = goal.id; }
+      if (goalId) newLinks.push({ id: Math.random().toString(36).substr(2, 9), fromId: newTask.id, toId: goalId, variant: 'neutral' });
+      setBoard([...boardItems, ...newItems], [...boardLinks, ...newLinks], { action: 'add' }); setIsTaskWizardOpen(false); setActiveLinkMenuId(null); setSelectedId(newTask.id);
     };
-    const openTaskWizard = (sourceId?: string) => { setWizardSourceId(sourceId || null); const goals = boardItems.filter(i => i.type === 'goal'); setWizardGoalId(goals.length > 0 ? goals[0].id : ''); setIsTaskWizardOpen(true); };
-    const createConnectedTask = (e: React.MouseEvent, sourceId: string, variant: BoardLink['variant']) => { e.stopPropagation(); const sourceItem = boardItems.find(i => i.id === sourceId); if (!sourceItem) return; const dims = getItemDimensions('sticky'); const pos = findBestPosition(sourceItem.x, sourceItem.y, dims.w, dims.h, 'grid-below'); const newTask: BoardItem = { id: Math.random().toString(36).substr(2, 9), type: 'sticky', content: 'New Task', x: pos.x, y: pos.y, color: 'bg-yellow-200', isCompleted: false, isLocked: false }; const newLink: BoardLink = { id: Math.random().toString(36).substr(2, 9), fromId: sourceId, toId: newTask.id, variant }; setBoardItems([...boardItems, newTask]); setBoardLinks([...boardLinks, newLink]); setActiveLinkMenuId(null); setSelectedId(newTask.id); };
-    const handleMouseDown = (e: React.MouseEvent, id?: string) => { e.stopPropagation(); lastMousePos.current = { x: e.clientX, y: e.clientY }; if (!id) { if (e.button === 0) { if (pendingLinkStart) { setPendingLinkStart(null); return; } setIsPanning(true); setSelectedId(null); setActiveLinkMenuId(null); if (focusModeId) exitFocusMode(); } return; } if (pendingLinkStart) { if (pendingLinkStart !== id) setBoardLinks([...boardLinks, { id: Math.random().toString(36).substr(2, 9), fromId: pendingLinkStart, toId: id, variant: activeLinkVariant }]); setPendingLinkStart(null); return; } const item = boardItems.find(i => i.id === id); if (item) { setSelectedId(id); setActiveLinkMenuId(null); if (!item.isLocked) setDraggingId(id); } };
+    const handleMouseDown = (e: React.MouseEvent, id?: string) => { e.stopPropagation(); lastMousePos.current = { x: e.clientX, y: e.clientY }; if (!id) { if (e.button === 0) { if (pendingLinkStart) { setPendingLinkStart(null); return; } if (e.shiftKey) { const start = getBoardCoordinates(e.clientX, e.clientY); setMarquee({ start, end: start }); return; } setIsPanning(true); setSelectedId(null); setActiveLinkMenuId(null); if (focusModeId) exitFocusMode(); } return; } if (pendingLinkStart) { if (pendingLinkStart !== id) setBoardLinks([...boardLinks, { id: Math.random().toString(36).substr(2, 9), fromId: pendingLinkStart, toId: id, variant: activeLinkVariant }], { action: 'link-create' }); setPendingLinkStart(null); return; } const item = boardItems.find(i => i.id === id); if (item) { setActiveLinkMenuId(null); const currentItems = selectedIds.filter(s => s !== id && boardItems.some(i => i.id === s)); const nextSelection = e.shiftKey ? (selectedIds.includes(id) ? currentItems : [...currentItems, id]) : (selectedIds.includes(id) ? [...currentItems, id] : [id]); setSelectedIds(nextSelection); if (nextSelection.includes(id) && !item.isLocked) { dragSessionRef.current = Date.now(); setDraggingId(id); } } };
     const handleContainerMouseMove = (e: React.MouseEvent) => {
-      if (pendingLinkStart) setCursorPos(getBoardCoordinates(e.clientX, e.clientY));
+      lastPointerRef.current = getBoardCoordinates(e.clientX, e.clientY);
+      onPresenceChange?.({ cursor: lastPointerRef.current });
+      if (pendingLinkStart) setCursorPos(lastPointerRef.current);
+      if (marquee) { setMarquee({ ...marquee, end: getBoardCoordinates(e.clientX, e.clientY) }); return; }
       if (isPanning && !focusModeId) { const dx = e.clientX - lastMousePos.current.x; const dy = e.clientY - lastMousePos.current.y; setTransform(prev => ({ ...prev, x: prev.x + dx, y: prev.y + dy })); lastMousePos.current = { x: e.clientX, y: e.clientY }; return; }
-      if (draggingId) { const dx = e.clientX - lastMousePos.current.x; const dy = e.clientY - lastMousePos.current.y; setBoardItems(boardItems.map(item => item.id === draggingId ? { ...item, x: item.x + dx / transform.s, y: item.y + dy / transform.s } : item)); lastMousePos.current = { x: e.clientX, y: e.clientY }; }
+      if (draggingId) { const dx = e.clientX - lastMousePos.current.x; const dy = e.clientY - lastMousePos.current.y; setDragDelta(prev => ({ x: (prev?.x || 0) + dx / transform.s, y: (prev?.y || 0) + dy / transform.s })); lastMousePos.current = { x: e.clientX, y: e.clientY }; }
+    };
+    const endPointerGesture = () => {
+      if (marquee) { const hits = spatialIndex.query(normalizeRect(marquee.start, marquee.end)).map(i => i.id); setSelectedIds(prev => [...new Set([...prev.filter(id => boardItems.some(i => i.id === id)), ...hits])]); setMarquee(null); }
+      if (dragDelta && (dragDelta.x !== 0 || dragDelta.y !== 0)) setBoardItems(boardItems.map(item => isDragMoved(item) ? { ...item, x: item.x + dragDelta.x, y: item.y + dragDelta.y } : item), { action: 'move', mergeKey: `move-${draggingId}-${dragSessionRef.current}` });
+      setDragDelta(null); setDraggingId(null); setIsPanning(false);
     };
     const handleDoubleClickNode = (e: React.MouseEvent, id: string) => { e.stopPropagation(); const item = boardItems.find(i => i.id === id); if (item) enterFocusMode(id, 'node', item.x, item.y + 100); };
     const enterFocusMode = (id: string, type: 'node' | 'link', targetX: number, targetY: number) => { if (!containerRef.current) return; setFocusModeId(id); setSelectedId(id); const rect = containerRef.current.getBoundingClientRect(); const targetScale = 1.5; setTransform({ x: (rect.width / 2) - (targetX * targetScale), y: (rect.height / 2) - (targetY * targetScale), s: targetScale }); };
     const exitFocusMode = () => setFocusModeId(null);
-    const getItemCenter = (item: BoardItem) => { let w = 160, h = 160; if (item.type === 'image') { w = 256; h = 200; } else if (item.type === 'objective') { w = 256; h = 140; } else if (item.type === 'idea-strip') { w = 280; h = 60; } else if (item.type === 'goal') { w = 180; h = 180; } return { x: item.x + w/2, y: item.y + h/2 }; };
+    // Auto-arrange: eases every unlocked item to its target over a few frames, recorded as a single history step
+    const handleAutoArrange = (mode: LayoutMode) => {
+      const selected = boardItems.find(i => i.id === selectedId);
+      const centerId = mode === 'radial' ? (selected?.type === 'goal' ? selected.id : boardItems.find(i => i.type === 'goal')?.id) : undefined;
+      const layout = computeLayout(mode, boardItems, boardLinks, centerId);
+      setIsLayoutMenuOpen(false);
+      if (layout.size === 0) return;
+      if (layoutAnimationRef.current !== null) cancelAnimationFrame(layoutAnimationRef.current);
+      const start = boardItems; const startedAt = performance.now(); const duration = 600; const meta = { action: 'layout' as const, mergeKey: `layout-${startedAt}` };
+      const step = (now: number) => {
+        const t = Math.min((now - startedAt) / duration, 1); const eased = 1 - Math.pow(1 - t, 3);
+        // Only the arranged positions come from `start`; everything else is the latest board
+        const { boardItems: current, setBoardItems: commit } = latestBoardRef.current;
+        const moved = new Map(applyLayout(start, layout, eased).map(item => [item.id, item]));
+        commit(current.map(item => { const next = moved.get(item.id); return next && layout.has(item.id) && !item.isLocked ? { ...item, x: next.x, y: next.y } : item; }), meta);
+        layoutAnimationRef.current = t < 1 ? requestAnimationFrame(step) : null;
+      };
+      layoutAnimationRef.current = requestAnimationFrame(step);
+    };
+    useEffect(() => () => { if (layoutAnimationRef.current !== null) cancelAnimationFrame(layoutAnimationRef.current); }, []);
+    const handleExportImage = async (format: 'svg' | 'png') => {
+      const rect = containerRef.current?.getBoundingClientRect();
+      const viewport = exportViewportOnly && rect ? { x: -transform.x / transform.s, y: -transform.y / transform.s, w: rect.width / transform.s, h: rect.height / transform.s } : undefined;
+      setIsExporting(true);
+      try { await downloadBoardImage(roomName, boardItems, boardLinks, format, { style: style === 'modern' ? 'modern' : 'noir', viewport }); setIsExportMenuOpen(false); }
+      catch (error) { console.error("Error exporting board image:", error); }
+      finally { setIsExporting(false); }
+    };
+    // Rendering cost scales with what is on screen: a grid index answers viewport, marquee and overlap queries,
+    // and items/links outside a padded, chunked viewport are not rendered at all
+    const spatialIndex = useMemo(() => createSpatialIndex(boardItems), [boardItems]);
+    const movingIds = useMemo(() => draggingId ? new Set(selectedIds.includes(draggingId) ? selectedIds : [draggingId]) : null, [draggingId, selectedIds]);
+    const isDragMoved = (item: BoardItem) => !!movingIds && movingIds.has(item.id) && !item.isLocked;
+    const visible = screenSize.w > 0 ? getCullingRect(getVisibleRect(transform, screenSize.w, screenSize.h)) : null;
+    const cullRect = useMemo<Rect | null>(() => visible, [visible?.x, visible?.y, visible?.w, visible?.h]);
+    const renderedItems = useMemo(() => {
+      if (!cullRect) return boardItems;
+      const inView = new Set(spatialIndex.query(cullRect).map(i => i.id));
+      const pinned = new Set([...selectedIds, ...deletingIds, focusModeId, pendingLinkStart]);
+      return boardItems.filter(item => inView.has(item.id) || pinned.has(item.id));
+    }, [boardItems, spatialIndex, cullRect, selectedIds, deletingIds, focusModeId, pendingLinkStart]);
+
+    const linkPaths = useMemo(() => computeLinkPaths(boardItems, boardLinks), [boardItems, boardLinks]);
+    // While dragging only the links touching moved items are recomputed
+    const draggedLinks = useMemo(() => movingIds ? boardLinks.filter(l => movingIds.has(l.fromId) || movingIds.has(l.toId)) : [], [movingIds, boardLinks]);
+    const draggedPaths = useMemo(() => {
+      if (!dragDelta || draggedLinks.length === 0) return null;
+      const ends = new Set(draggedLinks.flatMap(l => [l.fromId, l.toId]));
+      const moved = boardItems.filter(i => ends.has(i.id)).map(item => isDragMoved(item) ? { ...item, x: item.x + dragDelta.x, y: item.y + dragDelta.y } : item);
+      return new Map(computeLinkPaths(moved, draggedLinks).map(path => [path.link.id, path]));
+    }, [dragDelta, draggedLinks, boardItems]);
+
+    // Other people's selections are outlined in their colour; the first to select an item sets the outline
+    useEffect(() => { onPresenceChange?.({ selection: selectedIds.filter(id => boardItems.some(i => i.id === id)) }); }, [selectedIds]);
+    const peerSelections = useMemo(() => { const byItem = new Map<string, Presence[]>(); peers.forEach(peer => peer.selection.forEach(id => byItem.set(id, [...(byItem.get(id) || []), peer]))); return byItem; }, [peers]);
+
+    const progress = useMemo(() => computeProgress(boardItems, boardLinks), [boardItems, boardLinks]);
+    const contactsById = useMemo(() => new Map(contacts.map(c => [c.id, c])), [contacts]);
+    const toolsById = useMemo(() => new Map(tools.map(tool => [tool.id, tool])), [tools]);
+    // "Work by person": every owner on the board, directory contacts and free-text names alike
+    const ownerOptions = useMemo(() => {
+      const options = new Map<string, string>();
+      boardItems.filter(isActionable).forEach(item => { const key = getOwnerKey(item); if (!options.has(key)) options.set(key, key === UNASSIGNED_OWNER ? 'Unassigned' : getOwner(item, contactsById)?.name || 'Unknown'); });
+      return [...options].sort(([a, labelA], [b, labelB]) => a === UNASSIGNED_OWNER ? 1 : b === UNASSIGNED_OWNER ? -1 : labelA.localeCompare(labelB));
+    }, [boardItems, contactsById]);
+    const toggleCompleted = (item: BoardItem) => setBoardItems(boardItems.map(i => i.id === item.id ? { ...i, ...completionPatch(!i.isCompleted) } : i), { action: 'edit' });
+
+    // Filters dim non-matching items and links the same way focus mode does
+    const matchingIds = useMemo(() => isFilterActive(filter) ? getMatchingItemIds(boardItems, boardLinks, filter) : null, [boardItems, boardLinks, filter]);
+
+    // Dependency overlay: critical paths glow amber, cycles are red, blocked items get a badge and orphans a dashed outline
+    const analysis = useMemo(() => showAnalysis ? analyzeDependencies(boardItems, boardLinks) : null, [showAnalysis, boardItems, boardLinks]);
+    const analysisMarks = useMemo(() => {
+      if (!analysis) return null;
+      const cycleOf = new Map<string, number>(); analysis.cycles.forEach((cycle, i) => cycle.forEach(id => cycleOf.set(id, i)));
+      return {
+        criticalItems: new Set(analysis.criticalPaths.flatMap(p => p.itemIds)),
+        criticalLinks: new Set(analysis.criticalPaths.flatMap(p => p.linkIds)),
+        cycleItems: new Set(cycleOf.keys()),
+        cycleLinks: new Set(boardLinks.filter(l => cycleOf.has(l.fromId) && cycleOf.get(l.fromId) === cycleOf.get(l.toId)).map(l => l.id)),
+        blocked: new Map(analysis.blocked.map(b => [b.itemId, b.blockerIds])),
+        orphans: new Set(analysis.orphans),
+      };
+    }, [analysis, boardLinks]);
+    const nameOf = (id: string) => { const item = boardItems.find(i => i.id === id); return !item ? '' : item.type === 'image' ? 'Image' : item.content; };
+
     const connections = useMemo(() => {
-      const linkGroups: Record<string, BoardLink[]> = {}; boardLinks.forEach(link => { const ids = [link.fromId, link.toId].sort().join('-'); if (!linkGroups[ids]) linkGroups[ids] = []; linkGroups[ids].push(link); });
-      return boardLinks.map(link => {
-        const from = boardItems.find(i => i.id === link.fromId); const to = boardItems.find(i => i.id === link.toId); if (!from || !to) return null;
-        const p1 = getItemCenter(from); const p2 = getItemCenter(to);
-        const colorMap = { critical: '#ef4444', positive: '#22c55e', alternative: '#3b82f6', neutral: '#9ca3af' };
-        const siblings = linkGroups[[link.fromId, link.toId].sort().join('-')] || [link]; const index = siblings.findIndex(l => l.id === link.id);
-        const dx = p2.x - p1.x; const dy = p2.y - p1.y; const dist = Math.sqrt(dx * dx + dy * dy);
-        const midX = (p1.x + p2.x) / 2; const midY = (p1.y + p2.y) / 2; const nx = -dy / (dist || 1); const ny = dx / (dist || 1);
-        const controlX = midX + nx * (index - (siblings.length - 1) / 2) * 30; const controlY = midY + ny * (index - (siblings.length - 1) / 2) * 30;
+      return linkPaths.map(path => draggedPaths?.get(path.link.id) || path).filter(({ p1, p2, control }) => !cullRect || rectsIntersect(getCurveBounds(p1, control, p2), cullRect)).map(({ link, p1, p2, control }) => {
+        const colorMap = LINK_COLORS; const controlX = control.x; const controlY = control.y;
         return (
-          <g key={link.id} className={`${focusModeId && focusModeId !== link.id ? 'opacity-20 blur-[1px]' : 'opacity-90'} transition-all duration-500`} onClick={(e) => { e.stopPropagation(); setSelectedId(link.id); }}>
+          <g key={link.id} className={`${(focusModeId && focusModeId !== link.id) || (matchingIds && !linkMatchesFilter(link, matchingIds, filter)) ? 'opacity-20 blur-[1px]' : 'opacity-90'} transition-all duration-500`} onClick={(e) => { e.stopPropagation(); setSelectedId(link.id); }}>
              <path d={`M ${p1.x} ${p1.y} Q ${controlX} ${controlY} ${p2.x} ${p2.y}`} stroke="transparent" strokeWidth="20" fill="none" style={{ cursor: 'pointer' }} />
+             {analysisMarks?.criticalLinks.has(link.id) && (<path d={`M ${p1.x} ${p1.y} Q ${controlX} ${controlY} ${p2.x} ${p2.y}`} stroke="#f59e0b" strokeOpacity="0.45" strokeWidth="10" fill="none" strokeLinecap="round" style={{ pointerEvents: 'none' }} />)}
+             {analysisMarks?.cycleLinks.has(link.id) && (<path d={`M ${p1.x} ${p1.y} Q ${controlX} ${controlY} ${p2.x} ${p2.y}`} stroke="#ef4444" strokeWidth="6" strokeDasharray="8 6" fill="none" strokeLinecap="round" style={{ pointerEvents: 'none' }} />)}
              <path d={`M ${p1.x} ${p1.y} Q ${controlX} ${controlY} ${p2.x} ${p2.y}`} stroke={colorMap[link.variant]} strokeWidth={focusModeId === link.id ? "6" : "2"} fill="none" className="drop-shadow-sm transition-all duration-300" strokeLinecap="round" style={{ pointerEvents: 'none' }} />
              <circle cx={p1.x} cy={p1.y} r={focusModeId === link.id ? 6 : 3} fill={colorMap[link.variant]} />
              <circle cx={p2.x} cy={p2.y} r={focusModeId === link.id ? 6 : 3} fill={colorMap[link.variant]} />
+             {selectedId === link.id && !focusModeId && (<g className="cursor-pointer" onMouseDown={(e) => e.stopPropagation()} onClick={(e) => { e.stopPropagation(); handleDeleteLink(link.id); }}><circle cx={controlX} cy={controlY} r={10} fill="#292524" stroke={colorMap[link.variant]} strokeWidth="2" /><path d={`M ${controlX - 4} ${controlY - 4} L ${controlX + 4} ${controlY + 4} M ${controlX + 4} ${controlY - 4} L ${controlX - 4} ${controlY + 4}`} stroke="#f87171" strokeWidth="2" strokeLinecap="round" /></g>)}
           </g>
         );
       });
-    }, [boardItems, boardLinks, transform, focusModeId]);
+    }, [linkPaths, draggedPaths, cullRect, focusModeId, selectedId, matchingIds, filter, analysisMarks]);
     
     const bgColor = style === 'noir' ? 'bg-[#1c1917]' : 'bg-[#f8fafc]';
+    const today = toDateString(new Date());
+    const focusedItem = focusModeId ? boardItems.find(i => i.id === focusModeId) : undefined;
 
     return (
       <div className={`flex flex-col h-full relative overflow-hidden font-serif ${bgColor}`}>
         <div className="absolute inset-0 opacity-20 pointer-events-none" style={{ backgroundImage: `url("data:image/svg+xml,%3Csvg width='60' height='60' viewBox='0 0 60 60' xmlns='http://www.w3.org/2000/svg'%3E%3Cg fill='none' fill-rule='evenodd'%3E%3Cg fill='%23ffffff' fill-opacity='0.1'%3E%3Cpath d='M36 34v-4h-2v4h-4v2h4v4h2v-4h4v-2h-4zm0-30V0h-2v4h-4v2h4v4h2V6h4V4h-4zM6 34v-4H4v4H0v2h4v4h2v-4h4v-2H6zM6 4V0H4v4H0v2h4v4h2V6h4V4H6z'/%3E%3C/g%3E%3C/g%3E%3C/svg%3E")` }}></div>
         <div className="absolute top-6 left-1/2 -translate-x-1/2 z-30 flex items-center gap-4 p-2 rounded-xl bg-stone-800 border-2 border-stone-600 shadow-2xl no-print">
           <div className="flex gap-2 pr-4 border-r border-stone-600">
-             <button onClick={() => openTaskWizard()} className="w-10 h-10 flex items-center justify-center text-blue-300 bg-blue-900/50 rounded border border-blue-700 hover:bg-blue-800"><svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 9v3m0 0v3m0-3h3m-3 0H9m12 0a9 9 0 11-18 0 9 9 0 0118 0z" /></svg></button>
+             <button onClick={() => openTaskWizard()} title="New task" className="w-10 h-10 flex items-center justify-center text-blue-300 bg-blue-900/50 rounded border border-blue-700 hover:bg-blue-800"><svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 9v3m0 0v3m0-3h3m-3 0H9m12 0a9 9 0 11-18 0 9 9 0 0118 0z" /></svg></button>
              <button onClick={() => handleAddItem('objective')} className="w-10 h-8 bg-[#1e293b] border border-stone-500 rounded relative overflow-hidden flex flex-col items-center justify-center"><div className="w-1.5 h-1.5 rounded-full bg-red-500"></div></button>
              <button onClick={() => handleAddItem('sticky')} className="w-10 h-10 bg-yellow-200 border border-yellow-400" />
              <button onClick={() => handleAddItem('idea-strip')} className="w-10 h-10 bg-stone-100 border border-stone-300 flex items-center justify-center"><div className="w-6 h-2 bg-stone-300 rounded-sm" /></button>
              <button onClick={() => handleAddItem('goal')} className="w-10 h-10 bg-white border-2 border-black flex items-center justify-center p-1"><CheckeredFlagIcon className="w-full h-full text-black" /></button>
           </div>
+          <div className="flex gap-2 px-4 border-x border-stone-600">
+             <button onClick={onUndo} disabled={!canUndo} title="Undo (Ctrl+Z)" className="p-2 text-stone-400 hover:text-white disabled:opacity-30 disabled:hover:text-stone-400"><svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" /></svg></button>
+             <button onClick={onRedo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)" className="p-2 text-stone-400 hover:text-white disabled:opacity-30 disabled:hover:text-stone-400"><svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M21 10H11a8 8 0 00-8 8v2m18-10l-6 6m6-6l-6-6" /></svg></button>
+             {onOpenSnapshots && (<button onClick={onOpenSnapshots} title="Snapshots" className="p-2 text-stone-400 hover:text-white"><svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg></button>)}
+             {onOpenReview && (<button onClick={onOpenReview} title="Plan review" className="p-2 text-stone-400 hover:text-white"><svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" /></svg></button>)}
+             <div className="relative">
+               <button onClick={() => setIsLayoutMenuOpen(o => !o)} title="Auto-arrange" className={`p-2 hover:text-white ${isLayoutMenuOpen ? 'text-white' : 'text-stone-400'}`}><svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 4v4m0 0a2 2 0 100 4 2 2 0 000-4zm0 4v4m0 0l-6 4m6-4l6 4M6 20a2 2 0 100-4 2 2 0 000 4zm12 0a2 2 0 100-4 2 2 0 000 4z" /></svg></button>
+               {isLayoutMenuOpen && (<div className="absolute left-1/2 -translate-x-1/2 top-full mt-3 w-52 bg-stone-800 border border-stone-600 rounded-xl shadow-2xl p-2 flex flex-col gap-1 animate-in fade-in zoom-in-95 duration-100 font-sans"><span className="px-2 pt-1 pb-2 text-[9px] font-black uppercase tracking-widest text-stone-500">Auto-arrange</span><button onClick={() => handleAutoArrange('hierarchical')} className="text-left px-3 py-2 rounded text-xs font-bold text-stone-200 hover:bg-stone-700">Hierarchical</button><button onClick={() => handleAutoArrange('radial')} disabled={!boardItems.some(i => i.type === 'goal')} className="text-left px-3 py-2 rounded text-xs font-bold text-stone-200 hover:bg-stone-700 disabled:opacity-40">Radial around goal</button><button onClick={() => handleAutoArrange('force')} className="text-left px-3 py-2 rounded text-xs font-bold text-stone-200 hover:bg-stone-700">Force-directed</button><span className="px-3 pt-2 mt-1 border-t border-stone-700 text-[10px] text-stone-500">Locked items stay in place.</span></div>)}
+             </div>
+             <div className="relative">
+               <button onClick={() => setIsFilterMenuOpen(o => !o)} title="Filter" className={`relative p-2 hover:text-white ${isFilterMenuOpen || matchingIds ? 'text-white' : 'text-stone-400'}`}><svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M3 4a1 1 0 011-1h16a1 1 0 011 1v2.586a1 1 0 01-.293.707l-6.414 6.414a1 1 0 00-.293.707V17l-4 4v-6.586a1 1 0 00-.293-.707L3.293 7.293A1 1 0 013 6.586V4z" /></svg>{matchingIds && <span className="absolute top-1 right-1 w-2 h-2 rounded-full bg-blue-500" />}</button>
+               {isFilterMenuOpen && (<div className="absolute left-1/2 -translate-x-1/2 top-full mt-3 w-64 bg-stone-800 border border-stone-600 rounded-xl shadow-2xl p-3 flex flex-col gap-3 animate-in fade-in zoom-in-95 duration-100 font-sans">
+                 <div><span className="block pb-2 text-[9px] font-black uppercase tracking-widest text-stone-500">Type</span><div className="flex flex-wrap gap-1">{(Object.keys(ITEM_TYPE_LABELS) as BoardItem['type'][]).map(type => (<button key={type} onClick={() => setFilter(f => ({ ...f, types: toggleInList(f.types, type) }))} className={`px-2 py-1 rounded text-[10px] font-bold ${filter.types.includes(type) ? 'bg-blue-600 text-white' : 'bg-stone-700 text-stone-300 hover:bg-stone-600'}`}>{ITEM_TYPE_LABELS[type]}</button>))}</div></div>
+                 <div><span className="block pb-2 text-[9px] font-black uppercase tracking-widest text-stone-500">Completion</span><div className="flex gap-1">{([['all', 'All'], ['open', 'Open'], ['done', 'Done']] as [BoardFilter['completion'], string][]).map(([value, label]) => (<button key={value} onClick={() => setFilter(f => ({ ...f, completion: value }))} className={`px-2 py-1 rounded text-[10px] font-bold ${filter.completion === value ? 'bg-blue-600 text-white' : 'bg-stone-700 text-stone-300 hover:bg-stone-600'}`}>{label}</button>))}</div></div>
+                 <div><span className="block pb-2 text-[9px] font-black uppercase tracking-widest text-stone-500">Link type</span><div className="flex gap-2">{(['critical', 'alternative', 'positive', 'neutral'] as BoardLink['variant'][]).map(v => (<button key={v} onClick={() => setFilter(f => ({ ...f, linkVariants: toggleInList(f.linkVariants, v) }))} title={v} className={`w-5 h-5 rounded-full border-2 ${filter.linkVariants.includes(v) ? 'border-white scale-110' : 'border-transparent opacity-60'}`} style={{ backgroundColor: LINK_COLORS[v] }} />))}</div></div>
+                 {ownerOptions.length > 0 && (<div><span className="block pb-2 text-[9px] font-black uppercase tracking-widest text-stone-500">Owner</span><div className="flex flex-wrap gap-1">{ownerOptions.map(([key, label]) => (<button key={key} onClick={() => setFilter(f => ({ ...f, owners: toggleInList(f.owners, key) }))} className={`px-2 py-1 rounded text-[10px] font-bold ${filter.owners.includes(key) ? 'bg-blue-600 text-white' : 'bg-stone-700 text-stone-300 hover:bg-stone-600'}`}>{label}</button>))}</div></div>)}
+                 <button onClick={() => setFilter(EMPTY_FILTER)} disabled={!matchingIds} className="pt-2 border-t border-stone-700 text-left text-[10px] font-bold text-stone-400 hover:text-white disabled:opacity-40">Clear filters{matchingIds ? ` · ${matchingIds.size} of ${boardItems.length} match` : ''}</button>
+               </div>)}
+             </div>
+             <button onClick={() => setShowAnalysis(v => !v)} title="Dependency analysis (A)" className={`p-2 hover:text-white ${showAnalysis ? 'text-amber-400' : 'text-stone-400'}`}><svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 10V3L4 14h7v7l9-11h-7z" /></svg></button>
+          </div>
           <div className="flex gap-2 pl-4 border-l border-stone-600">
              <button onClick={() => setTransform(p => ({ ...p, s: Math.min(p.s + 0.2, 5) }))} className="p-2 text-stone-400 hover:text-white"><svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0zM10 7v3m0 0v3m0-3h3m-3 0H7" /></svg></button>
              <button onClick={() => setTransform(p => ({ ...p, s: Math.max(p.s - 0.2, 0.1) }))} className="p-2 text-stone-400 hover:text-white"><svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0zM13 10H7" /></svg></button>
              <button onClick={() => setTransform({ x: 0, y: 0, s: 1 })} className="p-2 text-stone-400 hover:text-white"><svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" /></svg></button>
+             <button onClick={fitAll} title="Fit all (Shift+1)" disabled={boardItems.length === 0} className="p-2 text-stone-400 hover:text-white disabled:opacity-30 disabled:hover:text-stone-400"><svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 8V4h4M20 8V4h-4M4 16v4h4M20 16v4h-4" /></svg></button>
+             <button onClick={fitSelection} title="Fit selection (Shift+2)" disabled={selectedItemIds.length === 0} className="p-2 text-stone-400 hover:text-white disabled:opacity-30 disabled:hover:text-stone-400"><svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 8V4h4M20 8V4h-4M4 16v4h4M20 16v4h-4M9 9h6v6H9z" /></svg></button>
+             <button onClick={() => selectedId && zoomToItem(selectedId)} title="Zoom to item (Z)" disabled={selectedItemIds.length !== 1} className="p-2 text-stone-400 hover:text-white disabled:opacity-30 disabled:hover:text-stone-400"><svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0zM8 8h4v4H8z" /></svg></button>
+             <button onClick={() => setShowMinimap(m => !m)} title="Minimap (M)" className={`p-2 hover:text-white ${showMinimap ? 'text-white' : 'text-stone-400'}`}><svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7" /></svg></button>
+             <div className="relative">
+               <button onClick={() => setIsExportMenuOpen(o => !o)} title="Export image" className={`p-2 hover:text-white ${isExportMenuOpen ? 'text-white' : 'text-stone-400'}`}><svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" /></svg></button>
+               {isExportMenuOpen && (<div className="absolute right-0 top-full mt-3 w-48 bg-stone-800 border border-stone-600 rounded-xl shadow-2xl p-2 flex flex-col gap-1 animate-in fade-in zoom-in-95 duration-100"><span className="px-2 pt-1 pb-2 text-[9px] font-black uppercase tracking-widest text-stone-500 font-sans">Export Board</span><button disabled={isExporting} onClick={() => handleExportImage('svg')} className="text-left px-3 py-2 rounded text-xs font-bold text-stone-200 hover:bg-stone-700 disabled:opacity-50 font-sans">Export as SVG</button><button disabled={isExporting} onClick={() => handleExportImage('png')} className="text-left px-3 py-2 rounded text-xs font-bold text-stone-200 hover:bg-stone-700 disabled:opacity-50 font-sans">Export as PNG</button><label className="flex items-center gap-2 px-3 py-2 mt-1 border-t border-stone-700 text-[11px] text-stone-400 cursor-pointer font-sans"><input type="checkbox" checked={exportViewportOnly} onChange={e => setExportViewportOnly(e.target.checked)} className="accent-blue-500" />Current view only</label></div>)}
+             </div>
           </div>
         </div>
-        <div ref={containerRef} className={`flex-1 relative overflow-hidden ${pendingLinkStart ? 'cursor-crosshair' : 'cursor-grab active:cursor-grabbing'}`} onMouseDown={(e) => handleMouseDown(e)} onMouseMove={handleContainerMouseMove} onMouseUp={() => { setDraggingId(null); setIsPanning(false); }} onMouseLeave={() => { setDraggingId(null); setIsPanning(false); }} onWheel={handleWheel}>
+        <div ref={containerRef} role="application" aria-label={`${roomName || 'Planning'} board. Press question mark for keyboard shortcuts.`} className={`flex-1 relative overflow-hidden ${pendingLinkStart ? 'cursor-crosshair' : 'cursor-grab active:cursor-grabbing'}`} onMouseDown={(e) => handleMouseDown(e)} onMouseMove={handleContainerMouseMove} onMouseUp={endPointerGesture} onMouseLeave={() => { endPointerGesture(); onPresenceChange?.({ cursor: null }); }} onWheel={handleWheel}>
           <div style={{ transform: `translate(${transform.x}px, ${transform.y}px) scale(${transform.s})`, transformOrigin: '0 0', transition: isPanning ? 'none' : 'transform 0.3s cubic-bezier(0.25, 0.46, 0.45, 0.94)', width: '100%', height: '100%' }}>
               <svg className="absolute top-0 left-0 overflow-visible" style={{ width: '10000px', height: '10000px', pointerEvents: 'visibleStroke' }}>{connections}</svg>
-              {boardItems.map((item) => {
-                 const rotation = (parseInt(item.id.substr(0, 4), 36) % 6) - 3; const isSelected = selectedId === item.id; const isFocused = focusModeId === item.id; const isMenuOpen = activeLinkMenuId === item.id;
+              {marquee && (() => { const r = normalizeRect(marquee.start, marquee.end); return <div className="absolute z-[70] border-2 border-dashed border-blue-400 bg-blue-500/10 pointer-events-none" style={{ left: r.x, top: r.y, width: r.w, height: r.h }} />; })()}
+              {renderedItems.map((item) => {
+                 const offset = dragDelta && isDragMoved(item) ? dragDelta : null; const rotation = getItemRotation(item); const isSelected = selectedIds.includes(item.id); const owner = getOwner(item, contactsById); const attachedTools = (item.toolIds || []).map(id => toolsById.get(id)).filter((tool): tool is Tool => !!tool); const isFocused = focusModeId === item.id; const isMenuOpen = activeLinkMenuId === item.id;
                  return (
-                <div key={item.id} className={`absolute group transition-all duration-300 z-10 ${deletingIds.has(item.id) ? 'opacity-0 scale-75' : ''} ${isSelected || isFocused ? 'z-50 scale-105' : ''} ${focusModeId && focusModeId !== item.id ? 'blur-[2px] opacity-40 grayscale' : ''}`} style={{ left: item.x, top: item.y, transform: `rotate(${isFocused ? 0 : rotation}deg)` }} onMouseDown={(e) => handleMouseDown(e, item.id)} onDoubleClick={(e) => handleDoubleClickNode(e, item.id)}>
-                  <div className={`relative ${isSelected || isFocused ? 'ring-4 ring-blue-500/50 shadow-2xl' : ''}`}>
-                    <div className={`absolute -right-3 top-1/2 -translate-y-1/2 z-50 transition-all hover:translate-x-1 ${isMenuOpen ? 'opacity-100 z-[60]' : 'opacity-0 group-hover:opacity-100'}`}><div className="relative flex items-center" onMouseDown={e => e.stopPropagation()}><div onClick={(e) => { e.stopPropagation(); setActiveLinkMenuId(isMenuOpen ? null : item.id); }} className={`w-6 h-6 rounded-full border flex items-center justify-center cursor-pointer shadow-sm ${isMenuOpen ? 'bg-blue-600 border-blue-500 text-white' : 'bg-stone-700 border-stone-400 text-stone-300'}`}><svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M12 4v16m8-8H4" /></svg></div>{isMenuOpen && (<div className="absolute left-full ml-2 z-[100] bg-stone-800 p-2 rounded-xl shadow-xl border border-stone-700 flex flex-col gap-2 min-w-[140px] animate-in slide-in-from-left-2"><div className="flex items-center justify-between gap-3"><span className="text-[9px] font-black uppercase text-stone-400">Link</span><div className="flex gap-1">{['critical','alternative','positive','neutral'].map(v => (<button key={v} onClick={e => handleStartLink(e, item.id, v as any)} className={`w-4 h-4 rounded-full border border-white ${v === 'critical' ? 'bg-red-500' : v === 'positive' ? 'bg-green-500' : v === 'alternative' ? 'bg-blue-500' : 'bg-gray-400'}`} />))}</div></div>{item.type === 'objective' && (<div className="flex items-center justify-between gap-3 pt-2 border-t border-stone-700"><span className="text-[9px] font-black uppercase text-stone-400">Task</span><button onClick={e => createConnectedTask(e, item.id, 'critical')} className="w-5 h-5 rounded-full bg-red-500 border border-white text-white text-[10px] font-bold">+</button></div>)}</div>)}</div></div>
-                    {isSelected && !focusModeId && (<div className="absolute -top-14 left-1/2 -translate-x-1/2 flex gap-1 bg-stone-800 p-1.5 rounded shadow-xl border border-stone-600 z-50"><button onClick={(e) => { e.stopPropagation(); handleDeleteItem(item.id); }} className="p-2 hover:bg-red-900/50 rounded text-stone-400 hover:text-red-400"><svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg></button></div>)}
-                    {item.type === 'objective' && (<div className="w-[300px] h-[200px] bg-[#1e293b] text-white p-5 rounded-sm border-l-4 border-red-500 shadow-xl flex flex-col justify-between overflow-hidden"><div><span className="text-[10px] font-black uppercase tracking-widest text-stone-500 mb-2 block">Objective</span><textarea value={item.content} onChange={(e) => handleUpdateItem(item.id, { content: e.target.value })} className="bg-transparent border-none text-xl font-bold font-serif w-full resize-none outline-none placeholder-stone-600" /></div><div className="flex justify-between items-end border-t border-stone-700 pt-3"><span className="text-[10px] font-mono text-stone-500">{item.id}</span><div className={`w-2 h-2 rounded-full ${item.isCompleted ? 'bg-green-500' : 'bg-stone-600'}`} /></div></div>)}
-                    {item.type === 'sticky' && (<div className={`w-[180px] h-[180px] p-4 shadow-lg flex flex-col transform rotate-1 ${item.color || 'bg-yellow-200'}`}><textarea value={item.content} onChange={(e) => handleUpdateItem(item.id, { content: e.target.value })} className="bg-transparent border-none text-sm font-medium font-handwriting w-full h-full resize-none outline-none text-slate-800" /></div>)}
+                <div key={item.id} data-item-id={item.id} tabIndex={0} role="group" aria-roledescription="board item" aria-label={describeItem(item, boardLinks, owner?.name)} onFocus={(e) => { if (e.currentTarget === e.target && e.currentTarget.matches(':focus-visible') && !isSelected) setSelectedId(item.id); }} className={`absolute group transition-all duration-300 z-10 outline-none focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-4 focus-visible:outline-blue-400 ${deletingIds.has(item.id) ? 'opacity-0 scale-75' : ''} ${isSelected || isFocused ? 'z-50 scale-105' : ''} ${(focusModeId && focusModeId !== item.id) || (matchingIds && !matchingIds.has(item.id)) ? 'blur-[2px] opacity-40 grayscale' : ''}`} style={{ left: item.x + (offset?.x || 0), top: item.y + (offset?.y || 0), transform: `rotate(${isFocused ? 0 : rotation}deg)` }} onMouseDown={(e) => handleMouseDown(e, item.id)} onDoubleClick={(e) => handleDoubleClickNode(e, item.id)}>
+                  <div className={`relative ${isSelected || isFocused ? 'ring-4 ring-blue-500/50 shadow-2xl' : analysisMarks?.cycleItems.has(item.id) ? 'ring-4 ring-red-500/70' : analysisMarks?.criticalItems.has(item.id) ? 'ring-4 ring-amber-400/70' : isOverdue(item, today) ? 'ring-4 ring-rose-500/70' : analysisMarks?.orphans.has(item.id) ? 'outline outline-2 outline-dashed outline-offset-4 outline-stone-400' : ''}`}>
+                    {peerSelections.has(item.id) && (<div className="absolute -inset-3 z-30 rounded-lg border-2 pointer-events-none font-sans" style={{ borderColor: peerSelections.get(item.id)![0].color }}><span className="absolute -top-5 left-0 px-1.5 py-0.5 rounded text-[9px] font-bold text-white whitespace-nowrap" style={{ backgroundColor: peerSelections.get(item.id)![0].color }}>{peerSelections.get(item.id)!.map(p => p.name).join(', ')}</span></div>)}
+                    {analysisMarks?.blocked.has(item.id) && (<div className="absolute -top-3 right-2 z-40 px-2 py-0.5 rounded-full bg-red-600 text-white text-[9px] font-black uppercase tracking-widest shadow font-sans" title={`Blocked by: ${analysisMarks.blocked.get(item.id)!.map(nameOf).join(', ')}`}>Blocked</div>)}
+                    <div className={`absolute -right-3 top-1/2 -translate-y-1/2 z-50 transition-all hover:translate-x-1 ${isMenuOpen ? 'opacity-100 z-[60]' : 'opacity-0 group-hover:opacity-100'}`}><div className="relative flex items-center" onMouseDown={e => e.stopPropagation()}><div onClick={(e) => { e.stopPropagation(); setActiveLinkMenuId(isMenuOpen ? null : item.id); }} className={`w-6 h-6 rounded-full border flex items-center justify-center cursor-pointer shadow-sm ${isMenuOpen ? 'bg-blue-600 border-blue-500 text-white' : 'bg-stone-700 border-stone-400 text-stone-300'}`}><svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M12 4v16m8-8H4" /></svg></div>{isMenuOpen && (<div className="absolute left-full ml-2 z-[100] bg-stone-800 p-2 rounded-xl shadow-xl border border-stone-700 flex flex-col gap-2 min-w-[140px] animate-in slide-in-from-left-2"><div className="flex items-center justify-between gap-3"><span className="text-[9px] font-black uppercase text-stone-400">Link</span><div className="flex gap-1">{['critical','alternative','positive','neutral'].map(v => (<button key={v} onClick={e => handleStartLink(e, item.id, v as any)} className={`w-4 h-4 rounded-full border border-white ${v === 'critical' ? 'bg-red-500' : v === 'positive' ? 'bg-green-500' : v === 'alternative' ? 'bg-blue-500' : 'bg-gray-400'}`} />))}</div></div>{item.type === 'objective' && (<div className="flex items-center justify-between gap-3 pt-2 border-t border-stone-700"><span className="text-[9px] font-black uppercase text-stone-400">Task</span><button onClick={e => { e.stopPropagation(); setActiveLinkMenuId(null); openTaskWizard(item.id); }} title="New task for this objective" className="w-5 h-5 rounded-full bg-red-500 border border-white text-white text-[10px] font-bold">+</button></div>)}</div>)}</div></div>
+                    {item.isLocked && (<div className="absolute -top-2 -left-2 z-40 w-6 h-6 rounded-full bg-stone-800 border border-stone-500 text-stone-300 flex items-center justify-center shadow"><svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" /></svg></div>)}
+                    {isSelected && selectedItemIds.length === 1 && !focusModeId && (<div className="absolute -top-14 left-1/2 -translate-x-1/2 flex gap-1 bg-stone-800 p-1.5 rounded shadow-xl border border-stone-600 z-50"><button onClick={(e) => { e.stopPropagation(); handleUpdateItem(item.id, { isLocked: !item.isLocked }); }} title={item.isLocked ? 'Unlock' : 'Lock'} className={`p-2 hover:bg-stone-700 rounded hover:text-white ${item.isLocked ? 'text-amber-400' : 'text-stone-400'}`}>{item.isLocked ? (<svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" /></svg>) : (<svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 11V7a4 4 0 118 0m-4 8v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2z" /></svg>)}</button>{isActionable(item) && (<button onClick={(e) => { e.stopPropagation(); setDetailsOpenId(detailsOpenId === item.id ? null : item.id); }} title="Status, dates, owner and tools" aria-expanded={detailsOpenId === item.id} className={`p-2 hover:bg-stone-700 rounded hover:text-white ${detailsOpenId === item.id ? 'text-white bg-stone-700' : 'text-stone-400'}`}><svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" /></svg></button>)}<button onClick={(e) => { e.stopPropagation(); handleDuplicate(); }} title="Duplicate" className="p-2 hover:bg-stone-700 rounded text-stone-400 hover:text-white"><svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" /></svg></button><button onClick={(e) => { e.stopPropagation(); handleDeleteItem(item.id); }} className="p-2 hover:bg-red-900/50 rounded text-stone-400 hover:text-red-400"><svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg></button></div>)}
+                    {detailsOpenId === item.id && isSelected && selectedItemIds.length === 1 && !focusModeId && isActionable(item) && (<div className="absolute top-0 left-full ml-10 w-60 p-3 bg-stone-800 rounded-xl shadow-2xl border border-stone-600 z-[60] cursor-default"><ItemDetailsFields item={item} contacts={contacts} tools={tools} onChange={updates => handleUpdateItem(item.id, updates)} /></div>)}
+                    {isActionable(item) && (item.dueDate || owner || attachedTools.length > 0 || (getStatus(item) !== 'todo' && getStatus(item) !== 'done')) && (<div className="absolute left-0 top-full mt-3 flex flex-wrap items-center gap-1 font-sans pointer-events-none">{getStatus(item) !== 'todo' && getStatus(item) !== 'done' && (<span className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-stone-800 text-[9px] font-bold uppercase text-stone-200"><span className={`w-1.5 h-1.5 rounded-full ${STATUS_COLORS[getStatus(item)]}`} />{STATUS_LABELS[getStatus(item)]}</span>)}{item.dueDate && (<span className={`px-1.5 py-0.5 rounded text-[9px] font-bold uppercase ${isOverdue(item, today) ? 'bg-red-600 text-white' : 'bg-stone-800 text-stone-200'}`}>{isOverdue(item, today) ? 'Overdue · ' : 'Due '}{formatDay(item.dueDate)}</span>)}{owner && (<OwnerAvatar owner={owner} className="w-5 h-5 ring-2 ring-stone-800" />)}{attachedTools.map(tool => (<span key={tool.id} title={tool.name} className="p-0.5 rounded bg-stone-800"><ToolIcon tool={tool} className="w-4 h-4" /></span>))}</div>)}
+                    {item.type === 'objective' && (<div className="w-[300px] h-[200px] bg-[#1e293b] text-white p-5 rounded-sm border-l-4 border-red-500 shadow-xl flex flex-col justify-between overflow-hidden"><div><span className="text-[10px] font-black uppercase tracking-widest text-stone-500 mb-2 block">Objective</span><textarea value={item.content} onChange={(e) => handleUpdateItem(item.id, { content: e.target.value })} className="bg-transparent border-none text-xl font-bold font-serif w-full resize-none outline-none placeholder-stone-600" /></div><div className="border-t border-stone-700 pt-3">{progress.get(item.id) && progress.get(item.id)!.unit !== 'self' && (<ProgressBar ratio={progress.get(item.id)!.ratio} label={formatProgress(progress.get(item.id)!)} trackClassName="bg-stone-700" className="mb-2 text-stone-400" />)}<div className="flex justify-between items-center"><span className="text-[10px] font-mono text-stone-500">{item.id}</span><button onMouseDown={e => e.stopPropagation()} onClick={(e) => { e.stopPropagation(); toggleCompleted(item); }} title={item.isCompleted ? 'Mark as not done' : 'Mark as done'} aria-pressed={!!item.isCompleted} className={`w-4 h-4 rounded-full border flex items-center justify-center ${item.isCompleted ? 'bg-green-500 border-green-500 text-white' : 'border-stone-500 text-transparent hover:border-stone-300'}`}><svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M5 13l4 4L19 7" /></svg></button></div></div></div>)}
+                    {item.type === 'sticky' && (<div className={`relative w-[180px] h-[180px] p-4 shadow-lg flex flex-col transform rotate-1 ${item.color || 'bg-yellow-200'}`}><button onMouseDown={e => e.stopPropagation()} onClick={(e) => { e.stopPropagation(); toggleCompleted(item); }} title={item.isCompleted ? 'Mark as not done' : 'Mark as done'} aria-pressed={!!item.isCompleted} className={`absolute top-2 right-2 w-5 h-5 rounded-full border-2 flex items-center justify-center ${item.isCompleted ? 'bg-green-600 border-green-600 text-white' : 'border-slate-700/40 text-transparent hover:border-slate-700'}`}><svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M5 13l4 4L19 7" /></svg></button><textarea value={item.content} onChange={(e) => handleUpdateItem(item.id, { content: e.target.value })} className={`bg-transparent border-none text-sm font-medium font-handwriting w-full h-full resize-none outline-none pr-5 ${item.isCompleted ? 'line-through text-slate-500' : 'text-slate-800'}`} /></div>)}
                     {item.type === 'idea-strip' && (<div className="w-[280px] h-[60px] bg-white border border-stone-200 shadow-md flex items-center px-4 rounded-sm relative overflow-hidden"><div className="w-1.5 h-full absolute left-0 top-0 bottom-0 bg-purple-400/50" /><input value={item.content} onChange={(e) => handleUpdateItem(item.id, { content: e.target.value })} className="bg-transparent border-none text-sm font-medium text-stone-700 w-full outline-none font-serif ml-2 italic" /></div>)}
-                    {item.type === 'goal' && (<div className="w-[180px] h-[180px] bg-white border-2 border-black shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] flex flex-col"><div className="h-6 w-full border-b-2 border-black" style={{ backgroundImage: `url("data:image/svg+xml,%3Csvg width='20' height='20' viewBox='0 0 20 20' xmlns='http://www.w3.org/2000/svg'%3E%3Crect x='0' y='0' width='10' height='10' fill='black'/%3E%3Crect x='10' y='10' width='10' height='10' fill='black'/%3E%3C/svg%3E")`, backgroundSize: '20px 20px' }} /><div className="flex-1 flex flex-col items-center justify-center p-4 text-center"><span className="text-[10px] font-black uppercase text-stone-400 mb-1">Finish Line</span><textarea value={item.content} onChange={(e) => handleUpdateItem(item.id, { content: e.target.value })} className="bg-transparent border-none text-lg font-black uppercase tracking-tight w-full resize-none outline-none text-black text-center leading-tight" rows={3} /></div></div>)}
+                    {item.type === 'goal' && (<div className="w-[180px] h-[180px] bg-white border-2 border-black shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] flex flex-col"><div className="h-6 w-full border-b-2 border-black" style={{ backgroundImage: `url("data:image/svg+xml,%3Csvg width='20' height='20' viewBox='0 0 20 20' xmlns='http://www.w3.org/2000/svg'%3E%3Crect x='0' y='0' width='10' height='10' fill='black'/%3E%3Crect x='10' y='10' width='10' height='10' fill='black'/%3E%3C/svg%3E")`, backgroundSize: '20px 20px' }} /><div className="flex-1 flex flex-col items-center justify-center p-4 text-center"><span className="text-[10px] font-black uppercase text-stone-400 mb-1">Finish Line</span><textarea value={item.content} onChange={(e) => handleUpdateItem(item.id, { content: e.target.value })} className="bg-transparent border-none text-lg font-black uppercase tracking-tight w-full resize-none outline-none text-black text-center leading-tight" rows={2} /></div><div className="px-3 pb-2 flex items-end gap-2">{progress.get(item.id) && (<ProgressBar ratio={progress.get(item.id)!.ratio} label={formatProgress(progress.get(item.id)!)} trackClassName="bg-stone-200" fillClassName="bg-black" className="flex-1 text-stone-500" />)}<button onMouseDown={e => e.stopPropagation()} onClick={(e) => { e.stopPropagation(); toggleCompleted(item); }} title={item.isCompleted ? 'Mark as not achieved' : 'Mark as achieved'} aria-pressed={!!item.isCompleted} className={`w-5 h-5 flex-shrink-0 border-2 border-black flex items-center justify-center ${item.isCompleted ? 'bg-black text-white' : 'text-transparent hover:bg-stone-100'}`}><svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M5 13l4 4L19 7" /></svg></button></div></div>)}
                     {item.type === 'image' && (<div className="w-[280px] min-h-[220px] bg-white p-2 shadow-lg rotate-1 flex flex-col"><img src={item.content} alt="Board Asset" className="w-full h-auto object-cover rounded-sm" /><div className="mt-2 text-center text-[10px] uppercase font-bold text-slate-400">IMG-{item.id.substr(0,4)}</div></div>)}
                   </div>
                 </div>
               );
               })}
+              {peers.filter(peer => peer.cursor).map(peer => (<div key={peer.actor} className="absolute z-[80] pointer-events-none font-sans transition-[left,top] duration-75" style={{ left: peer.cursor!.x, top: peer.cursor!.y, transform: `scale(${1 / transform.s})`, transformOrigin: '0 0' }}><svg className="w-5 h-5 drop-shadow" viewBox="0 0 24 24" fill={peer.color} stroke="white" strokeWidth="1.5"><path d="M4 3l16 7.5-7 1.5-3.5 7L4 3z" /></svg><span className="absolute left-4 top-4 px-1.5 py-0.5 rounded text-[10px] font-bold text-white whitespace-nowrap" style={{ backgroundColor: peer.color }}>{peer.name}</span></div>))}
           </div>
         </div>
+        <div className="sr-only" aria-live="polite">{announcement}</div>
+        {focusedItem && isActionable(focusedItem) && (
+          <div className="absolute top-24 right-6 z-40 w-72 p-4 rounded-xl bg-stone-800 border-2 border-stone-600 shadow-2xl font-sans text-xs text-stone-300 space-y-3 no-print" onMouseDown={e => e.stopPropagation()}>
+            <div className="flex justify-between items-center"><span className="text-[10px] font-black uppercase tracking-widest text-stone-400">{ITEM_TYPE_LABELS[focusedItem.type]} details</span><button onClick={exitFocusMode} className="text-stone-500 hover:text-white" aria-label="Exit focus mode">×</button></div>
+            <p className="font-bold text-white truncate">{focusedItem.content || 'Untitled'}</p>
+            <ItemDetailsFields item={focusedItem} contacts={contacts} tools={tools} onChange={updates => handleUpdateItem(focusedItem.id, updates)} />
+          </div>
+        )}
+        {analysis && !focusModeId && (
+          <div className="absolute top-24 left-6 z-30 w-64 max-h-[60vh] overflow-y-auto p-4 rounded-xl bg-stone-800 border-2 border-stone-600 shadow-2xl font-sans text-xs text-stone-300 space-y-4 no-print">
+            <div className="flex justify-between items-center"><span className="text-[10px] font-black uppercase tracking-widest text-stone-400">Dependency analysis</span><button onClick={() => setShowAnalysis(false)} className="text-stone-500 hover:text-white" aria-label="Close">×</button></div>
+            {analysis.criticalPaths.length > 0 && (<div><span className="block pb-1.5 text-[9px] font-black uppercase tracking-widest text-amber-400">Critical paths</span>{analysis.criticalPaths.map(path => (<button key={path.goalId} onClick={() => zoomToItem(path.goalId)} className="block w-full text-left px-2 py-1 rounded hover:bg-stone-700 truncate"><span className="font-bold text-white">{nameOf(path.goalId)}</span> · {path.remaining} left, {path.itemIds.length} steps</button>))}</div>)}
+            {analysis.cycles.length > 0 && (<div><span className="block pb-1.5 text-[9px] font-black uppercase tracking-widest text-red-400">Cycles</span>{analysis.cycles.map(cycle => (<button key={cycle.join('-')} onClick={() => zoomToItem(cycle[0])} className="block w-full text-left px-2 py-1 rounded hover:bg-stone-700 truncate">{cycle.map(nameOf).join(' → ')}</button>))}</div>)}
+            {analysis.blocked.length > 0 && (<div><span className="block pb-1.5 text-[9px] font-black uppercase tracking-widest text-stone-400">Blocked</span>{analysis.blocked.map(({ itemId, blockerIds }) => (<button key={itemId} onClick={() => zoomToItem(itemId)} className="block w-full text-left px-2 py-1 rounded hover:bg-stone-700 truncate">{nameOf(itemId)} <span className="text-stone-500">← {blockerIds.length}</span></button>))}</div>)}
+            {analysis.orphans.length > 0 && (<div><span className="block pb-1.5 text-[9px] font-black uppercase tracking-widest text-stone-400">Unlinked</span>{analysis.orphans.map(id => (<button key={id} onClick={() => zoomToItem(id)} className="block w-full text-left px-2 py-1 rounded hover:bg-stone-700 truncate">{nameOf(id)}</button>))}</div>)}
+            {!hasDependencyIssues(analysis) && analysis.criticalPaths.length === 0 && (<p className="text-stone-500 italic">Nothing to report yet: link tasks towards a goal.</p>)}
+          </div>
+        )}
+        {showMinimap && !focusModeId && boardItems.length > 0 && screenSize.w > 0 && (<div className="absolute bottom-6 right-6 z-30"><BoardMinimap items={boardItems} visibleRect={getVisibleRect(transform, screenSize.w, screenSize.h)} selectedIds={selectedItemIds} onNavigate={centerOn} /></div>)}
+        {showShortcuts && (
+          <div className="absolute bottom-6 left-6 z-40 w-72 p-4 rounded-xl bg-stone-800 border-2 border-stone-600 shadow-2xl font-sans text-xs text-stone-300 no-print" role="dialog" aria-label="Keyboard shortcuts">
+            <div className="flex justify-between items-center mb-3"><span className="text-[10px] font-black uppercase tracking-widest text-stone-400">Keyboard shortcuts</span><button onClick={() => setShowShortcuts(false)} className="text-stone-500 hover:text-white" aria-label="Close">×</button></div>
+            <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1.5">
+              {[['Tab / Shift+Tab', 'Next / previous item along links'], ['Arrows', 'Move selection (Shift: faster)'], ['Enter', 'Focus item, or finish a link'], ['L', 'Start a link from the selection'], ...Object.entries(CREATE_SHORTCUTS).map(([k, type]) => [k.toUpperCase(), `New ${ITEM_TYPE_LABELS[type].toLowerCase()}`]), ['Delete', 'Delete selection'], ['Ctrl+C / V / D', 'Copy / paste / duplicate'], ['Ctrl+Z / Y', 'Undo / redo'], ['Shift+1 / 2', 'Fit all / fit selection'], ['Z', 'Zoom to item'], ['M', 'Toggle minimap'], ['A', 'Toggle dependency analysis'], ['X', 'Toggle done'], ['Esc', 'Clear selection']].map(([k, label]) => (<React.Fragment key={k}><dt className="font-mono font-bold text-white">{k}</dt><dd>{label}</dd></React.Fragment>))}
+            </dl>
+          </div>
+        )}
+        {isTaskWizardOpen && (
+          <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-900/60 backdrop-blur-md p-4 font-sans" onMouseDown={e => e.stopPropagation()}>
+            <form onSubmit={createConnectedTask} onKeyDown={e => { if (e.key === 'Escape') setIsTaskWizardOpen(false); }} className="bg-white dark:bg-stone-900 border border-slate-200 dark:border-stone-800 w-full max-w-md rounded-[32px] p-8 shadow-2xl animate-in zoom-in-95 duration-200 space-y-5" role="dialog" aria-label="New task">
+              <h2 className="text-2xl font-black text-slate-900 dark:text-white uppercase tracking-tight border-b border-slate-100 dark:border-stone-800 pb-4">New Task</h2>
+              {wizardSourceId && boardItems.some(i => i.id === wizardSourceId) && (<p className="text-xs text-slate-500">For <span className="font-bold text-slate-900 dark:text-white">{boardItems.find(i => i.id === wizardSourceId)!.content}</span></p>)}
+              <div><label className="block text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-2 ml-1">Task</label><input autoFocus value={wizardTaskName} onChange={e => setWizardTaskName(e.target.value)} placeholder="What needs doing?" className="w-full bg-slate-50 dark:bg-stone-800 border border-slate-200 dark:border-stone-700 rounded-2xl px-5 py-3 text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 font-bold" /></div>
+              <div><label className="block text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-2 ml-1">Goal</label><select value={wizardGoalId} onChange={e => setWizardGoalId(e.target.value)} className="w-full bg-slate-50 dark:bg-stone-800 border border-slate-200 dark:border-stone-700 rounded-2xl px-5 py-3 text-sm text-slate-900 dark:text-white outline-none focus:border-blue-500"><option value="">No goal</option>{boardItems.filter(i => i.type === 'goal').map(goal => (<option key={goal.id} value={goal.id}>{goal.content}</option>))}<option value="new">New goal…</option></select>{wizardGoalId === 'new' && (<input value={wizardNewGoalName} onChange={e => setWizardNewGoalName(e.target.value)} placeholder="Goal name" className="mt-2 w-full bg-slate-50 dark:bg-stone-800 border border-slate-200 dark:border-stone-700 rounded-2xl px-5 py-3 text-sm text-slate-900 dark:text-white outline-none focus:border-blue-500" />)}</div>
+              <ItemDetailsFields tone="light" contacts={contacts} tools={tools} item={{ id: 'draft', type: 'sticky', content: wizardTaskName, x: 0, y: 0, ...wizardDetails }} onChange={updates => setWizardDetails(prev => ({ ...prev, ...updates }))} />
+              <div className="flex gap-4 pt-2"><Button type="button" variant="ghost" className="flex-1 rounded-2xl" onClick={() => setIsTaskWizardOpen(false)}>Cancel</Button><Button type="submit" className="flex-1 rounded-2xl shadow-lg shadow-blue-500/20">Create Task</Button></div>
+            </form>
+          </div>
+        )}
+        {selectedItemIds.length > 1 && !focusModeId && (
+          <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-30 flex items-center gap-3 p-2 rounded-xl bg-stone-800 border-2 border-stone-600 shadow-2xl font-sans no-print" onMouseDown={e => e.stopPropagation()}>
+            <span className="px-2 text-[10px] font-black uppercase tracking-widest text-stone-400">{selectedItemIds.length} selected</span>
+            <div className="flex gap-1 pl-3 border-l border-stone-600">
+              <button onClick={() => updateSelectedItems({ isLocked: true })} title="Lock" className="p-2 rounded text-stone-400 hover:text-white hover:bg-stone-700"><svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" /></svg></button>
+              <button onClick={() => updateSelectedItems({ isLocked: false })} title="Unlock" className="p-2 rounded text-stone-400 hover:text-white hover:bg-stone-700"><svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 11V7a4 4 0 118 0m-4 8v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2z" /></svg></button>
+            </div>
+            {selectedStickyIds.length > 0 && (<div className="flex gap-1 pl-3 border-l border-stone-600">{STICKY_PALETTE.map(color => (<button key={color} onClick={() => recolorSelection(color)} title="Recolour tasks" className={`w-5 h-5 rounded-sm border border-stone-500 ${color}`} />))}</div>)}
+            {selectionLinks.length > 0 && (<div className="flex items-center gap-1 pl-3 border-l border-stone-600"><span className="text-[9px] font-black uppercase text-stone-500 mr-1">Links</span>{(['critical','alternative','positive','neutral'] as BoardLink['variant'][]).map(v => (<button key={v} onClick={() => setSelectionLinkVariant(v)} title={v} className="w-4 h-4 rounded-full border border-white" style={{ backgroundColor: LINK_COLORS[v] }} />))}</div>)}
+            <div className="flex gap-1 pl-3 border-l border-stone-600">
+              {([['left', 'M4 4v16M8 8h12M8 16h7'], ['center', 'M12 4v16M6 8h12M8 16h8'], ['right', 'M20 4v16M4 8h12M9 16h7'], ['top', 'M4 4h16M8 8v12M16 8v7'], ['middle', 'M4 12h16M8 6v12M16 8v8'], ['bottom', 'M4 20h16M8 4v12M16 9v7']] as [AlignMode, string][]).map(([mode, d]) => (<button key={mode} onClick={() => handleAlign(mode)} title={`Align ${mode}`} className="p-2 rounded text-stone-400 hover:text-white hover:bg-stone-700"><svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeWidth="2" d={d} /></svg></button>))}
+              <button onClick={() => handleDistribute('horizontal')} disabled={selectedItemIds.length < 3} title="Distribute horizontally" className="p-2 rounded text-stone-400 hover:text-white hover:bg-stone-700 disabled:opacity-30"><svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeWidth="2" d="M4 4v16M20 4v16M10 8v8M14 8v8" /></svg></button>
+              <button onClick={() => handleDistribute('vertical')} disabled={selectedItemIds.length < 3} title="Distribute vertically" className="p-2 rounded text-stone-400 hover:text-white hover:bg-stone-700 disabled:opacity-30"><svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeWidth="2" d="M4 4h16M4 20h16M8 10h8M8 14h8" /></svg></button>
+            </div>
+            <div className="flex gap-1 pl-3 border-l border-stone-600"><button onClick={handleDuplicate} title="Duplicate" className="p-2 rounded text-stone-400 hover:text-white hover:bg-stone-700"><svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" /></svg></button><button onClick={() => handleDeleteItems(selectedItemIds)} title="Delete selected" className="p-2 rounded text-stone-400 hover:text-red-400 hover:bg-red-900/50"><svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg></button></div>
+          </div>
+        )}
       </div>
     );
 };
 
-const App: React.FC = () => {
+const defaultRoomStore = createDefaultRoomStore();
+const defaultSnapshotStore = createDefaultSnapshotStore();
+const defaultDirectoryStore = createDefaultDirectoryStore();
+const defaultToolStore = createDefaultToolStore();
+const defaultAiProvider = createDefaultAiProvider();
+// One replica per tab, so two tabs of the same browser are two collaborators
+const syncActorId = Math.random().toString(36).substr(2, 9);
+
+// Loads a value from its store once, then saves every change. Saving stays off after a failed load, so the defaults the
+// app started with never overwrite what is stored; the error is the store's own so it never hides another store's
+const usePersistedState = <T,>(store: { load(): Promise<T>; save(value: T): Promise<void> }, initial: T, t: (key: string) => string, loadFailedKey: string) => {
+  const [value, setValue] = useState<T>(initial);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoaded(false);
+    store.load()
+      .then(loaded => { if (!cancelled) { setValue(loaded); setIsLoaded(true); setError(null); } })
+      .catch(err => {
+        console.error("Error loading stored data:", err);
+        if (!cancelled) setError(t(loadFailedKey));
+      });
+    return () => { cancelled = true; };
+  }, [store]);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    store.save(value)
+      .then(() => setError(null))
+      .catch(err => {
+        console.error("Error saving stored data:", err);
+        setError(isQuotaExceededError(err) ? t('storageFull') : t('saveFailed'));
+      });
+  }, [value, isLoaded, store]);
+
+  return { value, setValue, error, clearError: () => setError(null) };
+};
+
+interface AppProps { store?: RoomStore; snapshotStore?: SnapshotStore; directoryStore?: DirectoryStore; toolStore?: ToolStore; aiProvider?: AiProvider; }
+
+const App: React.FC<AppProps> = ({ store = defaultRoomStore, snapshotStore = defaultSnapshotStore, directoryStore = defaultDirectoryStore, toolStore = defaultToolStore, aiProvider = defaultAiProvider }) => {
+  const t = (key: string) => TRANSLATIONS.en[key] || key;
   const [activeSection, setActiveSection] = useState<AppSection>('dashboard');
-  const [rooms, setRooms] = useState<PlanningRoom[]>(() => {
-    const saved = localStorage.getItem('nexus_planning_rooms');
-    return saved ? JSON.parse(saved) : DEFAULT_ROOMS;
-  });
-  const [activeRoomId, setActiveRoomId] = useState<string | null>(() => rooms.length > 0 ? rooms[0].id : null);
+  const [rooms, setRooms] = useState<PlanningRoom[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  // Set when the stored rooms could not be read; the defaults are shown but never saved over them
+  const [roomsLoadFailed, setRoomsLoadFailed] = useState(false);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const [focusItemId, setFocusItemId] = useState<string | null>(null);
+  const [isSnapshotPanelOpen, setIsSnapshotPanelOpen] = useState(false);
+  const [isReviewPanelOpen, setIsReviewPanelOpen] = useState(false);
+  const [syncSettings, setSyncSettings] = useState<SyncSettings>(loadSyncSettings);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>('closed');
+  const [peers, setPeers] = useState<Presence[]>([]);
+  const syncSessionRef = useRef<SyncSession | null>(null);
+  const { value: directory, setValue: setDirectory, error: directoryError, clearError: clearDirectoryError } = usePersistedState<Directory>(directoryStore, EMPTY_DIRECTORY, t, 'contactsLoadFailed');
+  const { value: tools, setValue: setTools, error: toolsError, clearError: clearToolsError } = usePersistedState<Tool[]>(toolStore, INITIAL_TOOLS, t, 'toolsLoadFailed');
 
+  // Ctrl/Cmd+K opens the search palette from any section
   useEffect(() => {
-    localStorage.setItem('nexus_planning_rooms', JSON.stringify(rooms));
-  }, [rooms]);
+    const handleKeyDown = (e: KeyboardEvent) => { if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') { e.preventDefault(); setIsPaletteOpen(open => !open); } };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const openSearchResult = (result: SearchResult) => {
+    setIsPaletteOpen(false);
+    setActiveRoomId(result.roomId);
+    setActiveSection('planning');
+    setFocusItemId(result.itemId || null);
+  };
+  const [activeRoomId, setActiveRoomId] = useState<string | null>(null);
+  const [histories, setHistories] = useState<Record<string, RoomHistory>>({});
+
+  useEffect(() => {
+    let cancelled = false;
+    store.load(DEFAULT_ROOMS)
+      .then(result => {
+        if (cancelled) return;
+        if (result.quarantined.length > 0) console.warn(`Quarantined ${result.quarantined.length} invalid planning room entries`, result.quarantined);
+        // Dev server only: ?benchmark=<items> opens a generated large board (never saved) and logs index/render timings for it
+        const benchmarkSize = import.meta.env.DEV ? Number(new URLSearchParams(window.location.search).get('benchmark')) : 0;
+        const loaded = benchmarkSize > 0 ? (() => { const room = generateLargeBoard(benchmarkSize); console.table(runBoardBenchmark([benchmarkSize])); return [room, ...result.rooms.filter(r => r.id !== room.id)]; })() : result.rooms;
+        setRooms(loaded);
+        setActiveRoomId(loaded.length > 0 ? loaded[0].id : null);
+      })
+      .catch(error => {
+        console.error("Error loading planning rooms:", error);
+        if (!cancelled) { setRooms(DEFAULT_ROOMS); setActiveRoomId(DEFAULT_ROOMS[0].id); setRoomsLoadFailed(true); setSaveError(`${t('roomsLoadFailed')}${error instanceof Error ? ` (${error.message})` : ''}`); }
+      })
+      .finally(() => { if (!cancelled) setIsLoaded(true); });
+    return () => { cancelled = true; };
+  }, [store]);
+
+  useEffect(() => {
+    if (!isLoaded || roomsLoadFailed) return;
+    store.save(rooms.filter(r => !isBenchmarkRoom(r)))
+      .then(() => setSaveError(null))
+      .catch(error => {
+        console.error("Error saving planning rooms:", error);
+        setSaveError(isQuotaExceededError(error) ? t('storageFull') : t('saveFailed'));
+      });
+  }, [rooms, isLoaded, roomsLoadFailed, store]);
+
+  // Rooms already checked for a daily snapshot, keyed by room id, so edits during the day don't re-read the store
+  const autoSnapshotCheckedRef = useRef<Record<string, string>>({});
+  useEffect(() => {
+    if (!isLoaded) return;
+    const today = toDateString(new Date());
+    const due = rooms.filter(r => r.autoSnapshot && autoSnapshotCheckedRef.current[r.id] !== today);
+    if (due.length === 0) return;
+    due.forEach(r => { autoSnapshotCheckedRef.current[r.id] = today; });
+    runAutoSnapshots(snapshotStore, due).catch(error => console.error("Error taking automatic snapshots:", error));
+  }, [rooms, isLoaded, snapshotStore]);
 
   const activeRoom = useMemo(() => rooms.find(r => r.id === activeRoomId) || rooms[0], [rooms, activeRoomId]);
 
-  const updateActiveRoom = (items: BoardItem[], links: BoardLink[]) => {
-    setRooms(prev => prev.map(r => r.id === activeRoomId ? { ...r, items, links, updatedAt: Date.now() } : r));
+  useEffect(() => saveSyncSettings(syncSettings), [syncSettings]);
+
+  // The active room is shared live with everyone else who has it open; remote edits bypass the undo history
+  useEffect(() => {
+    if (!isLoaded || !activeRoom) return;
+    const transport = createTransport(syncSettings);
+    if (!transport) return;
+    const roomId = activeRoom.id;
+    const session = createSyncSession({
+      roomId, actor: syncActorId, transport,
+      initial: { items: activeRoom.items, links: activeRoom.links },
+      presence: { name: syncSettings.name, color: syncSettings.color },
+      onRemoteChange: ({ items, links }) => setRooms(prev => prev.map(r => r.id === roomId ? { ...r, items, links, updatedAt: Date.now() } : r)),
+      onPeersChange: setPeers,
+      onStatusChange: setSyncStatus,
+    });
+    syncSessionRef.current = session;
+    return () => { session.close(); syncSessionRef.current = null; setPeers([]); setSyncStatus('closed'); };
+  }, [isLoaded, activeRoom?.id, syncSettings.relayUrl]);
+
+  useEffect(() => { syncSessionRef.current?.updatePresence({ name: syncSettings.name, color: syncSettings.color }); }, [syncSettings.name, syncSettings.color]);
+
+  const activeHistory = (activeRoom && histories[activeRoom.id]) || EMPTY_HISTORY;
+
+  const applySnapshot = (roomId: string, { items, links }: BoardSnapshot) => {
+    if (syncSessionRef.current?.roomId === roomId) syncSessionRef.current.commit({ items, links });
+    setRooms(prev => prev.map(r => r.id === roomId ? { ...r, items, links, updatedAt: Date.now() } : r));
+  };
+
+  const updateActiveRoom = (items: BoardItem[], links: BoardLink[], meta: HistoryMeta) => {
+    if (!activeRoom) return;
+    const before = { items: activeRoom.items, links: activeRoom.links };
+    setHistories(prev => ({ ...prev, [activeRoom.id]: recordChange(prev[activeRoom.id] || EMPTY_HISTORY, before, { items, links }, meta) }));
+    applySnapshot(activeRoom.id, { items, links });
+  };
+
+  // Review fixes go through the history like any other edit, so one undo takes a fix back
+  const applyReviewFix = (finding: Finding) => {
+    if (!activeRoom) return;
+    const result = applyFix(activeRoom.items, activeRoom.links, finding);
+    updateActiveRoom(result.items, result.links, result.meta);
+    setFocusItemId(finding.fix.targetId);
+  };
+
+  const undoActiveRoom = () => {
+    if (!activeRoom) return;
+    const result = undo(activeHistory, activeRoom);
+    if (!result) return;
+    setHistories(prev => ({ ...prev, [activeRoom.id]: result.history }));
+    applySnapshot(activeRoom.id, result.snapshot);
+  };
+
+  const redoActiveRoom = () => {
+    if (!activeRoom) return;
+    const result = redo(activeHistory, activeRoom);
+    if (!result) return;
+    setHistories(prev => ({ ...prev, [activeRoom.id]: result.history }));
+    applySnapshot(activeRoom.id, result.snapshot);
   };
 
   const createRoom = (name: string, description: string, themeColor: string, boardStyle: 'noir' | 'modern' = 'modern', initialItems: BoardItem[] = [], initialLinks: BoardLink[] = []) => {
@@ -618,16 +1385,46 @@ const App: React.FC = () => {
     setActiveSection('planning');
   };
 
+  // Room-level settings that sit outside the board's undo history
+  const updateRoomSettings = (roomId: string, changes: Partial<Pick<PlanningRoom, 'kanbanColumns' | 'autoSnapshot'>>) => {
+    setRooms(prev => prev.map(r => r.id === roomId ? { ...r, ...changes, updatedAt: Date.now() } : r));
+  };
+
+  const restoreSnapshot = (snapshot: RoomSnapshot) => {
+    updateActiveRoom(snapshot.items, snapshot.links, { action: 'restore' });
+    setIsSnapshotPanelOpen(false);
+    setActiveSection('planning');
+  };
+
+  const branchSnapshot = (snapshot: RoomSnapshot) => {
+    if (!activeRoom) return;
+    const branch = branchFromSnapshot(activeRoom, snapshot, `${activeRoom.name} · ${snapshot.name}`);
+    setRooms(prev => [branch, ...prev]);
+    setActiveRoomId(branch.id);
+    setIsSnapshotPanelOpen(false);
+    setActiveSection('planning');
+  };
+
+  const openSnapshots = (roomId: string) => {
+    setActiveRoomId(roomId);
+    setIsSnapshotPanelOpen(true);
+  };
+
+  const importRoom = (room: PlanningRoom) => {
+    setRooms(prev => [room, ...prev]);
+  };
+
   const deleteRoom = (id: string) => {
     setRooms(prev => {
         const filtered = prev.filter(r => r.id !== id);
         if (activeRoomId === id) setActiveRoomId(filtered.length > 0 ? filtered[0].id : null);
         return filtered;
     });
+    setHistories(prev => { const { [id]: _removed, ...rest } = prev; return rest; });
+    removeViewport(id);
+    snapshotStore.removeRoom(id).catch(error => console.error("Error removing snapshots:", error));
   };
 
-  const t = (key: string) => TRANSLATIONS.en[key] || key;
-
   return (
     <div className="flex h-screen w-full bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-white overflow-hidden font-sans">
       <aside className="w-16 bg-white dark:bg-stone-900 border-r border-slate-200 dark:border-stone-800 flex flex-col items-center py-6 z-50 shadow-sm">
@@ -637,19 +1434,34 @@ const App: React.FC = () => {
                 { s: 'dashboard', i: <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2V6zM14 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2V6zM4 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2v-2zM14 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2v-2z" /></svg> },
                 { s: 'planning', i: <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2" /></svg> },
                 { s: 'scan', i: <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg> },
-                { s: 'document', i: <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" /></svg> }
+                { s: 'document', i: <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" /></svg> },
+                { s: 'timeline', i: <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 6h8M8 12h10M6 18h6M4 3v18" /></svg> },
+                { s: 'kanban', i: <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 5a1 1 0 011-1h3a1 1 0 011 1v14a1 1 0 01-1 1H5a1 1 0 01-1-1V5zM10.5 5a1 1 0 011-1h3a1 1 0 011 1v9a1 1 0 01-1 1h-3a1 1 0 01-1-1V5zM17 5a1 1 0 011-1h1a1 1 0 011 1v5a1 1 0 01-1 1h-1a1 1 0 01-1-1V5z" /></svg> },
+                { s: 'people', i: <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" /></svg> },
+                { s: 'tools', i: <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" /></svg> }
             ].map(nav => (
                 <button key={nav.s} onClick={() => setActiveSection(nav.s as any)} className={`w-full aspect-square rounded-xl flex items-center justify-center transition-all ${activeSection === nav.s ? 'bg-slate-100 dark:bg-stone-800 text-blue-600' : 'text-slate-400 hover:text-slate-600 hover:bg-slate-50 dark:hover:bg-stone-800'}`}>{nav.i}</button>
             ))}
         </nav>
+        <button onClick={() => setIsPaletteOpen(true)} title="Search (Ctrl+K)" className="w-12 aspect-square rounded-xl flex items-center justify-center text-slate-400 hover:text-blue-600 hover:bg-slate-100 dark:hover:bg-stone-800 transition-all"><svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" /></svg></button>
       </aside>
 
       <main className={`flex-1 relative h-full overflow-hidden ${activeSection === 'dashboard' ? 'bg-white' : 'bg-slate-50'} dark:bg-slate-900`}>
-        {activeSection === 'dashboard' && (<Dashboard rooms={rooms} activeRoomId={activeRoomId} t={t} onNavigate={setActiveSection} onSelectRoom={setActiveRoomId} onCreateRoom={createRoom} onDeleteRoom={deleteRoom} />)}
-        {activeSection === 'planning' && activeRoom && (<PlanningBoard boardItems={activeRoom.items} setBoardItems={(i) => updateActiveRoom(i, activeRoom.links)} boardLinks={activeRoom.links} setBoardLinks={(l) => updateActiveRoom(activeRoom.items, l)} style={activeRoom.boardStyle} />)}
-        {activeSection === 'scan' && (<DocumentScanner t={t} onSync={(i, l) => { updateActiveRoom([...activeRoom.items, ...i], [...activeRoom.links, ...l]); setActiveSection('planning'); }} />)}
-        {activeSection === 'document' && activeRoom && (<PlanningSheet activeRoom={activeRoom} t={t} />)}
+        {!isLoaded && (<div className="w-full h-full flex items-center justify-center"><div className="w-8 h-8 rounded-full border-4 border-slate-200 border-t-blue-600 animate-spin" /></div>)}
+        {isLoaded && activeSection === 'dashboard' && (<Dashboard rooms={rooms} activeRoomId={activeRoomId} t={t} onNavigate={setActiveSection} onSelectRoom={setActiveRoomId} onCreateRoom={createRoom} onDeleteRoom={deleteRoom} onImportRoom={importRoom} onOpenSnapshots={openSnapshots} aiProvider={aiProvider} />)}
+        {activeSection === 'planning' && activeRoom && (<PlanningBoard key={activeRoom.id} boardItems={activeRoom.items} setBoardItems={(i, meta) => updateActiveRoom(i, activeRoom.links, meta)} boardLinks={activeRoom.links} setBoardLinks={(l, meta) => updateActiveRoom(activeRoom.items, l, meta)} setBoard={updateActiveRoom} onUndo={undoActiveRoom} onRedo={redoActiveRoom} canUndo={activeHistory.past.length > 0} canRedo={activeHistory.future.length > 0} roomId={activeRoom.id} roomName={activeRoom.name} style={activeRoom.boardStyle} focusItemId={focusItemId} onFocusItemHandled={() => setFocusItemId(null)} onOpenSnapshots={() => setIsSnapshotPanelOpen(true)} onOpenReview={() => setIsReviewPanelOpen(true)} peers={peers} onPresenceChange={(changes) => syncSessionRef.current?.updatePresence(changes)} contacts={directory.contacts} tools={tools} />)}
+        {activeSection === 'planning' && activeRoom && (<div className="absolute top-6 right-6 z-40 no-print"><CollaborationMenu settings={syncSettings} status={syncStatus} peers={peers} t={t} onChange={setSyncSettings} /></div>)}
+        {activeSection === 'scan' && (<DocumentScanner t={t} onSync={(i, l) => { updateActiveRoom([...activeRoom.items, ...i], [...activeRoom.links, ...l], { action: 'sync' }); setActiveSection('planning'); }} />)}
+        {activeSection === 'document' && activeRoom && (<PlanningSheet activeRoom={activeRoom} tools={tools} t={t} />)}
+        {activeSection === 'timeline' && activeRoom && (<TimelineView key={activeRoom.id} room={activeRoom} t={t} onUpdateItems={(i, meta) => updateActiveRoom(i, activeRoom.links, meta)} onUndo={undoActiveRoom} onOpenItem={(id) => { setFocusItemId(id); setActiveSection('planning'); }} />)}
+        {activeSection === 'kanban' && activeRoom && (<KanbanView key={activeRoom.id} room={activeRoom} contacts={directory.contacts} t={t} onUpdateItems={(i, meta) => updateActiveRoom(i, activeRoom.links, meta)} onUpdateColumns={(columns) => updateRoomSettings(activeRoom.id, { kanbanColumns: columns })} onOpenItem={(id) => { setFocusItemId(id); setActiveSection('planning'); }} />)}
+        {activeSection === 'people' && (<PeopleView directory={directory} rooms={rooms} t={t} onChange={setDirectory} onOpenItem={(roomId, itemId) => { setActiveRoomId(roomId); setFocusItemId(itemId); setActiveSection('planning'); }} />)}
+        {activeSection === 'tools' && (<ToolsView tools={tools} rooms={rooms} t={t} onChange={setTools} onOpenItem={(roomId, itemId) => { setActiveRoomId(roomId); setFocusItemId(itemId); setActiveSection('planning'); }} />)}
+        {(saveError || directoryError || toolsError) && (<div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-[90] flex flex-col items-center gap-2">{[{ message: saveError, clear: () => setSaveError(null) }, { message: directoryError, clear: clearDirectoryError }, { message: toolsError, clear: clearToolsError }].filter(e => e.message).map(({ message, clear }) => (<div key={message} role="alert" className="flex items-center gap-3 px-5 py-3 rounded-2xl bg-red-600 text-white text-xs font-bold shadow-2xl"><svg className="w-4 h-4 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 9v2m0 4h.01M10.29 3.86L1.82 18a2 2 0 001.71 3h16.94a2 2 0 001.71-3L13.71 3.86a2 2 0 00-3.42 0z" /></svg>{message}<button onClick={clear} className="ml-2 opacity-70 hover:opacity-100">✕</button></div>))}</div>)}
       </main>
+      {isSnapshotPanelOpen && activeRoom && (<SnapshotPanel key={activeRoom.id} room={activeRoom} store={snapshotStore} t={t} onRestore={restoreSnapshot} onBranch={branchSnapshot} onUpdateAutoSnapshot={(setting) => updateRoomSettings(activeRoom.id, { autoSnapshot: setting })} onClose={() => setIsSnapshotPanelOpen(false)} />)}
+      {isReviewPanelOpen && activeSection === 'planning' && activeRoom && (<PlanReviewPanel key={activeRoom.id} room={activeRoom} provider={aiProvider} t={t} onApplyFix={applyReviewFix} onFocusItem={setFocusItemId} onClose={() => setIsReviewPanelOpen(false)} />)}
+      {isPaletteOpen && (<CommandPalette rooms={rooms} onSelect={openSearchResult} onClose={() => setIsPaletteOpen(false)} />)}
     </div>
   );
 };
@@ -0,0 +1,51 @@
+
+import React from 'react';
+import { BoardDraft, DraftItemType } from '../services/boardDraftService';
+
+interface BoardDraftReviewProps {
+  draft: BoardDraft;
+  // Keys of the proposed items that will be added
+  keptKeys: Set<string>;
+  t: (key: string) => string;
+  onChange: (keptKeys: Set<string>) => void;
+}
+
+const SECTIONS: { type: DraftItemType; label: string; dot: string }[] = [
+  { type: 'goal', label: 'strategicGoals', dot: 'bg-slate-900 dark:bg-white' },
+  { type: 'objective', label: 'missionObjectives', dot: 'bg-red-500' },
+  { type: 'sticky', label: 'actionItems', dot: 'bg-yellow-400' },
+  { type: 'idea-strip', label: 'conceptRepository', dot: 'bg-purple-500' },
+];
+
+// Proposed items grouped by type; links to items that are left out are dropped when the board is created
+const BoardDraftReview: React.FC<BoardDraftReviewProps> = ({ draft, keptKeys, t, onChange }) => {
+  const contentOf = (key: string) => draft.items.find(i => i.key === key)?.content || '';
+  const toggle = (keys: string[], keep: boolean) => { const next = new Set(keptKeys); keys.forEach(key => keep ? next.add(key) : next.delete(key)); onChange(next); };
+  const keptLinks = draft.links.filter(l => keptKeys.has(l.from) && keptKeys.has(l.to)).length;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-[10px] font-bold uppercase tracking-widest text-slate-400">{keptKeys.size}/{draft.items.length} {t('items')} · {keptLinks} {t('links')}</p>
+      {SECTIONS.map(({ type, label, dot }) => {
+        const items = draft.items.filter(i => i.type === type);
+        if (items.length === 0) return null;
+        const allKept = items.every(i => keptKeys.has(i.key));
+        return (
+          <section key={type}>
+            <div className="flex items-center justify-between pb-1.5"><span className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-500"><span className={`w-2 h-2 rounded-full ${dot}`} />{t(label)}</span><button type="button" onClick={() => toggle(items.map(i => i.key), !allKept)} className="text-[10px] font-bold text-blue-600">{allKept ? t('deselectAll') : t('selectAll')}</button></div>
+            <ul className="space-y-1">
+              {items.map(item => {
+                const targets = draft.links.filter(l => l.from === item.key).map(l => contentOf(l.to));
+                return (
+                  <li key={item.key}><label className={`flex items-start gap-2 px-3 py-2 rounded-xl border cursor-pointer ${keptKeys.has(item.key) ? 'border-slate-200 dark:border-stone-700 bg-white dark:bg-stone-800' : 'border-dashed border-slate-200 dark:border-stone-800 opacity-50'}`}><input type="checkbox" checked={keptKeys.has(item.key)} onChange={e => toggle([item.key], e.target.checked)} className="mt-0.5" /><span className="min-w-0"><span className="block text-sm text-slate-900 dark:text-white">{item.content}</span>{targets.length > 0 && (<span className="block text-[10px] text-slate-400 truncate">→ {targets.join(', ')}</span>)}</span></label></li>
+                );
+              })}
+            </ul>
+          </section>
+        );
+      })}
+    </div>
+  );
+};
+
+export default BoardDraftReview;
@@ -0,0 +1,48 @@
+
+import React, { useRef } from 'react';
+import { BoardItem } from '../types';
+import { Point, Rect, getContentBounds, getItemRect } from '../services/boardGeometry';
+
+interface BoardMinimapProps {
+  items: BoardItem[];
+  // Board-coordinate rectangle currently on screen
+  visibleRect: Rect;
+  selectedIds: string[];
+  onNavigate: (center: Point) => void;
+  width?: number;
+  height?: number;
+}
+
+const TYPE_FILLS: Record<BoardItem['type'], string> = { objective: '#ef4444', goal: '#f5f5f4', sticky: '#facc15', 'idea-strip': '#c084fc', image: '#94a3b8', text: '#a8a29e' };
+
+const BoardMinimap: React.FC<BoardMinimapProps> = ({ items, visibleRect, selectedIds, onNavigate, width = 200, height = 140 }) => {
+  const isDragging = useRef(false);
+
+  // The map always covers both the content and the viewport, so the viewport rectangle never falls off the edge
+  const content = getContentBounds(items, 200) || visibleRect;
+  const minX = Math.min(content.x, visibleRect.x); const minY = Math.min(content.y, visibleRect.y);
+  const maxX = Math.max(content.x + content.w, visibleRect.x + visibleRect.w); const maxY = Math.max(content.y + content.h, visibleRect.y + visibleRect.h);
+  const scale = Math.min(width / (maxX - minX), height / (maxY - minY));
+  const offsetX = (width - (maxX - minX) * scale) / 2; const offsetY = (height - (maxY - minY) * scale) / 2;
+  const toMap = (x: number, y: number) => ({ x: offsetX + (x - minX) * scale, y: offsetY + (y - minY) * scale });
+
+  const navigateTo = (e: React.PointerEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    onNavigate({ x: minX + (e.clientX - rect.left - offsetX) / scale, y: minY + (e.clientY - rect.top - offsetY) / scale });
+  };
+
+  const viewport = toMap(visibleRect.x, visibleRect.y);
+  return (
+    <div className="rounded-xl bg-stone-900/90 border-2 border-stone-600 shadow-2xl overflow-hidden no-print" onMouseDown={e => e.stopPropagation()} onWheel={e => e.stopPropagation()}>
+      <svg width={width} height={height} className="block cursor-pointer" role="img" aria-label={`Minimap of ${items.length} items`}
+        onPointerDown={e => { isDragging.current = true; e.currentTarget.setPointerCapture(e.pointerId); navigateTo(e); }}
+        onPointerMove={e => { if (isDragging.current) navigateTo(e); }}
+        onPointerUp={e => { isDragging.current = false; e.currentTarget.releasePointerCapture(e.pointerId); }}>
+        {items.map(item => { const r = getItemRect(item); const p = toMap(r.x, r.y); return <rect key={item.id} x={p.x} y={p.y} width={Math.max(r.w * scale, 2)} height={Math.max(r.h * scale, 2)} fill={TYPE_FILLS[item.type]} opacity={selectedIds.includes(item.id) ? 1 : 0.6} stroke={selectedIds.includes(item.id) ? '#3b82f6' : 'none'} />; })}
+        <rect x={viewport.x} y={viewport.y} width={visibleRect.w * scale} height={visibleRect.h * scale} fill="rgba(59,130,246,0.1)" stroke="#3b82f6" strokeWidth={1.5} />
+      </svg>
+    </div>
+  );
+};
+
+export default BoardMinimap;
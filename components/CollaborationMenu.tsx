@@ -0,0 +1,58 @@
+
+import React, { useEffect, useState } from 'react';
+import { initialsOf } from '../services/scheduleService';
+import { PRESENCE_COLORS, Presence, SyncSettings, SyncStatus } from '../services/syncService';
+
+interface CollaborationMenuProps {
+  settings: SyncSettings;
+  status: SyncStatus;
+  peers: Presence[];
+  t: (key: string) => string;
+  onChange: (settings: SyncSettings) => void;
+}
+
+const STATUS_DOT: Record<SyncStatus, string> = { open: 'bg-green-500', connecting: 'bg-amber-400 animate-pulse', closed: 'bg-stone-500' };
+
+const Avatar: React.FC<{ name: string; color: string }> = ({ name, color }) => (
+  <span title={name} className="w-7 h-7 rounded-full border-2 border-stone-800 flex items-center justify-center text-[10px] font-black text-white" style={{ backgroundColor: color }}>{initialsOf(name)}</span>
+);
+
+const CollaborationMenu: React.FC<CollaborationMenuProps> = ({ settings, status, peers, t, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  // The relay URL is only applied on submit, so typing it doesn't reconnect on every keystroke
+  const [relayDraft, setRelayDraft] = useState(settings.relayUrl);
+  useEffect(() => setRelayDraft(settings.relayUrl), [settings.relayUrl]);
+
+  const statusLabel = status === 'open' ? (settings.relayUrl ? t('connectedToRelay') : t('syncingTabs')) : status === 'connecting' ? t('connecting') : t('offline');
+
+  return (
+    <div className="relative font-sans">
+      <button onClick={() => setIsOpen(o => !o)} title={t('collaboration')} aria-expanded={isOpen} className="flex items-center gap-2 pl-2 pr-3 py-1.5 rounded-xl bg-stone-800 border-2 border-stone-600 shadow-2xl hover:border-stone-400">
+        <span className="flex -space-x-2">{[{ name: settings.name, color: settings.color }, ...peers].slice(0, 5).map((p, i) => (<Avatar key={i} name={p.name} color={p.color} />))}</span>
+        {peers.length > 4 && (<span className="text-[10px] font-bold text-stone-400">+{peers.length - 4}</span>)}
+        <span className={`w-2 h-2 rounded-full ${STATUS_DOT[status]}`} />
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-3 w-72 p-4 rounded-xl bg-stone-800 border-2 border-stone-600 shadow-2xl text-xs text-stone-300 space-y-4 animate-in fade-in zoom-in-95 duration-100">
+          <div className="flex items-center gap-2"><span className={`w-2 h-2 rounded-full ${STATUS_DOT[status]}`} /><span className="font-bold text-white">{statusLabel}</span></div>
+          <div>
+            <span className="block pb-1.5 text-[9px] font-black uppercase tracking-widest text-stone-500">{t('here')}</span>
+            <ul className="space-y-1">
+              <li className="flex items-center gap-2"><Avatar name={settings.name} color={settings.color} /><span className="flex-1 truncate text-white">{settings.name}</span><span className="text-stone-500">{t('you')}</span></li>
+              {peers.map(peer => (<li key={peer.actor} className="flex items-center gap-2"><Avatar name={peer.name} color={peer.color} /><span className="flex-1 truncate">{peer.name}</span>{peer.selection.length > 0 && (<span className="text-stone-500">{peer.selection.length} {t('selected')}</span>)}</li>))}
+            </ul>
+          </div>
+          <label className="block"><span className="block pb-1.5 text-[9px] font-black uppercase tracking-widest text-stone-500">{t('yourName')}</span><input value={settings.name} onChange={e => onChange({ ...settings, name: e.target.value })} className="w-full px-2 py-1.5 rounded bg-stone-900 border border-stone-600 text-white outline-none focus:border-blue-500" /></label>
+          <div><span className="block pb-1.5 text-[9px] font-black uppercase tracking-widest text-stone-500">{t('cursorColor')}</span><div className="flex gap-1.5">{PRESENCE_COLORS.map(color => (<button key={color} onClick={() => onChange({ ...settings, color })} aria-label={color} className={`w-5 h-5 rounded-full ${settings.color === color ? 'ring-2 ring-white ring-offset-2 ring-offset-stone-800' : ''}`} style={{ backgroundColor: color }} />))}</div></div>
+          <form onSubmit={e => { e.preventDefault(); onChange({ ...settings, relayUrl: relayDraft.trim() }); }}>
+            <span className="block pb-1.5 text-[9px] font-black uppercase tracking-widest text-stone-500">{t('relayUrl')}</span>
+            <div className="flex gap-1"><input value={relayDraft} onChange={e => setRelayDraft(e.target.value)} placeholder="ws://localhost:8787" className="flex-1 min-w-0 px-2 py-1.5 rounded bg-stone-900 border border-stone-600 text-white outline-none focus:border-blue-500" /><button type="submit" disabled={relayDraft.trim() === settings.relayUrl} className="px-2 rounded bg-blue-600 text-white font-bold disabled:opacity-40">{t('connect')}</button></div>
+            <p className="pt-1.5 text-[10px] text-stone-500">{t('relayHint')}</p>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CollaborationMenu;
@@ -0,0 +1,55 @@
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { PlanningRoom } from '../types';
+import { SearchResult, searchRooms } from '../services/searchService';
+import { ITEM_TYPE_LABELS } from '../services/boardNavigation';
+
+interface CommandPaletteProps {
+  rooms: PlanningRoom[];
+  onSelect: (result: SearchResult) => void;
+  onClose: () => void;
+}
+
+const CommandPalette: React.FC<CommandPaletteProps> = ({ rooms, onSelect, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  const results = useMemo(() => searchRooms(rooms, query), [rooms, query]);
+
+  useEffect(() => { inputRef.current?.focus(); }, []);
+  useEffect(() => { setActiveIndex(0); }, [query]);
+  useEffect(() => { listRef.current?.querySelector(`[data-index="${activeIndex}"]`)?.scrollIntoView({ block: 'nearest' }); }, [activeIndex]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') { e.preventDefault(); setActiveIndex(i => Math.min(i + 1, results.length - 1)); }
+    else if (e.key === 'ArrowUp') { e.preventDefault(); setActiveIndex(i => Math.max(i - 1, 0)); }
+    else if (e.key === 'Enter' && results[activeIndex]) { e.preventDefault(); onSelect(results[activeIndex]); }
+    else if (e.key === 'Escape') { e.preventDefault(); onClose(); }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-start justify-center pt-[15vh] bg-black/40 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="w-full max-w-xl bg-white dark:bg-stone-900 border border-slate-200 dark:border-stone-800 rounded-2xl shadow-2xl overflow-hidden animate-in fade-in zoom-in-95 duration-100" onClick={e => e.stopPropagation()} role="dialog" aria-label="Search rooms and items">
+        <div className="flex items-center gap-3 px-5 border-b border-slate-100 dark:border-stone-800">
+          <svg className="w-5 h-5 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" /></svg>
+          <input ref={inputRef} value={query} onChange={e => setQuery(e.target.value)} onKeyDown={handleKeyDown} placeholder="Search items and rooms…" role="combobox" aria-expanded={results.length > 0} aria-controls="command-palette-results" aria-activedescendant={results[activeIndex] ? `command-result-${activeIndex}` : undefined} className="flex-1 py-4 bg-transparent outline-none text-sm font-medium" />
+          <kbd className="text-[10px] font-bold text-slate-400 border border-slate-200 dark:border-stone-700 rounded px-1.5 py-0.5">ESC</kbd>
+        </div>
+        <ul ref={listRef} id="command-palette-results" role="listbox" className="max-h-[50vh] overflow-y-auto p-2">
+          {query.trim() && results.length === 0 && (<li className="px-4 py-8 text-center text-xs font-bold text-slate-400 uppercase tracking-widest">No matches</li>)}
+          {results.map((result, index) => (
+            <li key={`${result.roomId}-${result.itemId || 'room'}`} id={`command-result-${index}`} data-index={index} role="option" aria-selected={index === activeIndex} onMouseEnter={() => setActiveIndex(index)} onClick={() => onSelect(result)} className={`flex items-center gap-3 px-4 py-3 rounded-xl cursor-pointer ${index === activeIndex ? 'bg-blue-50 dark:bg-stone-800' : ''}`}>
+              <span className={`text-[9px] font-black uppercase tracking-widest px-2 py-1 rounded-md flex-shrink-0 ${result.kind === 'room' ? 'bg-blue-600 text-white' : 'bg-slate-100 dark:bg-stone-700 text-slate-500 dark:text-stone-300'}`}>{result.kind === 'room' ? 'Room' : ITEM_TYPE_LABELS[result.itemType!]}</span>
+              <span className="flex-1 min-w-0 text-sm font-medium truncate">{result.title}</span>
+              {result.kind === 'item' && (<span className="text-[10px] font-bold text-slate-400 truncate max-w-[140px]">{result.roomName}</span>)}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
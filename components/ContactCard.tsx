@@ -1,15 +1,18 @@
 
 import React from 'react';
-import { Contact } from '../types';
+import { Contact, CustomGroup } from '../types';
+import { avatarOf } from '../services/contactService';
 
 interface ContactCardProps {
   contact: Contact;
   onEdit: (contact: Contact) => void;
   onDelete: (id: string) => void;
+  // The directory's groups, to label the ones this contact belongs to
+  groups?: CustomGroup[];
   t?: (key: string) => string;
 }
 
-const ContactCard: React.FC<ContactCardProps> = ({ contact, onEdit, onDelete, t = (k) => k }) => {
+const ContactCard: React.FC<ContactCardProps> = ({ contact, onEdit, onDelete, groups = [], t = (k) => k }) => {
   const formatDate = (dateInput: string | number) => {
     if (!dateInput) return 'Unknown';
     const date = new Date(dateInput);
@@ -109,7 +112,7 @@ const ContactCard: React.FC<ContactCardProps> = ({ contact, onEdit, onDelete, t
       <div className="p-6 flex-1 relative z-10">
         <div className="flex items-start gap-4">
           <img 
-            src={contact.avatarUrl} 
+            src={avatarOf(contact)} 
             alt={`${contact.firstName} ${contact.lastName}`}
             className="w-14 h-14 rounded-xl object-cover border border-slate-100 dark:border-slate-800 shadow-sm"
           />
@@ -128,6 +131,13 @@ const ContactCard: React.FC<ContactCardProps> = ({ contact, onEdit, onDelete, t
             <p className="text-xs text-slate-500 dark:text-slate-400 font-medium mt-1 uppercase tracking-widest truncate">
               {contact.company || t('privatePractice')}
             </p>
+            {groups.some(g => contact.customGroups?.includes(g.id)) && (
+              <div className="mt-2 flex flex-wrap gap-1">
+                {groups.filter(g => contact.customGroups?.includes(g.id)).map(group => (
+                  <span key={group.id} className="text-[9px] font-bold uppercase tracking-wider px-1.5 py-0.5 rounded text-white" style={{ backgroundColor: group.color }}>{group.name}</span>
+                ))}
+              </div>
+            )}
           </div>
         </div>
 
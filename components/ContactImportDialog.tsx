@@ -0,0 +1,116 @@
+
+import React, { useMemo, useState } from 'react';
+import { Directory, fullName } from '../services/contactService';
+import { CSV_FIELDS, CsvField, CsvMapping, ImportAction, ImportCandidate, ImportResult, MergeField, applyImport, csvRowsToDrafts, getConflicts, guessCsvMapping, parseCsv, parseVCards, planImport } from '../services/contactExchangeService';
+import Button from './Button';
+
+interface ContactImportDialogProps {
+  fileName: string;
+  text: string;
+  directory: Directory;
+  t: (key: string) => string;
+  onImport: (directory: Directory) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_ROWS = 3;
+
+const fieldLabel = (field: CsvField) => CSV_FIELDS.find(f => f.field === field)?.label || field;
+const isVCard = (fileName: string, text: string) => /\.vcf$/i.test(fileName) || /^\s*BEGIN:VCARD/i.test(text);
+
+// CSV files go through a column mapping step first; vCards go straight to the review of new people and duplicates
+const ContactImportDialog: React.FC<ContactImportDialogProps> = ({ fileName, text, directory, t, onImport, onClose }) => {
+  const vcard = isVCard(fileName, text);
+  const rows = useMemo(() => vcard ? [] : parseCsv(text), [vcard, text]);
+  const [mapping, setMapping] = useState<CsvMapping>(() => rows.length > 0 ? guessCsvMapping(rows[0]) : {});
+  const [candidates, setCandidates] = useState<ImportCandidate[] | null>(() => vcard ? planImport(parseVCards(text), directory.contacts) : null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  const setColumn = (index: number, field: CsvField | '') => setMapping(current => {
+    // A field maps from one column at most, so picking it elsewhere clears the old column
+    const next: CsvMapping = {};
+    Object.keys(current).map(Number).forEach(i => { if (i !== index && current[i] !== field) next[i] = current[i]; });
+    if (field) next[index] = field;
+    return next;
+  });
+  const updateCandidate = (index: number, changes: Partial<ImportCandidate>) => setCandidates(list => list && list.map((c, i) => i === index ? { ...c, ...changes } : c));
+  const choose = (index: number, field: MergeField, side: 'existing' | 'incoming') => setCandidates(list => list && list.map((c, i) => i === index ? { ...c, choices: { ...c.choices, [field]: side } } : c));
+  const handleImport = () => { if (!candidates) return; const imported = applyImport(directory, candidates); onImport(imported.directory); setResult(imported); };
+
+  const canContinue = Object.values(mapping).some(f => f === 'firstName' || f === 'lastName' || f === 'fullName' || f === 'email');
+  const counts = (candidates || []).reduce<Record<ImportAction, number>>((acc, c) => ({ ...acc, [c.action]: acc[c.action] + 1 }), { add: 0, merge: 0, skip: 0 });
+
+  const body = () => {
+    if (result) return (
+      <div className="h-full flex flex-col items-center justify-center gap-2 text-center"><p className="text-lg font-black text-slate-900 dark:text-white">{t('contactsImported')}</p><p className="text-xs text-slate-500">{result.added} {t('contactsAdded')} · {result.merged} {t('contactsMerged')} · {result.skipped} {t('contactsSkipped')}</p></div>
+    );
+    if (!candidates) return rows.length < 2 ? (
+      <div className="h-full flex items-center justify-center text-xs font-bold uppercase tracking-widest text-slate-400">{t('nothingToImport')}</div>
+    ) : (
+      <div className="space-y-3">
+        <p className="text-xs text-slate-500">{t('mapColumnsHint')}</p>
+        <table className="w-full text-xs">
+          <thead><tr className="text-[9px] font-black uppercase tracking-widest text-slate-400 text-left"><th className="py-2 pr-4">{t('column')}</th><th className="py-2 pr-4">{t('importAs')}</th><th className="py-2">{t('preview')}</th></tr></thead>
+          <tbody className="divide-y divide-slate-100 dark:divide-stone-800">
+            {rows[0].map((header, index) => (
+              <tr key={index}>
+                <td className="py-2 pr-4 font-bold text-slate-800 dark:text-slate-100">{header || `#${index + 1}`}</td>
+                <td className="py-2 pr-4"><select value={mapping[index] || ''} onChange={e => setColumn(index, e.target.value as CsvField | '')} aria-label={`${t('importAs')} ${header}`} className="px-2 py-1 rounded bg-slate-50 dark:bg-stone-800 border border-slate-200 dark:border-stone-700 outline-none focus:border-blue-500"><option value="">{t('dontImport')}</option>{CSV_FIELDS.map(f => (<option key={f.field} value={f.field}>{f.label}</option>))}</select></td>
+                <td className="py-2 text-slate-500 truncate max-w-[16rem]">{rows.slice(1, 1 + PREVIEW_ROWS).map(row => row[index]).filter(Boolean).join(' · ')}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+    if (candidates.length === 0) return (<div className="h-full flex items-center justify-center text-xs font-bold uppercase tracking-widest text-slate-400">{t('nothingToImport')}</div>);
+    return (
+      <ul className="space-y-2">
+        {candidates.map((candidate, index) => {
+          const { draft, duplicateOf, action } = candidate;
+          const conflicts = duplicateOf && action === 'merge' ? getConflicts(duplicateOf, draft) : [];
+          return (
+            <li key={index} className={`rounded-xl border p-3 ${duplicateOf ? 'border-amber-300 dark:border-amber-700/60' : 'border-slate-200 dark:border-stone-800'} ${action === 'skip' ? 'opacity-50' : ''}`}>
+              <div className="flex items-center gap-3">
+                <div className="flex-1 min-w-0"><p className="text-xs font-bold text-slate-900 dark:text-white truncate">{fullName(draft)}</p><p className="text-[10px] text-slate-500 truncate">{[draft.email, draft.phone, draft.company].filter(Boolean).join(' · ')}</p>{duplicateOf && (<p className="text-[10px] font-bold text-amber-600">{t('matchesContact')} {fullName(duplicateOf)}</p>)}</div>
+                <select value={action} onChange={e => updateCandidate(index, { action: e.target.value as ImportAction })} aria-label={fullName(draft)} className="px-2 py-1 rounded bg-slate-50 dark:bg-stone-800 border border-slate-200 dark:border-stone-700 text-xs outline-none focus:border-blue-500">{duplicateOf && (<option value="merge">{t('mergeContact')}</option>)}<option value="add">{duplicateOf ? t('addAsNew') : t('add')}</option><option value="skip">{t('skip')}</option></select>
+              </div>
+              {conflicts.length > 0 && (
+                <div className="mt-3 grid grid-cols-[auto_1fr_1fr] gap-x-3 gap-y-1 text-[11px]">
+                  <span /><span className="text-[9px] font-black uppercase tracking-widest text-slate-400">{t('keepExisting')}</span><span className="text-[9px] font-black uppercase tracking-widest text-slate-400">{t('useImported')}</span>
+                  {conflicts.map(field => {
+                    const side = candidate.choices[field] || 'existing';
+                    const option = (value: 'existing' | 'incoming', label: string) => (<label className={`flex items-center gap-1.5 min-w-0 cursor-pointer ${side === value ? 'text-slate-900 dark:text-white font-bold' : 'text-slate-500'}`}><input type="radio" name={`${index}-${field}`} checked={side === value} onChange={() => choose(index, field, value)} />{field === 'avatarUrl' ? (<img src={label} alt="" className="w-6 h-6 rounded-full object-cover" />) : (<span className="truncate">{label}</span>)}</label>);
+                    return (<React.Fragment key={field}><span className="text-slate-400">{fieldLabel(field)}</span>{option('existing', duplicateOf![field] || '')}{option('incoming', draft[field] || '')}</React.Fragment>);
+                  })}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-900/60 backdrop-blur-md p-4 font-sans" onClick={onClose}>
+      <div className="bg-white dark:bg-stone-900 border border-slate-200 dark:border-stone-800 w-full max-w-3xl h-[80vh] rounded-[32px] shadow-2xl overflow-hidden flex flex-col animate-in zoom-in-95 duration-200" onClick={e => e.stopPropagation()} role="dialog" aria-label={t('importContacts')}>
+        <div className="flex items-center justify-between gap-4 px-8 py-5 border-b border-slate-100 dark:border-stone-800">
+          <div className="min-w-0"><h2 className="text-2xl font-black text-slate-900 dark:text-white uppercase tracking-tight">{t('importContacts')}</h2><p className="text-xs text-slate-500 truncate">{fileName}</p></div>
+          <button onClick={onClose} className="p-2 rounded-lg text-slate-400 hover:text-slate-900 dark:hover:text-white" aria-label="Close"><svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg></button>
+        </div>
+        <div className="flex-1 overflow-y-auto custom-scrollbar px-8 py-5">{body()}</div>
+        <div className="flex items-center justify-between gap-4 px-8 py-4 border-t border-slate-100 dark:border-stone-800">
+          <span className="text-[10px] font-bold uppercase tracking-widest text-slate-400">{candidates && !result ? `${counts.add} ${t('toAdd')} · ${counts.merge} ${t('toMerge')} · ${counts.skip} ${t('toSkip')}` : ''}</span>
+          <div className="flex gap-2">
+            {result ? (<Button size="sm" onClick={onClose}>{t('done')}</Button>) : candidates ? (
+              <>{!vcard && (<Button size="sm" variant="ghost" onClick={() => setCandidates(null)}>{t('back')}</Button>)}<Button size="sm" onClick={handleImport} disabled={counts.add + counts.merge === 0}>{t('importContacts')}</Button></>
+            ) : (<Button size="sm" onClick={() => setCandidates(planImport(csvRowsToDrafts(rows.slice(1), mapping), directory.contacts))} disabled={!canContinue || rows.length < 2}>{t('continue')}</Button>)}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ContactImportDialog;
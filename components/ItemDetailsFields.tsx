@@ -0,0 +1,59 @@
+
+import React, { useState } from 'react';
+import { BoardItem, Contact, Tool } from '../types';
+import { fullName } from '../services/contactService';
+import { toggleToolId } from '../services/toolService';
+import { ITEM_STATUSES, STATUS_COLORS, STATUS_LABELS, getStatus, isOverdue, statusPatch } from '../services/scheduleService';
+import ToolIcon from './ToolIcon';
+
+interface ItemDetailsFieldsProps {
+  item: BoardItem;
+  onChange: (updates: Partial<BoardItem>) => void;
+  // The board's dark chrome or the light modal surfaces
+  tone?: 'dark' | 'light';
+  // The directory to assign from; without it the owner is free text
+  contacts?: Contact[];
+  // The registry to attach tools from; without it the section is hidden
+  tools?: Tool[];
+}
+
+const OTHER_OWNER = 'other';
+
+const ItemDetailsFields: React.FC<ItemDetailsFieldsProps> = ({ item, onChange, tone = 'dark', contacts = [], tools = [] }) => {
+  const status = getStatus(item);
+  const [isOtherOwner, setIsOtherOwner] = useState(!item.assigneeId && !!item.assignee);
+  const ownerValue = item.assigneeId && contacts.some(c => c.id === item.assigneeId) ? item.assigneeId : isOtherOwner || item.assignee ? OTHER_OWNER : '';
+  const handleOwnerSelect = (value: string) => { setIsOtherOwner(value === OTHER_OWNER); onChange(value === OTHER_OWNER ? { assigneeId: undefined } : { assigneeId: value || undefined, assignee: undefined }); };
+  const labelClass = `block text-[9px] font-black uppercase tracking-widest mb-1 ${tone === 'dark' ? 'text-stone-400' : 'text-slate-400'}`;
+  const inputClass = `w-full px-2 py-1.5 rounded-md text-xs font-sans outline-none border focus:border-blue-500 ${tone === 'dark' ? 'bg-stone-900 border-stone-600 text-white [color-scheme:dark]' : 'bg-slate-50 dark:bg-slate-800 border-slate-200 dark:border-slate-700 text-slate-900 dark:text-white'}`;
+  return (
+    <div className="space-y-3 font-sans" onMouseDown={e => e.stopPropagation()}>
+      <div>
+        <span className={labelClass}>Status</span>
+        <div className="grid grid-cols-2 gap-1" role="radiogroup" aria-label="Status">
+          {ITEM_STATUSES.map(s => (<button key={s} type="button" role="radio" aria-checked={status === s} onClick={() => onChange(statusPatch(s))} className={`flex items-center gap-1.5 px-2 py-1.5 rounded-md text-[10px] font-bold border ${status === s ? (tone === 'dark' ? 'bg-stone-700 border-stone-400 text-white' : 'bg-blue-50 dark:bg-slate-700 border-blue-400 text-slate-900 dark:text-white') : (tone === 'dark' ? 'border-stone-700 text-stone-400 hover:text-white' : 'border-slate-200 dark:border-slate-700 text-slate-500 hover:text-slate-900 dark:hover:text-white')}`}><span className={`w-2 h-2 rounded-full ${STATUS_COLORS[s]}`} />{STATUS_LABELS[s]}</button>))}
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <label><span className={labelClass}>Start</span><input type="date" value={item.startDate || ''} max={item.dueDate} onChange={e => onChange({ startDate: e.target.value || undefined })} className={inputClass} /></label>
+        <label><span className={labelClass}>Due</span><input type="date" value={item.dueDate || ''} min={item.startDate} onChange={e => onChange({ dueDate: e.target.value || undefined })} className={`${inputClass} ${isOverdue(item) ? '!border-red-500 !text-red-400' : ''}`} /></label>
+      </div>
+      {contacts.length === 0 ? (
+        <label className="block"><span className={labelClass}>Owner</span><input value={item.assignee || ''} onChange={e => onChange({ assignee: e.target.value || undefined })} placeholder="Unassigned" className={inputClass} /></label>
+      ) : (
+        <div className="space-y-1.5">
+          <label className="block"><span className={labelClass}>Owner</span><select value={ownerValue} onChange={e => handleOwnerSelect(e.target.value)} className={inputClass}><option value="">Unassigned</option>{[...contacts].sort((a, b) => fullName(a).localeCompare(fullName(b))).map(c => (<option key={c.id} value={c.id}>{fullName(c)}</option>))}<option value={OTHER_OWNER}>Someone else…</option></select></label>
+          {ownerValue === OTHER_OWNER && (<input autoFocus={!item.assignee} value={item.assignee || ''} onChange={e => onChange({ assignee: e.target.value || undefined })} placeholder="Name" aria-label="Owner name" className={inputClass} />)}
+        </div>
+      )}
+      {tools.length > 0 && (
+        <div>
+          <span className={labelClass}>Tools</span>
+          <div className="flex flex-wrap gap-1">{[...tools].sort((a, b) => a.name.localeCompare(b.name)).map(tool => { const isAttached = !!item.toolIds?.includes(tool.id); return (<button key={tool.id} type="button" aria-pressed={isAttached} onClick={() => onChange(toggleToolId(item, tool.id))} className={`flex items-center gap-1 px-1.5 py-1 rounded-md text-[10px] font-bold border ${isAttached ? (tone === 'dark' ? 'bg-stone-700 border-stone-400 text-white' : 'bg-blue-50 dark:bg-slate-700 border-blue-400 text-slate-900 dark:text-white') : (tone === 'dark' ? 'border-stone-700 text-stone-400 hover:text-white' : 'border-slate-200 dark:border-slate-700 text-slate-500 hover:text-slate-900 dark:hover:text-white')}`}><ToolIcon tool={tool} className="w-3.5 h-3.5" />{tool.name}</button>); })}</div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ItemDetailsFields;
@@ -0,0 +1,118 @@
+
+import React, { useMemo, useState } from 'react';
+import { BoardItem, Contact, KanbanColumn, PlanningRoom } from '../types';
+import { HistoryMeta } from '../services/historyService';
+import { ITEM_TYPE_LABELS } from '../services/boardNavigation';
+import { computeProgress, formatProgress } from '../services/progressService';
+import { ITEM_STATUSES, STATUS_COLORS, STATUS_LABELS, formatDay, isOverdue, toDateString } from '../services/scheduleService';
+import { DEFAULT_KANBAN_COLUMNS, canRemoveColumn, createKanbanColumn, getColumnFor, getKanbanColumns, groupByColumn, moveToColumn } from '../services/kanbanService';
+import { getOwner } from '../services/contactService';
+import ProgressBar from './ProgressBar';
+import OwnerAvatar from './OwnerAvatar';
+
+interface KanbanViewProps {
+  room: PlanningRoom;
+  contacts: Contact[];
+  t: (key: string) => string;
+  onUpdateItems: (items: BoardItem[], meta: HistoryMeta) => void;
+  // Undefined restores the default one-column-per-status layout
+  onUpdateColumns: (columns: KanbanColumn[] | undefined) => void;
+  // Opens the item on the board
+  onOpenItem: (itemId: string) => void;
+}
+
+const CARD_TYPES: BoardItem['type'][] = ['sticky', 'objective', 'goal'];
+const TYPE_ACCENTS: Record<BoardItem['type'], string> = { sticky: 'border-l-yellow-300', objective: 'border-l-red-500', goal: 'border-l-slate-900 dark:border-l-white', text: 'border-l-stone-300', image: 'border-l-stone-300', 'idea-strip': 'border-l-purple-300' };
+const DRAG_TYPE = 'text/x-kanban-card';
+
+const KanbanView: React.FC<KanbanViewProps> = ({ room, contacts, t, onUpdateItems, onUpdateColumns, onOpenItem }) => {
+  const [types, setTypes] = useState<BoardItem['type'][]>(CARD_TYPES);
+  const [isConfiguring, setIsConfiguring] = useState(false);
+  const [dropColumnId, setDropColumnId] = useState<string | null>(null);
+  const today = toDateString(new Date());
+  const contactsById = useMemo(() => new Map(contacts.map(c => [c.id, c])), [contacts]);
+
+  const columns = getKanbanColumns(room);
+  const groups = useMemo(() => groupByColumn(room.items.filter(i => types.includes(i.type)), columns), [room.items, columns, types]);
+  const progress = useMemo(() => computeProgress(room.items, room.links), [room.items, room.links]);
+
+  const moveCard = (itemId: string, column: KanbanColumn) => {
+    const item = room.items.find(i => i.id === itemId);
+    if (!item || getColumnFor(item, columns)?.id === column.id) return;
+    onUpdateItems(room.items.map(i => i.id === itemId ? moveToColumn(i, column) : i), { action: 'edit' });
+  };
+
+  // Arrow keys move a focused card to the neighbouring column
+  const handleCardKeyDown = (e: React.KeyboardEvent, item: BoardItem, columnIndex: number) => {
+    if (e.key === 'Enter') { e.preventDefault(); onOpenItem(item.id); return; }
+    const step = e.key === 'ArrowRight' ? 1 : e.key === 'ArrowLeft' ? -1 : 0;
+    const target = columns[columnIndex + step];
+    if (!step || !target) return;
+    e.preventDefault();
+    moveCard(item.id, target);
+    requestAnimationFrame(() => (document.querySelector(`[data-card-id="${item.id}"]`) as HTMLElement | null)?.focus());
+  };
+
+  const updateColumn = (id: string, changes: Partial<KanbanColumn>) => onUpdateColumns(columns.map(c => c.id === id ? { ...c, ...changes } : c));
+  const moveColumn = (index: number, step: number) => { const next = [...columns]; const [column] = next.splice(index, 1); next.splice(index + step, 0, column); onUpdateColumns(next); };
+
+  return (
+    <div className="w-full h-full flex flex-col bg-slate-50 dark:bg-slate-900 font-sans">
+      <div className="flex items-center justify-between gap-4 px-6 py-4 border-b border-slate-200 dark:border-slate-800 bg-white dark:bg-stone-900">
+        <div className="min-w-0"><h1 className="text-xl font-black uppercase tracking-tight text-slate-900 dark:text-white">{t('kanban')}</h1><p className="text-xs text-slate-500 truncate">{room.name}</p></div>
+        <div className="flex items-center gap-2">
+          <div className="flex p-1 rounded-lg bg-slate-100 dark:bg-slate-800">{CARD_TYPES.map(type => (<button key={type} aria-pressed={types.includes(type)} onClick={() => setTypes(prev => prev.includes(type) ? prev.filter(x => x !== type) : [...prev, type])} className={`px-3 py-1 rounded-md text-xs font-bold ${types.includes(type) ? 'bg-white dark:bg-slate-700 text-slate-900 dark:text-white shadow-sm' : 'text-slate-500'}`}>{ITEM_TYPE_LABELS[type]}s</button>))}</div>
+          <button onClick={() => setIsConfiguring(open => !open)} aria-expanded={isConfiguring} className={`px-3 py-1.5 rounded-lg text-xs font-bold ${isConfiguring ? 'bg-blue-600 text-white' : 'text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800'}`}>{t('configureColumns')}</button>
+        </div>
+      </div>
+      {isConfiguring && (
+        <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-800 bg-white dark:bg-stone-900 space-y-2">
+          {columns.map((column, index) => (
+            <div key={column.id} className="flex items-center gap-2">
+              <div className="flex"><button onClick={() => moveColumn(index, -1)} disabled={index === 0} aria-label="Move left" className="px-1.5 text-sm text-slate-400 hover:text-slate-900 dark:hover:text-white disabled:opacity-20">←</button><button onClick={() => moveColumn(index, 1)} disabled={index === columns.length - 1} aria-label="Move right" className="px-1.5 text-sm text-slate-400 hover:text-slate-900 dark:hover:text-white disabled:opacity-20">→</button></div>
+              <input value={column.title} onChange={e => updateColumn(column.id, { title: e.target.value })} aria-label={t('columnTitle')} className="flex-1 max-w-xs px-3 py-1.5 rounded-lg bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-xs font-bold outline-none focus:border-blue-500" />
+              <select value={column.status} onChange={e => updateColumn(column.id, { status: e.target.value as KanbanColumn['status'] })} disabled={!canRemoveColumn(columns, column.id)} aria-label="Status" className="px-2 py-1.5 rounded-lg bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-xs outline-none disabled:opacity-60">{ITEM_STATUSES.map(status => (<option key={status} value={status}>{STATUS_LABELS[status]}</option>))}</select>
+              <input type="number" min={0} value={column.wipLimit ?? ''} onChange={e => { const limit = parseInt(e.target.value, 10); updateColumn(column.id, { wipLimit: limit > 0 ? limit : undefined }); }} placeholder={t('wipLimit')} aria-label={t('wipLimit')} className="w-24 px-2 py-1.5 rounded-lg bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-xs outline-none focus:border-blue-500" />
+              <button onClick={() => onUpdateColumns(columns.filter(c => c.id !== column.id))} disabled={!canRemoveColumn(columns, column.id)} title={canRemoveColumn(columns, column.id) ? t('removeColumn') : t('lastColumnForStatus')} className="p-1.5 rounded text-slate-400 hover:text-red-500 disabled:opacity-20 disabled:hover:text-slate-400"><svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg></button>
+            </div>
+          ))}
+          <div className="flex gap-2 pt-2">
+            <button onClick={() => onUpdateColumns([...columns, createKanbanColumn('in-progress', t('newColumn'))])} className="px-3 py-1.5 rounded-lg text-xs font-bold text-blue-600 hover:bg-blue-50 dark:hover:bg-slate-800">+ {t('addColumn')}</button>
+            <button onClick={() => onUpdateColumns(undefined)} disabled={columns === DEFAULT_KANBAN_COLUMNS} className="px-3 py-1.5 rounded-lg text-xs font-bold text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-30">{t('resetColumns')}</button>
+          </div>
+        </div>
+      )}
+      <div className="flex-1 flex gap-4 p-6 overflow-x-auto custom-scrollbar">
+        {columns.map((column, columnIndex) => {
+          const cards = groups.get(column.id) || [];
+          const overLimit = !!column.wipLimit && cards.length > column.wipLimit;
+          return (
+            <section key={column.id} aria-label={column.title} onDragOver={e => { if (e.dataTransfer.types.includes(DRAG_TYPE)) { e.preventDefault(); setDropColumnId(column.id); } }} onDragLeave={e => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropColumnId(null); }} onDrop={e => { e.preventDefault(); setDropColumnId(null); const id = e.dataTransfer.getData(DRAG_TYPE); if (id) moveCard(id, column); }} className={`w-72 flex-shrink-0 flex flex-col rounded-2xl border-2 transition-colors ${dropColumnId === column.id ? 'border-blue-500 bg-blue-50/50 dark:bg-blue-900/10' : 'border-transparent bg-slate-100 dark:bg-stone-900'}`}>
+              <header className="flex items-center gap-2 px-4 pt-4 pb-3">
+                <span className={`w-2 h-2 rounded-full ${STATUS_COLORS[column.status]}`} />
+                <h2 className="flex-1 text-xs font-black uppercase tracking-widest text-slate-600 dark:text-slate-300 truncate">{column.title || STATUS_LABELS[column.status]}</h2>
+                <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full ${overLimit ? 'bg-red-100 text-red-700' : 'bg-white dark:bg-slate-800 text-slate-500'}`}>{cards.length}{column.wipLimit ? ` / ${column.wipLimit}` : ''}</span>
+              </header>
+              <div className="flex-1 overflow-y-auto custom-scrollbar px-3 pb-3 space-y-2">
+                {cards.length === 0 && (<p className="py-6 text-center text-[10px] font-bold uppercase tracking-widest text-slate-400">{t('noCards')}</p>)}
+                {cards.map(item => (
+                  <article key={item.id} data-card-id={item.id} tabIndex={0} draggable onDragStart={e => { e.dataTransfer.setData(DRAG_TYPE, item.id); e.dataTransfer.effectAllowed = 'move'; }} onKeyDown={e => handleCardKeyDown(e, item, columnIndex)} aria-label={`${ITEM_TYPE_LABELS[item.type]}: ${item.content}`} className={`group p-3 rounded-xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 border-l-4 ${TYPE_ACCENTS[item.type]} shadow-sm cursor-grab active:cursor-grabbing outline-none focus-visible:ring-2 focus-visible:ring-blue-500`}>
+                    <div className="flex items-start justify-between gap-2">
+                      <span className="text-[9px] font-black uppercase tracking-widest text-slate-400">{ITEM_TYPE_LABELS[item.type]}</span>
+                      <button onClick={() => onOpenItem(item.id)} title={t('showOnBoard')} className="p-0.5 rounded text-slate-300 hover:text-blue-600 opacity-0 group-hover:opacity-100 focus:opacity-100"><svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M17.657 16.657L13.414 20.9a2 2 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0zM15 11a3 3 0 11-6 0 3 3 0 016 0z" /></svg></button>
+                    </div>
+                    <p className={`mt-1 text-sm font-bold leading-snug break-words ${item.isCompleted ? 'line-through text-slate-400' : 'text-slate-800 dark:text-slate-100'}`}>{item.content || 'Untitled'}</p>
+                    {item.type !== 'sticky' && progress.get(item.id) && progress.get(item.id)!.unit !== 'self' && (<ProgressBar ratio={progress.get(item.id)!.ratio} label={formatProgress(progress.get(item.id)!)} className="mt-2 text-slate-500" />)}
+                    {(item.dueDate || getOwner(item, contactsById)) && (<div className="mt-2 flex items-center justify-between gap-2">{item.dueDate ? (<span className={`px-1.5 py-0.5 rounded text-[9px] font-bold uppercase ${isOverdue(item, today) ? 'bg-red-600 text-white' : 'bg-slate-100 dark:bg-slate-700 text-slate-500 dark:text-slate-300'}`}>{isOverdue(item, today) ? 'Overdue · ' : 'Due '}{formatDay(item.dueDate)}</span>) : <span />}{getOwner(item, contactsById) && (<OwnerAvatar owner={getOwner(item, contactsById)!} />)}</div>)}
+                  </article>
+                ))}
+              </div>
+            </section>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default KanbanView;
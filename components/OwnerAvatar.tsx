@@ -0,0 +1,17 @@
+
+import React from 'react';
+import { Owner, avatarOf } from '../services/contactService';
+import { initialsOf } from '../services/scheduleService';
+
+interface OwnerAvatarProps {
+  owner: Owner;
+  // Size and border, as Tailwind classes
+  className?: string;
+}
+
+// A directory contact's photo (or generated badge); free-text owners get plain initials
+const OwnerAvatar: React.FC<OwnerAvatarProps> = ({ owner, className = 'w-5 h-5' }) => owner.contact
+  ? (<img src={avatarOf(owner.contact)} alt={owner.name} title={owner.name} className={`rounded-full object-cover flex-shrink-0 ${className}`} />)
+  : (<span title={owner.name} className={`rounded-full bg-blue-600 text-white text-[9px] font-black flex items-center justify-center flex-shrink-0 ${className}`}>{initialsOf(owner.name)}</span>);
+
+export default OwnerAvatar;
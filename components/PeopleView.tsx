@@ -0,0 +1,133 @@
+
+import React, { useMemo, useRef, useState } from 'react';
+import { Contact, CustomGroup, NewContact, PlanningRoom } from '../types';
+import { Directory, GROUP_COLORS, createGroup, fullName, getWorkByContact, removeContact, removeGroup, upsertContact } from '../services/contactService';
+import { STATUS_COLORS, getStatus } from '../services/scheduleService';
+import { downloadContacts } from '../services/contactExchangeService';
+import ContactCard from './ContactCard';
+import ContactForm from './ContactForm';
+import ContactImportDialog from './ContactImportDialog';
+import Button from './Button';
+
+interface PeopleViewProps {
+  directory: Directory;
+  rooms: PlanningRoom[];
+  t: (key: string) => string;
+  onChange: (directory: Directory) => void;
+  // Opens an assigned item on its room's board
+  onOpenItem: (roomId: string, itemId: string) => void;
+}
+
+const ALL = 'all';
+
+const PeopleView: React.FC<PeopleViewProps> = ({ directory, rooms, t, onChange, onOpenItem }) => {
+  const [groupFilter, setGroupFilter] = useState<string>(ALL);
+  const [query, setQuery] = useState('');
+  // undefined: form closed, null: new contact
+  const [editing, setEditing] = useState<Contact | null | undefined>(undefined);
+  const [isManagingGroups, setIsManagingGroups] = useState(false);
+  const [newGroupName, setNewGroupName] = useState('');
+  const [newGroupColor, setNewGroupColor] = useState(GROUP_COLORS[0]);
+  const [openWorkId, setOpenWorkId] = useState<string | null>(null);
+  const [importFile, setImportFile] = useState<{ name: string; text: string } | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const work = useMemo(() => getWorkByContact(rooms), [rooms]);
+  const visible = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    return directory.contacts
+      .filter(c => groupFilter === ALL || c.customGroups?.includes(groupFilter))
+      .filter(c => !q || [fullName(c), c.email, c.company, c.position].some(v => v.toLowerCase().includes(q)))
+      .sort((a, b) => fullName(a).localeCompare(fullName(b)));
+  }, [directory.contacts, groupFilter, query]);
+
+  const handleSubmit = (data: NewContact | Contact) => { onChange(upsertContact(directory, data)); setEditing(undefined); };
+  const updateGroup = (id: string, changes: Partial<CustomGroup>) => onChange({ ...directory, groups: directory.groups.map(g => g.id === id ? { ...g, ...changes } : g) });
+  const handleAddGroup = (e: React.FormEvent) => { e.preventDefault(); if (!newGroupName.trim()) return; onChange({ ...directory, groups: [...directory.groups, createGroup(newGroupName, newGroupColor)] }); setNewGroupName(''); };
+  const handleRemoveGroup = (id: string) => { onChange(removeGroup(directory, id)); if (groupFilter === id) setGroupFilter(ALL); };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try { setImportError(null); setImportFile({ name: file.name, text: await file.text() }); }
+    catch (error) { console.error("Error reading contacts file:", error); setImportError(t('importReadFailed')); }
+  };
+  // Exports the selected group, or everyone when no group is selected
+  const handleExport = (format: 'vcard' | 'csv') => {
+    const group = directory.groups.find(g => g.id === groupFilter);
+    downloadContacts(group ? directory.contacts.filter(c => c.customGroups?.includes(group.id)) : directory.contacts, directory.groups, format, group ? group.name : 'contacts');
+  };
+
+  const swatches = (value: string, onPick: (color: string) => void) => (
+    <div className="flex gap-1">{GROUP_COLORS.map(color => (<button key={color} type="button" onClick={() => onPick(color)} aria-label={color} aria-pressed={value === color} className={`w-4 h-4 rounded-full ${value === color ? 'ring-2 ring-offset-1 ring-slate-900 dark:ring-white dark:ring-offset-stone-900' : ''}`} style={{ backgroundColor: color }} />))}</div>
+  );
+
+  return (
+    <div className="w-full h-full flex flex-col bg-slate-50 dark:bg-slate-900 font-sans">
+      <div className="flex items-center justify-between gap-4 px-6 py-4 border-b border-slate-200 dark:border-slate-800 bg-white dark:bg-stone-900">
+        <div className="min-w-0"><h1 className="text-xl font-black uppercase tracking-tight text-slate-900 dark:text-white">{t('people')}</h1><p className={`text-xs ${importError ? 'text-red-500' : 'text-slate-500'}`}>{importError || `${directory.contacts.length} ${t('personnel').toLowerCase()}`}</p></div>
+        <div className="flex items-center gap-2">
+          <input value={query} onChange={e => setQuery(e.target.value)} placeholder={t('searchPeople')} aria-label={t('searchPeople')} className="w-56 px-3 py-1.5 rounded-lg bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-xs outline-none focus:border-blue-500" />
+          <input ref={importInputRef} type="file" accept=".vcf,.vcard,.csv,text/vcard,text/csv" className="hidden" onChange={handleImportFile} />
+          <Button size="sm" variant="secondary" onClick={() => importInputRef.current?.click()}>{t('importRoom')}</Button>
+          <div className="flex items-center rounded-xl border border-slate-200 dark:border-slate-700 overflow-hidden text-[10px] font-bold" title={directory.groups.find(g => g.id === groupFilter)?.name || t('allPeople')}><span className="px-2 text-slate-400 uppercase tracking-widest">{t('exportContacts')}</span>{(['vcard', 'csv'] as const).map(format => (<button key={format} onClick={() => handleExport(format)} disabled={directory.contacts.length === 0} className="px-2 py-1.5 border-l border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800 disabled:opacity-40">{format === 'vcard' ? 'vCard' : 'CSV'}</button>))}</div>
+          <Button size="sm" onClick={() => setEditing(null)}>+ {t('newContact')}</Button>
+        </div>
+      </div>
+      <div className="flex-1 flex min-h-0">
+        <aside className="w-60 flex-shrink-0 p-4 border-r border-slate-200 dark:border-slate-800 bg-white dark:bg-stone-900 overflow-y-auto custom-scrollbar">
+          <div className="flex items-center justify-between pb-2"><span className="text-[9px] font-black uppercase tracking-widest text-slate-400">{t('customLists')}</span><button onClick={() => setIsManagingGroups(m => !m)} aria-pressed={isManagingGroups} className={`text-[10px] font-bold ${isManagingGroups ? 'text-blue-600' : 'text-slate-400 hover:text-slate-900 dark:hover:text-white'}`}>{isManagingGroups ? t('done') : t('manage')}</button></div>
+          <button onClick={() => setGroupFilter(ALL)} className={`w-full flex items-center justify-between px-3 py-2 rounded-lg text-xs font-bold ${groupFilter === ALL ? 'bg-slate-100 dark:bg-stone-800 text-slate-900 dark:text-white' : 'text-slate-500 hover:bg-slate-50 dark:hover:bg-stone-800/60'}`}>{t('allPeople')}<span className="text-slate-400">{directory.contacts.length}</span></button>
+          {directory.groups.map(group => isManagingGroups ? (
+            <div key={group.id} className="px-3 py-2 space-y-2 border-b border-slate-100 dark:border-stone-800">
+              <div className="flex items-center gap-2"><input value={group.name} onChange={e => updateGroup(group.id, { name: e.target.value })} aria-label={t('groupName')} className="flex-1 min-w-0 px-2 py-1 rounded bg-slate-50 dark:bg-stone-800 border border-slate-200 dark:border-stone-700 text-xs outline-none focus:border-blue-500" /><button onClick={() => handleRemoveGroup(group.id)} title={t('erase')} className="text-slate-400 hover:text-red-500">×</button></div>
+              {swatches(group.color, color => updateGroup(group.id, { color }))}
+            </div>
+          ) : (
+            <button key={group.id} onClick={() => setGroupFilter(group.id)} className={`w-full flex items-center gap-2 px-3 py-2 rounded-lg text-xs font-bold ${groupFilter === group.id ? 'bg-slate-100 dark:bg-stone-800 text-slate-900 dark:text-white' : 'text-slate-500 hover:bg-slate-50 dark:hover:bg-stone-800/60'}`}><span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: group.color }} /><span className="flex-1 text-left truncate">{group.name}</span><span className="text-slate-400">{directory.contacts.filter(c => c.customGroups?.includes(group.id)).length}</span></button>
+          ))}
+          {(isManagingGroups || directory.groups.length === 0) && (
+            <form onSubmit={handleAddGroup} className="mt-3 px-3 space-y-2">
+              <input value={newGroupName} onChange={e => setNewGroupName(e.target.value)} placeholder={t('newGroup')} aria-label={t('groupName')} className="w-full px-2 py-1.5 rounded bg-slate-50 dark:bg-stone-800 border border-slate-200 dark:border-stone-700 text-xs outline-none focus:border-blue-500" />
+              <div className="flex items-center justify-between">{swatches(newGroupColor, setNewGroupColor)}<button type="submit" disabled={!newGroupName.trim()} className="text-[10px] font-bold text-blue-600 disabled:opacity-30">{t('add')}</button></div>
+            </form>
+          )}
+        </aside>
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-6">
+          {visible.length === 0 ? (
+            <div className="h-full flex items-center justify-center text-xs font-bold uppercase tracking-widest text-slate-400">{directory.contacts.length === 0 ? t('noContacts') : t('noMatchingContacts')}</div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+              {visible.map(contact => {
+                const assigned = work.get(contact.id) || []; const open = assigned.filter(a => !a.item.isCompleted).length;
+                return (
+                  <div key={contact.id} className="flex flex-col gap-2">
+                    <ContactCard contact={contact} groups={directory.groups} onEdit={setEditing} onDelete={id => onChange(removeContact(directory, id))} t={t} />
+                    <button onClick={() => setOpenWorkId(id => id === contact.id ? null : contact.id)} disabled={assigned.length === 0} aria-expanded={openWorkId === contact.id} className="flex items-center justify-between px-4 py-2 rounded-xl bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 text-[10px] font-bold uppercase tracking-widest text-slate-500 hover:text-blue-600 disabled:hover:text-slate-500 disabled:opacity-60">{assigned.length === 0 ? t('noAssignedWork') : `${open} ${t('openItems')} · ${assigned.length - open} ${t('doneItems')}`}{assigned.length > 0 && (<span>{openWorkId === contact.id ? '▴' : '▾'}</span>)}</button>
+                    {openWorkId === contact.id && (
+                      <ul className="rounded-xl bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 divide-y divide-slate-100 dark:divide-slate-800">
+                        {assigned.map(({ room, item }) => (<li key={`${room.id}-${item.id}`}><button onClick={() => onOpenItem(room.id, item.id)} className="w-full flex items-center gap-2 px-4 py-2 text-left text-xs hover:bg-slate-50 dark:hover:bg-slate-800"><span className={`w-2 h-2 rounded-full flex-shrink-0 ${STATUS_COLORS[getStatus(item)]}`} /><span className={`flex-1 truncate ${item.isCompleted ? 'line-through text-slate-400' : 'text-slate-800 dark:text-slate-100'}`}>{item.content || 'Untitled'}</span><span className="text-[10px] text-slate-400 truncate max-w-[40%]">{room.name}</span></button></li>))}
+                      </ul>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+      {editing !== undefined && (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-900/60 backdrop-blur-md p-4" onClick={() => setEditing(undefined)}>
+          <div className="bg-white dark:bg-stone-900 border border-slate-200 dark:border-stone-800 w-full max-w-2xl max-h-[90vh] overflow-y-auto custom-scrollbar rounded-[32px] p-8 shadow-2xl animate-in zoom-in-95 duration-200" onClick={e => e.stopPropagation()} role="dialog" aria-label={editing ? t('updateProfile') : t('newContact')}>
+            <ContactForm initialData={editing || undefined} availableGroups={directory.groups} onSubmit={handleSubmit} onCancel={() => setEditing(undefined)} t={t} />
+          </div>
+        </div>
+      )}
+      {importFile && (<ContactImportDialog fileName={importFile.name} text={importFile.text} directory={directory} t={t} onImport={onChange} onClose={() => setImportFile(null)} />)}
+    </div>
+  );
+};
+
+export default PeopleView;
@@ -0,0 +1,93 @@
+
+import React, { useMemo, useState } from 'react';
+import { PlanningRoom } from '../types';
+import { AiProvider } from '../services/aiService';
+import { Finding, FindingKind, ReviewFix, detectStructuralGaps, mergeFindings, reviewPlan } from '../services/planReviewService';
+import Button from './Button';
+
+interface PlanReviewPanelProps {
+  room: PlanningRoom;
+  provider: AiProvider;
+  t: (key: string) => string;
+  onApplyFix: (finding: Finding) => void;
+  onFocusItem: (itemId: string) => void;
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<FindingKind, { label: string; tone: string }> = {
+  'objective-without-tasks': { label: 'objectiveWithoutTasks', tone: 'text-red-600' },
+  'unsupported-goal': { label: 'unsupportedGoal', tone: 'text-slate-900 dark:text-white' },
+  'vague-task': { label: 'vagueTask', tone: 'text-amber-600' },
+  'missing-mitigation': { label: 'missingMitigation', tone: 'text-orange-600' },
+};
+
+// Rule checks follow the board as it changes; a model review refines them until it is run again
+const PlanReviewPanel: React.FC<PlanReviewPanelProps> = ({ room, provider, t, onApplyFix, onFocusItem, onClose }) => {
+  const [reviewed, setReviewed] = useState<Finding[]>([]);
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Findings that were fixed or dismissed; a fresh review brings back any that still apply
+  const [hidden, setHidden] = useState<Set<string>>(new Set());
+
+  const rules = useMemo(() => detectStructuralGaps(room), [room.items, room.links]);
+  const findings = useMemo(() => mergeFindings(room, rules, reviewed).filter(f => !hidden.has(f.id)), [room.items, room.links, rules, reviewed, hidden]);
+  const labelOf = (id: string) => room.items.find(i => i.id === id)?.content.replace(/\s+/g, ' ').trim() || '?';
+
+  const hide = (finding: Finding) => setHidden(prev => new Set(prev).add(finding.id));
+  const handleReview = async () => {
+    setIsReviewing(true); setError(null);
+    try {
+      setReviewed(await reviewPlan(provider, room));
+      setHidden(new Set());
+    } catch (err) {
+      setError(`${err instanceof Error ? err.message : t('reviewFailed')} ${t('showingRuleChecks')}`);
+    } finally {
+      setIsReviewing(false);
+    }
+  };
+  const handleApply = (finding: Finding) => {
+    try { setError(null); onApplyFix(finding); hide(finding); }
+    catch (err) { setError(err instanceof Error ? err.message : t('reviewFailed')); }
+  };
+
+  const describeFix = (fix: ReviewFix) => {
+    switch (fix.action) {
+      case 'add-tasks': return `${t('addTasks')}: ${fix.tasks.join(' · ')}`;
+      case 'link': return `${t('linkFrom')} “${labelOf(fix.fromId)}”`;
+      case 'rewrite': return `${t('rewriteAs')} “${fix.content}”`;
+      case 'add-mitigation': return `${t('addMitigation')} “${fix.content}” → “${labelOf(fix.targetId)}”`;
+    }
+  };
+
+  return (
+    <aside className="fixed top-24 right-6 bottom-6 z-[90] w-96 bg-white dark:bg-stone-900 border border-slate-200 dark:border-stone-800 rounded-[24px] shadow-2xl overflow-hidden flex flex-col font-sans animate-in slide-in-from-right-4 duration-200" aria-label={t('planReview')}>
+      <div className="flex items-center justify-between gap-4 px-5 py-4 border-b border-slate-100 dark:border-stone-800">
+        <div className="min-w-0"><h2 className="text-lg font-black text-slate-900 dark:text-white uppercase tracking-tight">{t('planReview')}</h2><p className="text-xs text-slate-500 truncate">{room.name}</p></div>
+        <button onClick={onClose} className="p-2 rounded-lg text-slate-400 hover:text-slate-900 dark:hover:text-white" aria-label="Close"><svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg></button>
+      </div>
+      <div className="px-5 py-3 flex items-center gap-3 border-b border-slate-100 dark:border-stone-800">
+        <Button size="sm" onClick={handleReview} isLoading={isReviewing}>{reviewed.length > 0 || error ? t('reviewAgain') : t('reviewWithAi')}</Button>
+        <span className="text-[10px] text-slate-400">{t('reviewWith')} {provider.label}</span>
+      </div>
+      {error && (<div className="px-5 py-2 bg-red-50 dark:bg-red-900/20 text-xs font-bold text-red-700 dark:text-red-300" role="alert">{error}</div>)}
+      <ul className="flex-1 overflow-y-auto custom-scrollbar p-3 space-y-2">
+        {findings.length === 0 && (<li className="p-4 text-xs text-slate-400 italic">{t('noFindings')}</li>)}
+        {findings.map(finding => (
+          <li key={finding.id} className="p-3 rounded-xl border border-slate-200 dark:border-stone-700">
+            <div className="flex items-center gap-2"><span className={`flex-1 text-[10px] font-black uppercase tracking-widest ${KIND_LABELS[finding.kind].tone}`}>{t(KIND_LABELS[finding.kind].label)}</span><span className="text-[9px] font-black uppercase tracking-widest px-1.5 py-0.5 rounded bg-slate-100 dark:bg-stone-700 text-slate-500">{finding.source === 'ai' ? provider.label : t('ruleCheck')}</span></div>
+            <p className="mt-1 text-sm font-bold text-slate-900 dark:text-white">{finding.title}</p>
+            {finding.detail && (<p className="text-xs text-slate-500">{finding.detail}</p>)}
+            <p className="mt-2 px-2 py-1.5 rounded-lg bg-green-50 dark:bg-green-900/20 text-xs text-slate-700 dark:text-slate-200">{describeFix(finding.fix)}</p>
+            <div className="mt-2 flex gap-3 text-[10px] font-bold">
+              <button onClick={() => handleApply(finding)} className="text-blue-600 hover:underline">{t('applyFix')}</button>
+              <button onClick={() => onFocusItem(finding.itemId)} className="text-blue-600 hover:underline">{t('showOnBoard')}</button>
+              <button onClick={() => hide(finding)} className="ml-auto text-slate-400 hover:text-red-500">{t('dismiss')}</button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </aside>
+  );
+};
+
+export default PlanReviewPanel;
@@ -0,0 +1,25 @@
+
+import React from 'react';
+
+interface ProgressBarProps {
+  ratio: number;
+  label?: string;
+  // Track and fill colours, as Tailwind background classes
+  trackClassName?: string;
+  fillClassName?: string;
+  className?: string;
+}
+
+const ProgressBar: React.FC<ProgressBarProps> = ({ ratio, label, trackClassName = 'bg-slate-100 dark:bg-slate-800', fillClassName = 'bg-green-500', className = '' }) => {
+  const percent = Math.round(Math.min(Math.max(ratio, 0), 1) * 100);
+  return (
+    <div className={className}>
+      <div className={`h-1.5 w-full rounded-full overflow-hidden ${trackClassName}`} role="progressbar" aria-valuemin={0} aria-valuemax={100} aria-valuenow={percent} aria-label={label}>
+        <div className={`h-full rounded-full transition-all duration-500 ${fillClassName}`} style={{ width: `${percent}%` }} />
+      </div>
+      {label && (<span className="block mt-1 text-[10px] font-bold uppercase tracking-wider opacity-70">{label}</span>)}
+    </div>
+  );
+};
+
+export default ProgressBar;
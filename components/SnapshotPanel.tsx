@@ -0,0 +1,126 @@
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { BoardItem, BoardLink, PlanningRoom } from '../types';
+import { ITEM_TYPE_LABELS } from '../services/boardNavigation';
+import { AUTO_SNAPSHOT_RETENTION_CHOICES, RoomSnapshot, SnapshotStore, countChanges, createSnapshot, diffSnapshots } from '../services/snapshotService';
+import Button from './Button';
+
+interface SnapshotPanelProps {
+  room: PlanningRoom;
+  store: SnapshotStore;
+  t: (key: string) => string;
+  onRestore: (snapshot: RoomSnapshot) => void;
+  onBranch: (snapshot: RoomSnapshot) => void;
+  onUpdateAutoSnapshot: (setting: PlanningRoom['autoSnapshot']) => void;
+  onClose: () => void;
+}
+
+const CURRENT = 'current';
+
+const labelOf = (item: BoardItem) => item.type === 'image' ? 'Image' : (item.content.replace(/\s+/g, ' ').trim() || 'Untitled');
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const SnapshotPanel: React.FC<SnapshotPanelProps> = ({ room, store, t, onRestore, onBranch, onUpdateAutoSnapshot, onClose }) => {
+  const [snapshots, setSnapshots] = useState<RoomSnapshot[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  // The diff reads from `baseId` (before) to `targetId` (after)
+  const [baseId, setBaseId] = useState<string | null>(null);
+  const [targetId, setTargetId] = useState<string>(CURRENT);
+
+  const refresh = () => store.list(room.id).then(setSnapshots).catch(err => { console.error("Error loading snapshots:", err); setError(t('snapshotsUnavailable')); });
+  useEffect(() => { refresh(); }, [room.id]);
+
+  const run = async (action: () => Promise<void>) => {
+    try { setError(null); await action(); await refresh(); }
+    catch (err) { console.error("Error updating snapshots:", err); setError(t('snapshotSaveFailed')); }
+  };
+
+  const handleTake = (e: React.FormEvent) => { e.preventDefault(); run(async () => { await store.put(createSnapshot(room, name)); setName(''); }); };
+  const handleDelete = (snapshot: RoomSnapshot) => run(async () => { await store.remove(room.id, [snapshot.id]); if (baseId === snapshot.id) setBaseId(null); if (targetId === snapshot.id) setTargetId(CURRENT); });
+  // The board as it stands is kept first, so restoring never loses work even after the undo history is gone
+  const handleRestore = (snapshot: RoomSnapshot) => run(async () => { await store.put(createSnapshot(room, `${t('beforeRestoring')} “${snapshot.name}”`)); onRestore(snapshot); });
+
+  const base = snapshots?.find(s => s.id === baseId);
+  const target = targetId === CURRENT ? { name: t('currentBoard'), items: room.items, links: room.links } : snapshots?.find(s => s.id === targetId);
+  const diff = useMemo(() => base && target ? diffSnapshots(base, target) : null, [base, target]);
+  const nameIn = (items: BoardItem[], id: string) => { const item = items.find(i => i.id === id); return item ? labelOf(item) : '?'; };
+  const linkLabel = (link: BoardLink, items: BoardItem[]) => `${nameIn(items, link.fromId)} → ${nameIn(items, link.toId)} (${link.variant})`;
+
+  const section = (title: string, count: number, tone: string, children: React.ReactNode) => count === 0 ? null : (
+    <section>
+      <h4 className={`text-[10px] font-black uppercase tracking-widest mb-2 ${tone}`}>{title} · {count}</h4>
+      <div className="space-y-1">{children}</div>
+    </section>
+  );
+  const row = (key: string, before: React.ReactNode, after: React.ReactNode) => (
+    <div key={key} className="grid grid-cols-2 gap-3 text-xs">
+      <div className={`px-3 py-2 rounded-lg ${before ? 'bg-red-50 dark:bg-red-900/20 text-slate-700 dark:text-slate-200' : ''}`}>{before}</div>
+      <div className={`px-3 py-2 rounded-lg ${after ? 'bg-green-50 dark:bg-green-900/20 text-slate-700 dark:text-slate-200' : ''}`}>{after}</div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-900/60 backdrop-blur-md p-4 font-sans" onClick={onClose}>
+      <div className="bg-white dark:bg-stone-900 border border-slate-200 dark:border-stone-800 w-full max-w-5xl h-[80vh] rounded-[32px] shadow-2xl overflow-hidden flex flex-col animate-in zoom-in-95 duration-200" onClick={e => e.stopPropagation()} role="dialog" aria-label={t('snapshots')}>
+        <div className="flex items-center justify-between gap-4 px-8 py-5 border-b border-slate-100 dark:border-stone-800">
+          <div className="min-w-0"><h2 className="text-2xl font-black text-slate-900 dark:text-white uppercase tracking-tight">{t('snapshots')}</h2><p className="text-xs text-slate-500 truncate">{room.name}</p></div>
+          <button onClick={onClose} className="p-2 rounded-lg text-slate-400 hover:text-slate-900 dark:hover:text-white" aria-label="Close"><svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg></button>
+        </div>
+        {error && (<div className="px-8 py-2 bg-red-50 dark:bg-red-900/20 text-xs font-bold text-red-700 dark:text-red-300" role="alert">{error}</div>)}
+        <div className="flex-1 flex min-h-0">
+          <div className="w-80 flex-shrink-0 flex flex-col border-r border-slate-100 dark:border-stone-800">
+            <form onSubmit={handleTake} className="p-4 flex gap-2 border-b border-slate-100 dark:border-stone-800">
+              <input value={name} onChange={e => setName(e.target.value)} placeholder={t('snapshotName')} className="flex-1 min-w-0 px-3 py-2 rounded-xl bg-slate-50 dark:bg-stone-800 border border-slate-200 dark:border-stone-700 text-xs outline-none focus:border-blue-500" />
+              <Button type="submit" size="sm">{t('takeSnapshot')}</Button>
+            </form>
+            <label className="px-4 py-3 flex items-center gap-2 text-xs text-slate-600 dark:text-slate-300 border-b border-slate-100 dark:border-stone-800">
+              <input type="checkbox" checked={!!room.autoSnapshot} onChange={e => onUpdateAutoSnapshot(e.target.checked ? { keepDays: 30 } : undefined)} />
+              <span className="flex-1">{t('dailySnapshots')}</span>
+              {room.autoSnapshot && (<select value={room.autoSnapshot.keepDays} onChange={e => onUpdateAutoSnapshot({ keepDays: Number(e.target.value) })} aria-label={t('keepFor')} className="px-2 py-1 rounded-lg bg-slate-50 dark:bg-stone-800 border border-slate-200 dark:border-stone-700 outline-none">{AUTO_SNAPSHOT_RETENTION_CHOICES.map(days => (<option key={days} value={days}>{t('keepFor')} {days} {t('daysShort')}</option>))}</select>)}
+            </label>
+            <ul className="flex-1 overflow-y-auto custom-scrollbar p-2">
+              {snapshots === null && !error && (<li className="p-4 text-xs text-slate-400">…</li>)}
+              {snapshots?.length === 0 && (<li className="p-4 text-xs text-slate-400 italic">{t('noSnapshots')}</li>)}
+              {snapshots?.map(snapshot => (
+                <li key={snapshot.id} className={`group p-3 rounded-xl cursor-pointer ${baseId === snapshot.id ? 'bg-blue-50 dark:bg-stone-800' : 'hover:bg-slate-50 dark:hover:bg-stone-800/60'}`} onClick={() => { setBaseId(snapshot.id); if (targetId === snapshot.id) setTargetId(CURRENT); }}>
+                  <div className="flex items-center gap-2"><span className="flex-1 text-sm font-bold text-slate-900 dark:text-white truncate">{snapshot.name}</span>{snapshot.kind === 'auto' && (<span className="text-[9px] font-black uppercase tracking-widest px-1.5 py-0.5 rounded bg-slate-100 dark:bg-stone-700 text-slate-500">{t('auto')}</span>)}</div>
+                  <p className="text-[10px] text-slate-400">{formatTime(snapshot.createdAt)} · {snapshot.items.length} {t('items')}, {snapshot.links.length} {t('links')}</p>
+                  <div className="mt-2 flex gap-3 text-[10px] font-bold opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+                    <button onClick={e => { e.stopPropagation(); handleRestore(snapshot); }} className="text-blue-600 hover:underline">{t('restore')}</button>
+                    <button onClick={e => { e.stopPropagation(); onBranch(snapshot); }} className="text-blue-600 hover:underline">{t('branch')}</button>
+                    <button onClick={e => { e.stopPropagation(); handleDelete(snapshot); }} className="ml-auto text-slate-400 hover:text-red-500">{t('erase')}</button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+          <div className="flex-1 min-w-0 flex flex-col">
+            {!base || !target || !diff ? (
+              <div className="flex-1 flex items-center justify-center p-8 text-center text-xs font-bold uppercase tracking-widest text-slate-400">{t('pickSnapshotToCompare')}</div>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 gap-3 px-6 py-4 border-b border-slate-100 dark:border-stone-800">
+                  <div><span className="block text-[9px] font-black uppercase tracking-widest text-slate-400">{t('before')}</span><span className="text-sm font-bold text-slate-900 dark:text-white">{base.name}</span></div>
+                  <div><span className="block text-[9px] font-black uppercase tracking-widest text-slate-400">{t('after')}</span><select value={targetId} onChange={e => setTargetId(e.target.value)} className="text-sm font-bold bg-transparent text-slate-900 dark:text-white outline-none"><option value={CURRENT}>{t('currentBoard')}</option>{snapshots!.filter(s => s.id !== base.id).map(s => (<option key={s.id} value={s.id}>{s.name}</option>))}</select></div>
+                </div>
+                <div className="flex-1 overflow-y-auto custom-scrollbar px-6 py-4 space-y-6">
+                  {countChanges(diff) === 0 && (<p className="text-xs font-bold uppercase tracking-widest text-slate-400">{t('noChanges')}</p>)}
+                  {section(t('itemsAdded'), diff.added.length, 'text-green-600', diff.added.map(item => row(item.id, null, <><b>{ITEM_TYPE_LABELS[item.type]}</b> · {labelOf(item)}</>)))}
+                  {section(t('itemsRemoved'), diff.removed.length, 'text-red-600', diff.removed.map(item => row(item.id, <><b>{ITEM_TYPE_LABELS[item.type]}</b> · {labelOf(item)}</>, null)))}
+                  {section(t('itemsEdited'), diff.edited.length, 'text-amber-600', diff.edited.map(({ before, after, fields }) => row(after.id, <>{fields.map(f => (<span key={f} className="block"><b>{f}</b>: {String(before[f] ?? '—')}</span>))}</>, <>{fields.map(f => (<span key={f} className="block"><b>{f}</b>: {String(after[f] ?? '—')}</span>))}</>)))}
+                  {section(t('itemsMoved'), diff.moved.length, 'text-blue-600', diff.moved.map(({ before, after }) => row(after.id, <>{labelOf(before)} · {Math.round(before.x)}, {Math.round(before.y)}</>, <>{labelOf(after)} · {Math.round(after.x)}, {Math.round(after.y)}</>)))}
+                  {section(t('linksAdded'), diff.linksAdded.length, 'text-green-600', diff.linksAdded.map(link => row(link.id, null, linkLabel(link, target.items))))}
+                  {section(t('linksRemoved'), diff.linksRemoved.length, 'text-red-600', diff.linksRemoved.map(link => row(link.id, linkLabel(link, base.items), null)))}
+                  {section(t('linksChanged'), diff.linksChanged.length, 'text-amber-600', diff.linksChanged.map(({ before, after }) => row(after.id, linkLabel(before, base.items), linkLabel(after, target.items))))}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SnapshotPanel;
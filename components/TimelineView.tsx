@@ -0,0 +1,172 @@
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { BoardItem, BoardLink, PlanningRoom } from '../types';
+import { HistoryMeta } from '../services/historyService';
+import { ITEM_TYPE_LABELS } from '../services/boardNavigation';
+import { STATUS_COLORS, formatDay, getStatus, isOverdue, parseDateString, toDateString } from '../services/scheduleService';
+import { DragMode, TimelineBar, addDays, buildTimeline, daysBetween, findBrokenDependencies, getBar, reschedule } from '../services/timelineService';
+
+interface TimelineViewProps {
+  room: PlanningRoom;
+  t: (key: string) => string;
+  onUpdateItems: (items: BoardItem[], meta: HistoryMeta) => void;
+  onUndo: () => void;
+  // Opens the item on the board
+  onOpenItem: (itemId: string) => void;
+}
+
+const ZOOM_LEVELS = [{ key: 'days', dayWidth: 40 }, { key: 'weeks', dayWidth: 14 }, { key: 'months', dayWidth: 4 }] as const;
+const LABEL_WIDTH = 240;
+const HEADER_HEIGHT = 48;
+const ROW_HEIGHT = 40;
+const BAR_FILLS: Record<BoardItem['type'], string> = { goal: 'bg-slate-900 dark:bg-white', objective: 'bg-red-500', sticky: 'bg-yellow-300', text: 'bg-stone-300', image: 'bg-stone-300', 'idea-strip': 'bg-purple-300' };
+
+const labelOf = (item: BoardItem) => item.content.replace(/\s+/g, ' ').trim() || 'Untitled';
+
+const TimelineView: React.FC<TimelineViewProps> = ({ room, t, onUpdateItems, onUndo, onOpenItem }) => {
+  const [zoom, setZoom] = useState(0);
+  const [drag, setDrag] = useState<{ itemId: string; mode: DragMode; originX: number; days: number } | null>(null);
+  const [warning, setWarning] = useState<{ itemId: string; links: BoardLink[] } | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const today = toDateString(new Date());
+  const dayWidth = ZOOM_LEVELS[zoom].dayWidth;
+
+  const timeline = useMemo(() => buildTimeline(room.items, room.links, today), [room.items, room.links, today]);
+  const totalDays = daysBetween(timeline.start, timeline.end) + 1;
+  const nameOf = (id: string) => { const item = room.items.find(i => i.id === id); return item ? labelOf(item) : ''; };
+
+  // The dragged bar is drawn at its preview dates, and whatever it would break is shown before the drop
+  const dragged = drag ? timeline.bars.find(b => b.item.id === drag.itemId) : undefined;
+  const previewDates = dragged && drag ? reschedule(dragged, drag.mode, drag.days) : null;
+  const brokenPreview = useMemo(() => dragged && previewDates ? new Set(findBrokenDependencies(room.items, room.links, dragged.item.id, previewDates).map(l => l.id)) : null, [dragged, previewDates?.startDate, previewDates?.dueDate, room.items, room.links]);
+  const barOf = (bar: TimelineBar) => dragged && previewDates && bar.item.id === dragged.item.id ? getBar({ ...bar.item, ...previewDates })! : bar;
+  const rowOf = useMemo(() => new Map(timeline.bars.map((b, i) => [b.item.id, i])), [timeline.bars]);
+  const xOf = (date: string) => daysBetween(timeline.start, date) * dayWidth;
+
+  const scrollToDate = (date: string) => { if (scrollRef.current) scrollRef.current.scrollLeft = Math.max(0, xOf(date) - 200); };
+  useEffect(() => { scrollToDate(today); }, [zoom]);
+  // Ctrl+wheel zooms; React's onWheel is passive, so the browser page zoom can only be cancelled from a native listener
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const handleWheel = (e: WheelEvent) => { if (!e.ctrlKey) return; e.preventDefault(); setZoom(z => Math.min(Math.max(z + (e.deltaY > 0 ? 1 : -1), 0), ZOOM_LEVELS.length - 1)); };
+    el.addEventListener('wheel', handleWheel, { passive: false });
+    return () => el.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const applyDates = (itemId: string, dates: Pick<BoardItem, 'startDate' | 'dueDate'>) => {
+    onUpdateItems(room.items.map(i => i.id === itemId ? { ...i, ...dates } : i), { action: 'edit' });
+    const broken = findBrokenDependencies(room.items, room.links, itemId, dates);
+    setWarning(broken.length > 0 ? { itemId, links: broken } : null);
+  };
+
+  const startDrag = (e: React.PointerEvent, itemId: string, mode: DragMode) => { if (e.button !== 0) return; e.stopPropagation(); e.currentTarget.setPointerCapture(e.pointerId); setDrag({ itemId, mode, originX: e.clientX, days: 0 }); };
+  const moveDrag = (e: React.PointerEvent) => { if (drag) setDrag({ ...drag, days: Math.round((e.clientX - drag.originX) / dayWidth) }); };
+  const endDrag = () => {
+    if (!drag) return;
+    if (dragged && previewDates && drag.days !== 0) applyDates(dragged.item.id, previewDates);
+    setDrag(null);
+  };
+
+  // Backlog cards are dropped onto the calendar as one-day bars
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    const itemId = e.dataTransfer.getData('text/x-timeline-item');
+    if (!itemId) return;
+    e.preventDefault();
+    const rect = e.currentTarget.getBoundingClientRect();
+    const day = Math.floor((e.clientX - rect.left - LABEL_WIDTH) / dayWidth);
+    if (day < 0) return;
+    const date = addDays(timeline.start, day);
+    applyDates(itemId, { startDate: date, dueDate: date });
+  };
+
+  const ticks = useMemo(() => Array.from({ length: totalDays }, (_, i) => addDays(timeline.start, i)).filter(date => {
+    const d = parseDateString(date);
+    return ZOOM_LEVELS[zoom].key === 'days' || (ZOOM_LEVELS[zoom].key === 'weeks' ? d.getDay() === 1 : d.getDate() === 1);
+  }), [timeline.start, totalDays, zoom]);
+  const tickLabel = (date: string) => ZOOM_LEVELS[zoom].key === 'months' ? parseDateString(date).toLocaleDateString(undefined, { month: 'short', year: 'numeric' }) : ZOOM_LEVELS[zoom].key === 'weeks' ? formatDay(date) : String(parseDateString(date).getDate());
+
+  const chartHeight = HEADER_HEIGHT + Math.max(timeline.bars.length, 1) * ROW_HEIGHT;
+  return (
+    <div className="w-full h-full flex flex-col bg-slate-50 dark:bg-slate-900 font-sans">
+      <div className="flex items-center justify-between gap-4 px-6 py-4 border-b border-slate-200 dark:border-slate-800 bg-white dark:bg-stone-900">
+        <div className="min-w-0"><h1 className="text-xl font-black uppercase tracking-tight text-slate-900 dark:text-white">{t('timeline')}</h1><p className="text-xs text-slate-500 truncate">{room.name}</p></div>
+        <div className="flex items-center gap-2">
+          <button onClick={() => scrollToDate(today)} className="px-3 py-1.5 rounded-lg text-xs font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800">{t('today')}</button>
+          <div className="flex p-1 rounded-lg bg-slate-100 dark:bg-slate-800" role="radiogroup" aria-label="Zoom">{ZOOM_LEVELS.map((level, i) => (<button key={level.key} role="radio" aria-checked={zoom === i} onClick={() => setZoom(i)} className={`px-3 py-1 rounded-md text-xs font-bold ${zoom === i ? 'bg-white dark:bg-slate-700 text-slate-900 dark:text-white shadow-sm' : 'text-slate-500'}`}>{t(level.key)}</button>))}</div>
+        </div>
+      </div>
+      {warning && (
+        <div className="flex items-start gap-3 px-6 py-3 bg-amber-50 dark:bg-amber-900/20 border-b border-amber-200 dark:border-amber-800 text-xs text-amber-900 dark:text-amber-200" role="alert">
+          <svg className="w-4 h-4 mt-0.5 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 9v2m0 4h.01M10.29 3.86L1.82 18a2 2 0 001.71 3h16.94a2 2 0 001.71-3L13.71 3.86a2 2 0 00-3.42 0z" /></svg>
+          <div className="flex-1"><p className="font-bold">"{nameOf(warning.itemId)}" {t('breaksDependencies')}</p><ul className="mt-1 space-y-0.5">{warning.links.map(link => (<li key={link.id}>"{nameOf(link.fromId)}" {t('mustFinishBefore')} "{nameOf(link.toId)}" {t('starts')}</li>))}</ul></div>
+          <button onClick={() => { onUndo(); setWarning(null); }} className="font-bold underline">{t('undo')}</button>
+          <button onClick={() => setWarning(null)} className="font-bold opacity-60 hover:opacity-100" aria-label="Dismiss">×</button>
+        </div>
+      )}
+      <div ref={scrollRef} className="flex-1 overflow-auto custom-scrollbar">
+        <div className="relative select-none" style={{ width: LABEL_WIDTH + totalDays * dayWidth, height: chartHeight }} onDragOver={e => { if (e.dataTransfer.types.includes('text/x-timeline-item')) e.preventDefault(); }} onDrop={handleDrop}>
+          <div className="sticky top-0 z-20 flex bg-white dark:bg-stone-900 border-b border-slate-200 dark:border-slate-800" style={{ height: HEADER_HEIGHT }}>
+            <div className="sticky left-0 z-10 flex items-end px-4 pb-2 bg-white dark:bg-stone-900 border-r border-slate-200 dark:border-slate-800 text-[10px] font-black uppercase tracking-widest text-slate-400" style={{ width: LABEL_WIDTH, minWidth: LABEL_WIDTH }}>{timeline.bars.length} {t('scheduled')}</div>
+            <div className="relative flex-1">{ticks.map(date => (<span key={date} className={`absolute bottom-2 text-[10px] font-bold whitespace-nowrap ${date === today ? 'text-blue-600' : 'text-slate-400'}`} style={{ left: xOf(date) + 4 }}>{ZOOM_LEVELS[zoom].key === 'days' && (parseDateString(date).getDate() === 1 || date === timeline.start) && (<span className="absolute bottom-4 left-0 text-slate-600 dark:text-slate-300">{parseDateString(date).toLocaleDateString(undefined, { month: 'short' })}</span>)}{tickLabel(date)}</span>))}</div>
+          </div>
+          <div className="absolute bottom-0 pointer-events-none" style={{ top: HEADER_HEIGHT, left: LABEL_WIDTH, right: 0 }}>
+            {ticks.map(date => (<div key={date} className={`absolute top-0 bottom-0 border-l ${ZOOM_LEVELS[zoom].key === 'days' && [0, 6].includes(parseDateString(date).getDay()) ? 'bg-slate-100/60 dark:bg-slate-800/40 border-transparent' : 'border-slate-100 dark:border-slate-800'}`} style={{ left: xOf(date), width: ZOOM_LEVELS[zoom].key === 'days' ? dayWidth : 0 }} />))}
+            <div className="absolute top-0 bottom-0 w-0.5 bg-blue-500/70" style={{ left: xOf(today) + dayWidth / 2 }} />
+          </div>
+          {timeline.bars.length === 0 && (<p className="absolute text-xs font-bold text-slate-400 uppercase tracking-widest" style={{ top: HEADER_HEIGHT + 12, left: LABEL_WIDTH + 24 }}>{t('noDatedItems')}</p>)}
+          {timeline.bars.map((bar, row) => (
+            <div key={bar.item.id} className="absolute left-0 right-0 border-b border-slate-100 dark:border-slate-800/60" style={{ top: HEADER_HEIGHT + row * ROW_HEIGHT, height: ROW_HEIGHT }}>
+              <button onClick={() => onOpenItem(bar.item.id)} title={t('openOnBoard')} className="sticky left-0 z-10 h-full flex items-center gap-2 px-4 bg-slate-50 dark:bg-slate-900 border-r border-slate-200 dark:border-slate-800 text-left hover:bg-white dark:hover:bg-stone-900" style={{ width: LABEL_WIDTH }}>
+                <span className={`w-2 h-2 rounded-full flex-shrink-0 ${STATUS_COLORS[getStatus(bar.item)]}`} />
+                <span className={`flex-1 min-w-0 text-xs font-bold truncate ${bar.item.isCompleted ? 'line-through text-slate-400' : 'text-slate-700 dark:text-slate-200'}`}>{labelOf(bar.item)}</span>
+                <span className="text-[9px] font-black uppercase text-slate-400">{ITEM_TYPE_LABELS[bar.item.type]}</span>
+              </button>
+            </div>
+          ))}
+          <svg className="absolute pointer-events-none overflow-visible" style={{ top: HEADER_HEIGHT, left: LABEL_WIDTH }} width={totalDays * dayWidth} height={chartHeight - HEADER_HEIGHT}>
+            <defs>
+              <marker id="timeline-arrow" viewBox="0 0 8 8" refX="7" refY="4" markerWidth="6" markerHeight="6" orient="auto"><path d="M0 0 L8 4 L0 8 z" fill="#94a3b8" /></marker>
+              <marker id="timeline-arrow-broken" viewBox="0 0 8 8" refX="7" refY="4" markerWidth="6" markerHeight="6" orient="auto"><path d="M0 0 L8 4 L0 8 z" fill="#ef4444" /></marker>
+            </defs>
+            {timeline.dependencies.map(({ link, isBroken }) => {
+              const from = barOf(timeline.bars[rowOf.get(link.fromId)!]); const to = barOf(timeline.bars[rowOf.get(link.toId)!]);
+              const broken = brokenPreview && (link.fromId === dragged!.item.id || link.toId === dragged!.item.id) ? brokenPreview.has(link.id) : isBroken;
+              const x1 = xOf(from.end) + dayWidth; const y1 = rowOf.get(link.fromId)! * ROW_HEIGHT + ROW_HEIGHT / 2;
+              const x2 = xOf(to.start); const y2 = rowOf.get(link.toId)! * ROW_HEIGHT + ROW_HEIGHT / 2;
+              return <path key={link.id} d={`M ${x1} ${y1} C ${x1 + 24} ${y1}, ${x2 - 24} ${y2}, ${x2} ${y2}`} fill="none" stroke={broken ? '#ef4444' : '#94a3b8'} strokeWidth={broken ? 2 : 1.5} strokeDasharray={link.variant === 'critical' ? undefined : '4 3'} markerEnd={`url(#${broken ? 'timeline-arrow-broken' : 'timeline-arrow'})`} />;
+            })}
+          </svg>
+          {timeline.bars.map((original, row) => {
+            const bar = barOf(original); const isDragging = drag?.itemId === bar.item.id;
+            const breaks = isDragging && !!brokenPreview && brokenPreview.size > 0;
+            const width = (daysBetween(bar.start, bar.end) + 1) * dayWidth;
+            const title = `${labelOf(bar.item)}: ${formatDay(bar.start)}${bar.start !== bar.end ? ` – ${formatDay(bar.end)}` : ''}`;
+            return bar.isMilestone ? (
+              <div key={bar.item.id} title={title} onPointerDown={e => startDrag(e, bar.item.id, 'move')} onPointerMove={moveDrag} onPointerUp={endDrag} onDoubleClick={() => onOpenItem(bar.item.id)} className="absolute z-10 flex items-center cursor-grab active:cursor-grabbing" style={{ top: HEADER_HEIGHT + row * ROW_HEIGHT + 10, left: LABEL_WIDTH + xOf(bar.start) + dayWidth / 2 - 10, height: 20 }}>
+                <span className={`w-5 h-5 rotate-45 border-2 ${breaks ? 'border-red-500' : isOverdue(bar.item, today) ? 'border-rose-500' : 'border-white dark:border-slate-900'} ${BAR_FILLS[bar.item.type]} ${bar.item.isCompleted ? 'opacity-50' : ''}`} />
+                <span className="ml-2 text-[10px] font-bold text-slate-500 whitespace-nowrap pointer-events-none">{labelOf(bar.item)}</span>
+              </div>
+            ) : (
+              <div key={bar.item.id} title={title} onPointerDown={e => startDrag(e, bar.item.id, 'move')} onPointerMove={moveDrag} onPointerUp={endDrag} onDoubleClick={() => onOpenItem(bar.item.id)} className={`absolute z-10 group flex items-center rounded-md shadow-sm cursor-grab active:cursor-grabbing ${BAR_FILLS[bar.item.type]} ${bar.item.isCompleted ? 'opacity-50' : ''} ${breaks ? 'ring-2 ring-red-500' : isOverdue(bar.item, today) ? 'ring-2 ring-rose-500' : ''}`} style={{ top: HEADER_HEIGHT + row * ROW_HEIGHT + 8, left: LABEL_WIDTH + xOf(bar.start), width, height: ROW_HEIGHT - 16 }}>
+                <span onPointerDown={e => startDrag(e, bar.item.id, 'start')} className="absolute left-0 top-0 bottom-0 w-2 cursor-ew-resize rounded-l-md group-hover:bg-black/10" />
+                <span className={`px-3 text-[10px] font-bold truncate pointer-events-none ${bar.item.type === 'objective' ? 'text-white' : bar.item.type === 'goal' ? 'text-white dark:text-slate-900' : 'text-slate-800'}`}>{width > 60 ? labelOf(bar.item) : ''}</span>
+                <span onPointerDown={e => startDrag(e, bar.item.id, 'end')} className="absolute right-0 top-0 bottom-0 w-2 cursor-ew-resize rounded-r-md group-hover:bg-black/10" />
+                {width <= 60 && (<span className="absolute left-full ml-2 text-[10px] font-bold text-slate-500 whitespace-nowrap pointer-events-none">{labelOf(bar.item)}</span>)}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+      <div className="border-t border-slate-200 dark:border-slate-800 bg-white dark:bg-stone-900 px-6 py-4">
+        <div className="flex items-baseline justify-between mb-3"><h2 className="text-[10px] font-black uppercase tracking-widest text-slate-400">{t('backlog')} · {timeline.backlog.length}</h2><span className="text-[10px] text-slate-400">{t('backlogHint')}</span></div>
+        <div className="flex gap-2 overflow-x-auto custom-scrollbar pb-1">
+          {timeline.backlog.length === 0 && (<p className="text-xs text-slate-400 italic">{t('backlogEmpty')}</p>)}
+          {timeline.backlog.map(item => (<div key={item.id} draggable onDragStart={e => { e.dataTransfer.setData('text/x-timeline-item', item.id); e.dataTransfer.effectAllowed = 'move'; }} onDoubleClick={() => onOpenItem(item.id)} className="flex-shrink-0 flex items-center gap-2 max-w-[220px] px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 cursor-grab"><span className={`w-2 h-2 rounded-sm flex-shrink-0 ${BAR_FILLS[item.type]}`} /><span className={`text-xs font-bold truncate ${item.isCompleted ? 'line-through text-slate-400' : 'text-slate-700 dark:text-slate-200'}`}>{labelOf(item)}</span></div>))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TimelineView;
@@ -0,0 +1,19 @@
+
+import React, { useState } from 'react';
+import { Tool } from '../types';
+import { fallbackToolIcon } from '../services/toolService';
+
+interface ToolIconProps {
+  tool: Pick<Tool, 'name' | 'iconUrl'>;
+  // Size and border, as Tailwind classes
+  className?: string;
+}
+
+// The stored favicon, or a lettered tile when there is none or it cannot load (e.g. offline)
+const ToolIcon: React.FC<ToolIconProps> = ({ tool, className = 'w-5 h-5' }) => {
+  const [failedUrl, setFailedUrl] = useState<string | null>(null);
+  const src = tool.iconUrl && tool.iconUrl !== failedUrl ? tool.iconUrl : fallbackToolIcon(tool);
+  return (<img src={src} alt="" onError={() => setFailedUrl(tool.iconUrl)} className={`rounded object-contain flex-shrink-0 ${className}`} />);
+};
+
+export default ToolIcon;
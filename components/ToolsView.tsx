@@ -0,0 +1,138 @@
+
+import React, { useMemo, useState } from 'react';
+import { NewTool, PlanningRoom, Tool } from '../types';
+import { TOOL_CATEGORIES, categoryOf, fetchFavicon, getToolUsage, groupToolsByCategory, normalizeToolUrl, removeTool, upsertTool } from '../services/toolService';
+import { STATUS_COLORS, getStatus } from '../services/scheduleService';
+import ToolIcon from './ToolIcon';
+import Button from './Button';
+
+interface ToolsViewProps {
+  tools: Tool[];
+  rooms: PlanningRoom[];
+  t: (key: string) => string;
+  onChange: (tools: Tool[]) => void;
+  // Opens an item the tool is attached to on its room's board
+  onOpenItem: (roomId: string, itemId: string) => void;
+}
+
+interface ToolFormProps {
+  initialData?: Tool;
+  categories: string[];
+  t: (key: string) => string;
+  onSubmit: (data: NewTool | Tool) => void;
+  onCancel: () => void;
+}
+
+const EMPTY_TOOL: NewTool = { name: '', description: '', url: '', iconUrl: '', category: '' };
+
+const ToolForm: React.FC<ToolFormProps> = ({ initialData, categories, t, onSubmit, onCancel }) => {
+  const [data, setData] = useState<NewTool | Tool>(initialData || EMPTY_TOOL);
+  const [isFetchingIcon, setIsFetchingIcon] = useState(false);
+  const url = normalizeToolUrl(data.url);
+  const inputClass = 'w-full px-3 py-2 rounded-xl bg-slate-50 dark:bg-stone-800 border border-slate-200 dark:border-stone-700 text-sm outline-none focus:border-blue-500';
+  const labelClass = 'block text-[9px] font-black uppercase tracking-widest text-slate-400 mb-1';
+  const update = (changes: Partial<NewTool>) => setData(current => ({ ...current, ...changes }));
+
+  const handleFetchIcon = async () => {
+    setIsFetchingIcon(true);
+    try { update({ iconUrl: await fetchFavicon(url) }); } finally { setIsFetchingIcon(false); }
+  };
+  // Icons are only looked up when asked for, since the lookup shares the address with a third party.
+  // A new address drops the icon fetched for the old one
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!data.name.trim()) return;
+    const changedUrl = url !== normalizeToolUrl(initialData?.url || '');
+    const iconUrl = changedUrl && data.iconUrl === initialData?.iconUrl ? '' : data.iconUrl;
+    onSubmit({ ...data, name: data.name.trim(), category: data.category.trim(), url: url || data.url.trim(), iconUrl });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <h2 className="text-2xl font-black text-slate-900 dark:text-white uppercase tracking-tight">{initialData ? t('editTool') : t('newTool')}</h2>
+      <div className="flex items-end gap-3">
+        <ToolIcon tool={data} className="w-12 h-12" />
+        <label className="flex-1"><span className={labelClass}>{t('toolName')}</span><input autoFocus value={data.name} onChange={e => update({ name: e.target.value })} required className={inputClass} /></label>
+      </div>
+      <label className="block"><span className={labelClass}>{t('toolUrl')}</span><div className="flex gap-2"><input value={data.url} onChange={e => update({ url: e.target.value })} placeholder="https://" className={inputClass} /><Button type="button" size="sm" variant="secondary" onClick={handleFetchIcon} disabled={!url} isLoading={isFetchingIcon} title={t('fetchIconHint')} className="whitespace-nowrap">{t('fetchIcon')}</Button></div></label>
+      <label className="block"><span className={labelClass}>{t('category')}</span><input value={data.category} onChange={e => update({ category: e.target.value })} list="tool-categories" className={inputClass} /><datalist id="tool-categories">{categories.map(c => (<option key={c} value={c} />))}</datalist></label>
+      <label className="block"><span className={labelClass}>{t('description')}</span><textarea value={data.description} onChange={e => update({ description: e.target.value })} rows={3} className={`${inputClass} resize-none`} /></label>
+      <div className="flex justify-end gap-2 pt-2"><Button type="button" variant="ghost" onClick={onCancel}>{t('discard')}</Button><Button type="submit" disabled={!data.name.trim()} isLoading={isFetchingIcon}>{initialData ? t('save') : t('add')}</Button></div>
+    </form>
+  );
+};
+
+const ToolsView: React.FC<ToolsViewProps> = ({ tools, rooms, t, onChange, onOpenItem }) => {
+  const [query, setQuery] = useState('');
+  // undefined: form closed, null: new tool
+  const [editing, setEditing] = useState<Tool | null | undefined>(undefined);
+  const [openUsageId, setOpenUsageId] = useState<string | null>(null);
+
+  const usage = useMemo(() => getToolUsage(rooms), [rooms]);
+  const categories = useMemo(() => [...new Set([...TOOL_CATEGORIES, ...tools.map(tool => tool.category.trim()).filter(Boolean)])].sort(), [tools]);
+  const grouped = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    return groupToolsByCategory(tools.filter(tool => !q || [tool.name, tool.description, tool.url, categoryOf(tool)].some(v => v.toLowerCase().includes(q))));
+  }, [tools, query]);
+
+  const handleSubmit = (data: NewTool | Tool) => { onChange(upsertTool(tools, data)); setEditing(undefined); };
+  const hostOf = (url: string) => { try { return new URL(url).hostname.replace(/^www\./, ''); } catch { return url; } };
+
+  return (
+    <div className="w-full h-full flex flex-col bg-slate-50 dark:bg-slate-900 font-sans">
+      <div className="flex items-center justify-between gap-4 px-6 py-4 border-b border-slate-200 dark:border-slate-800 bg-white dark:bg-stone-900">
+        <div className="min-w-0"><h1 className="text-xl font-black uppercase tracking-tight text-slate-900 dark:text-white">{t('tools')}</h1><p className="text-xs text-slate-500">{tools.length} {t('toolsRegistered')}</p></div>
+        <div className="flex items-center gap-2">
+          <input value={query} onChange={e => setQuery(e.target.value)} placeholder={t('searchTools')} aria-label={t('searchTools')} className="w-56 px-3 py-1.5 rounded-lg bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-xs outline-none focus:border-blue-500" />
+          <Button size="sm" onClick={() => setEditing(null)}>+ {t('newTool')}</Button>
+        </div>
+      </div>
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-6">
+        {grouped.length === 0 ? (
+          <div className="h-full flex items-center justify-center text-xs font-bold uppercase tracking-widest text-slate-400">{tools.length === 0 ? t('noTools') : t('noMatchingTools')}</div>
+        ) : (
+          <div className="space-y-8">
+            {grouped.map(([category, list]) => (
+              <section key={category}>
+                <h2 className="text-sm font-black text-slate-400 uppercase tracking-widest mb-4 flex items-center gap-2"><span className="w-2 h-2 rounded-full bg-slate-400"></span>{category}<span className="text-slate-300">{list.length}</span></h2>
+                <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+                  {list.map(tool => {
+                    const attached = usage.get(tool.id) || [];
+                    return (
+                      <div key={tool.id} className="flex flex-col rounded-2xl bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 overflow-hidden">
+                        <div className="flex items-start gap-3 p-4">
+                          <ToolIcon tool={tool} className="w-10 h-10" />
+                          <div className="flex-1 min-w-0">
+                            <p className="font-bold text-slate-900 dark:text-white truncate">{tool.name}</p>
+                            {tool.url && (<a href={tool.url} target="_blank" rel="noopener noreferrer" className="block text-[11px] text-blue-600 hover:underline truncate">{hostOf(tool.url)}</a>)}
+                            {tool.description && (<p className="mt-1 text-xs text-slate-500 line-clamp-2">{tool.description}</p>)}
+                          </div>
+                          <div className="flex gap-1"><button onClick={() => setEditing(tool)} title={t('editTool')} className="p-1.5 rounded-lg text-slate-400 hover:text-slate-900 dark:hover:text-white hover:bg-slate-100 dark:hover:bg-slate-800"><svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" /></svg></button><button onClick={() => onChange(removeTool(tools, tool.id))} title={t('erase')} className="p-1.5 rounded-lg text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20"><svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg></button></div>
+                        </div>
+                        <button onClick={() => setOpenUsageId(id => id === tool.id ? null : tool.id)} disabled={attached.length === 0} aria-expanded={openUsageId === tool.id} className="flex items-center justify-between px-4 py-2 border-t border-slate-100 dark:border-slate-800 text-[10px] font-bold uppercase tracking-widest text-slate-500 hover:text-blue-600 disabled:hover:text-slate-500 disabled:opacity-60">{attached.length === 0 ? t('notAttached') : `${t('attachedTo')} ${attached.length} ${t('items')}`}{attached.length > 0 && (<span>{openUsageId === tool.id ? '▴' : '▾'}</span>)}</button>
+                        {openUsageId === tool.id && (
+                          <ul className="border-t border-slate-100 dark:border-slate-800 divide-y divide-slate-100 dark:divide-slate-800">
+                            {attached.map(({ room, item }) => (<li key={`${room.id}-${item.id}`}><button onClick={() => onOpenItem(room.id, item.id)} className="w-full flex items-center gap-2 px-4 py-2 text-left text-xs hover:bg-slate-50 dark:hover:bg-slate-800"><span className={`w-2 h-2 rounded-full flex-shrink-0 ${STATUS_COLORS[getStatus(item)]}`} /><span className="flex-1 truncate text-slate-800 dark:text-slate-100">{item.content || 'Untitled'}</span><span className="text-[10px] text-slate-400 truncate max-w-[40%]">{room.name}</span></button></li>))}
+                          </ul>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </section>
+            ))}
+          </div>
+        )}
+      </div>
+      {editing !== undefined && (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-900/60 backdrop-blur-md p-4" onClick={() => setEditing(undefined)}>
+          <div className="bg-white dark:bg-stone-900 border border-slate-200 dark:border-stone-800 w-full max-w-lg max-h-[90vh] overflow-y-auto custom-scrollbar rounded-[32px] p-8 shadow-2xl animate-in zoom-in-95 duration-200" onClick={e => e.stopPropagation()} role="dialog" aria-label={editing ? t('editTool') : t('newTool')}>
+            <ToolForm initialData={editing || undefined} categories={categories} t={t} onSubmit={handleSubmit} onCancel={() => setEditing(undefined)} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ToolsView;
@@ -49,6 +49,8 @@ export const TRANSLATIONS: Record<AppLanguage, Record<string, string>> = {
     totalGoals: "Total Goals",
     activeObjectives: "Active Objectives",
     pendingTasks: "Pending Tasks",
+    tasksDone: "tasks done",
+    overallProgress: "Overall Progress",
     latestProject: "Latest Project",
     lastEdited: "Last edited just now",
     items: "items",
@@ -78,6 +80,184 @@ export const TRANSLATIONS: Record<AppLanguage, Record<string, string>> = {
     yourRooms: "Your Planning Rooms",
     noRooms: "No active planning rooms. Start your first mission below.",
     newMission: "New Mission",
-    deleteRoom: "Delete Room"
+    deleteRoom: "Delete Room",
+    storageFull: "Storage is full. Recent changes were not saved; remove large images to free space.",
+    saveFailed: "Recent changes could not be saved.",
+    roomsLoadFailed: "Your saved rooms could not be read. Changes will not be saved until the app is reloaded.",
+    contactsLoadFailed: "Contacts could not be loaded, so changes to them will not be saved. Reload to try again.",
+    toolsLoadFailed: "Tools could not be loaded, so changes to them will not be saved. Reload to try again.",
+    links: "links",
+    exportRoom: "Export Room",
+    importRoom: "Import",
+    importComplete: "Room Imported",
+    importFailed: "Import Failed",
+    exportFailed: "Export Failed",
+    importDroppedItems: "malformed items were skipped.",
+    importMissingAssets: "embedded images were missing from the bundle.",
+    importDanglingLinks: "links pointed at missing items and were skipped",
+    missing: "missing",
+    achieved: "Achieved",
+    keyDependencies: "Key Dependencies",
+    for: "For",
+    copyMarkdown: "Copy Markdown",
+    copied: "Copied",
+    exportMarkdown: "Markdown",
+    exportHtml: "HTML",
+    printPdf: "Print / PDF",
+    dependencyAnalysis: "Dependency Analysis",
+    criticalPaths: "Critical Paths",
+    remaining: "remaining",
+    dependencyCycles: "Dependency Cycles",
+    blockedItems: "Blocked Items",
+    blockedBy: "Blocked by",
+    orphanItems: "Unlinked Items",
+    noDependencyIssues: "No cycles, blocked work or unlinked items.",
+    timeline: "Timeline",
+    today: "Today",
+    days: "Days",
+    weeks: "Weeks",
+    months: "Months",
+    scheduled: "scheduled",
+    noDatedItems: "Nothing is scheduled yet. Drag items up from the backlog or give them dates on the board.",
+    openOnBoard: "Open on board",
+    breaksDependencies: "now breaks a dependency:",
+    mustFinishBefore: "has to finish before",
+    starts: "starts",
+    undo: "Undo",
+    backlog: "Backlog",
+    backlogHint: "Drag onto the calendar to schedule",
+    backlogEmpty: "Every task, objective and goal has a date.",
+    kanban: "Kanban",
+    configureColumns: "Columns",
+    columnTitle: "Column title",
+    wipLimit: "WIP limit",
+    removeColumn: "Remove column",
+    lastColumnForStatus: "The only column for this status",
+    newColumn: "Review",
+    addColumn: "Add column",
+    resetColumns: "Reset to defaults",
+    noCards: "No cards",
+    showOnBoard: "Show on board",
+    snapshots: "Snapshots",
+    snapshotName: "Snapshot name",
+    takeSnapshot: "Take snapshot",
+    dailySnapshots: "Daily snapshot when the board changed",
+    keepFor: "Keep",
+    daysShort: "days",
+    noSnapshots: "No snapshots yet. Take one before a review to compare against later.",
+    snapshotsUnavailable: "Snapshots could not be loaded.",
+    snapshotSaveFailed: "The snapshot could not be saved.",
+    beforeRestoring: "Before restoring",
+    auto: "Auto",
+    restore: "Restore",
+    branch: "Branch",
+    pickSnapshotToCompare: "Pick a snapshot to compare",
+    before: "Before",
+    after: "After",
+    currentBoard: "Current board",
+    noChanges: "No changes",
+    itemsAdded: "Added",
+    itemsRemoved: "Removed",
+    itemsEdited: "Edited",
+    itemsMoved: "Moved",
+    linksAdded: "Links added",
+    linksRemoved: "Links removed",
+    linksChanged: "Links changed",
+    collaboration: "Collaboration",
+    syncingTabs: "Live with other tabs in this browser",
+    connectedToRelay: "Live via relay",
+    connecting: "Connecting…",
+    offline: "Not syncing",
+    here: "In this room",
+    you: "you",
+    selected: "selected",
+    yourName: "Your name",
+    cursorColor: "Cursor colour",
+    relayUrl: "Relay URL",
+    connect: "Connect",
+    relayHint: "Leave empty to sync only between tabs. Run `npm run relay` for a local relay.",
+    people: "People",
+    searchPeople: "Search people",
+    newContact: "New contact",
+    allPeople: "Everyone",
+    manage: "Manage",
+    done: "Done",
+    groupName: "Group name",
+    newGroup: "New group",
+    add: "Add",
+    noContacts: "No contacts yet. Add the people who carry out the plan.",
+    noMatchingContacts: "Nobody matches",
+    noAssignedWork: "No assigned work",
+    openItems: "open",
+    doneItems: "done",
+    importContacts: "Import contacts",
+    exportContacts: "Export",
+    contactsImported: "Contacts imported",
+    contactsAdded: "added",
+    contactsMerged: "merged",
+    contactsSkipped: "skipped",
+    nothingToImport: "No contacts found in this file",
+    mapColumnsHint: "Choose which contact field each column fills. A name or email column is required.",
+    column: "Column",
+    importAs: "Import as",
+    preview: "Preview",
+    dontImport: "Don't import",
+    matchesContact: "Matches",
+    mergeContact: "Merge",
+    addAsNew: "Add as new",
+    skip: "Skip",
+    keepExisting: "Keep existing",
+    useImported: "Use imported",
+    toAdd: "to add",
+    toMerge: "to merge",
+    toSkip: "to skip",
+    back: "Back",
+    continue: "Continue",
+    importReadFailed: "The file could not be read.",
+    tools: "Tools",
+    toolsRegistered: "tools registered",
+    searchTools: "Search tools",
+    newTool: "New tool",
+    editTool: "Edit tool",
+    toolName: "Name",
+    toolUrl: "Website",
+    fetchIcon: "Fetch icon",
+    fetchIconHint: "Looks the icon up with Google's favicon service, which sees this tool's address.",
+    category: "Category",
+    description: "Description",
+    save: "Save",
+    noTools: "No tools yet. Register the apps and resources the team works with.",
+    noMatchingTools: "No tools match",
+    notAttached: "Not attached to any item",
+    attachedTo: "Attached to",
+    tooling: "Tooling",
+    usedBy: "Used by",
+    noToolsAttached: "No tools are attached to this room's items.",
+    draftWithAi: "Draft with AI",
+    redraft: "Draft again",
+    draftWith: "Turns the description into goals, objectives and tasks using",
+    draftFailed: "The draft could not be created.",
+    reviewDraft: "Proposed board",
+    discardDraft: "Discard draft",
+    selectAll: "Select all",
+    deselectAll: "Deselect all",
+    planReview: "Plan review",
+    reviewWithAi: "Review with AI",
+    reviewAgain: "Review again",
+    reviewWith: "Checks the board for gaps using",
+    reviewFailed: "The review could not be completed.",
+    showingRuleChecks: "Showing the built-in checks only.",
+    noFindings: "No gaps found on this board.",
+    ruleCheck: "Built-in",
+    objectiveWithoutTasks: "Objective without tasks",
+    unsupportedGoal: "Unsupported goal",
+    vagueTask: "Vague task",
+    missingMitigation: "Missing mitigation",
+    addTasks: "Add tasks",
+    linkFrom: "Link from",
+    rewriteAs: "Rename to",
+    addMitigation: "Add mitigation",
+    applyFix: "Apply fix",
+    dismiss: "Dismiss"
   }
 };
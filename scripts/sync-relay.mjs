@@ -0,0 +1,80 @@
+// Minimal WebSocket relay for trying real-time collaboration locally: every text message a client sends
+// is forwarded to all other connected clients. No persistence, no auth; not meant for production.
+//
+//   npm run relay            (listens on ws://localhost:8787)
+//   PORT=9000 npm run relay
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+
+const PORT = Number(process.env.PORT) || 8787;
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_PAYLOAD = 16 * 1024 * 1024;
+
+const clients = new Set();
+
+const frame = (opcode, payload) => {
+  const length = payload.length;
+  const header = length < 126 ? Buffer.from([0x80 | opcode, length])
+    : length < 65536 ? Buffer.from([0x80 | opcode, 126, length >> 8, length & 0xff])
+    : (() => { const h = Buffer.alloc(10); h[0] = 0x80 | opcode; h[1] = 127; h.writeBigUInt64BE(BigInt(length), 2); return h; })();
+  return Buffer.concat([header, payload]);
+};
+
+// Reads complete frames off the front of `buffer`; returns the frames and whatever is left over
+const readFrames = (buffer) => {
+  const frames = [];
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const fin = (buffer[offset] & 0x80) !== 0;
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let cursor = offset + 2;
+    if (length === 126) { if (buffer.length < cursor + 2) break; length = buffer.readUInt16BE(cursor); cursor += 2; }
+    else if (length === 127) { if (buffer.length < cursor + 8) break; length = Number(buffer.readBigUInt64BE(cursor)); cursor += 8; }
+    if (length > MAX_PAYLOAD) throw new Error('Frame too large');
+    const maskLength = masked ? 4 : 0;
+    if (buffer.length < cursor + maskLength + length) break;
+    const mask = masked ? buffer.subarray(cursor, cursor + 4) : null;
+    const payload = Buffer.from(buffer.subarray(cursor + maskLength, cursor + maskLength + length));
+    if (mask) for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    frames.push({ fin, opcode, payload });
+    offset = cursor + maskLength + length;
+  }
+  return { frames, rest: buffer.subarray(offset) };
+};
+
+const server = createServer((_req, res) => { res.writeHead(426, { 'Content-Type': 'text/plain' }); res.end('WebSocket relay: connect with ws://\n'); });
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (!key || req.headers.upgrade?.toLowerCase() !== 'websocket') { socket.destroy(); return; }
+  const accept = createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write(['HTTP/1.1 101 Switching Protocols', 'Upgrade: websocket', 'Connection: Upgrade', `Sec-WebSocket-Accept: ${accept}`, '', ''].join('\r\n'));
+  clients.add(socket);
+  console.log(`client connected (${clients.size})`);
+
+  let pending = Buffer.alloc(0);
+  // Fragmented text messages are collected until their final frame
+  let message = [];
+  socket.on('data', (chunk) => {
+    let frames;
+    try { ({ frames, rest: pending } = readFrames(Buffer.concat([pending, chunk]))); }
+    catch { socket.destroy(); return; }
+    for (const { fin, opcode, payload } of frames) {
+      if (opcode === 0x8) { socket.end(frame(0x8, Buffer.alloc(0))); return; }
+      if (opcode === 0x9) { socket.write(frame(0xa, payload)); continue; }
+      if (opcode !== 0x1 && opcode !== 0x0) continue;
+      message.push(payload);
+      if (!fin) continue;
+      const out = frame(0x1, Buffer.concat(message));
+      message = [];
+      for (const client of clients) if (client !== socket && client.writable) client.write(out);
+    }
+  });
+  const drop = () => { if (clients.delete(socket)) console.log(`client left (${clients.size})`); };
+  socket.on('close', drop);
+  socket.on('error', drop);
+});
+
+server.listen(PORT, () => console.log(`sync relay listening on ws://localhost:${PORT}`));
@@ -0,0 +1,41 @@
+import { createGeminiProvider, hasGeminiApiKey } from "./geminiService";
+import { createMockAiProvider } from "./mockAiProvider";
+
+// Model access sits behind this interface so features never depend on a particular vendor,
+// and the offline mock can stand in for the real model in development and tests
+export interface AiRequest {
+  // Which feature is asking, e.g. 'board-draft'; the mock answers per task
+  task: string;
+  // Prompt template version, recorded so results can be traced back to the wording that produced them
+  promptVersion: string;
+  prompt: string;
+  // JSON Schema the response must follow
+  schema: object;
+  // The structured values the prompt was built from
+  input: unknown;
+}
+
+export interface AiProvider {
+  id: string;
+  label: string;
+  // Resolves with the parsed JSON response; rejects with a user-facing message
+  generateJson(request: AiRequest): Promise<unknown>;
+}
+
+// A prompt template with its version and the response contract; bump `version` whenever the wording or schema changes
+export interface PromptDefinition<Input, Output> {
+  task: string;
+  version: string;
+  schema: object;
+  build(input: Input): string;
+  // Throws a user-facing error when the response cannot be used
+  validate(raw: unknown): Output;
+}
+
+export const runPrompt = async <Input, Output>(provider: AiProvider, definition: PromptDefinition<Input, Output>, input: Input): Promise<Output> => {
+  const raw = await provider.generateJson({ task: definition.task, promptVersion: definition.version, prompt: definition.build(input), schema: definition.schema, input });
+  return definition.validate(raw);
+};
+
+// Gemini when an API key is configured, the offline mock otherwise
+export const createDefaultAiProvider = (): AiProvider => hasGeminiApiKey() ? createGeminiProvider() : createMockAiProvider();
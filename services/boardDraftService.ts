@@ -0,0 +1,138 @@
+import { BoardItem, BoardLink } from "../types";
+import { AiProvider, PromptDefinition, runPrompt } from "./aiService";
+import { layoutHierarchical } from "./layoutService";
+import { isRecord } from "./storageService";
+
+// A proposed board as the model returns it: items refer to each other by short keys, not board ids
+export type DraftItemType = 'goal' | 'objective' | 'sticky' | 'idea-strip';
+
+export interface DraftItem {
+  key: string;
+  type: DraftItemType;
+  content: string;
+}
+
+export interface DraftLink {
+  from: string;
+  to: string;
+  variant: BoardLink['variant'];
+}
+
+export interface BoardDraft {
+  items: DraftItem[];
+  links: DraftLink[];
+}
+
+export interface BoardDraftInput {
+  name: string;
+  brief: string;
+}
+
+export const BOARD_DRAFT_TASK = 'board-draft';
+
+const DRAFT_ITEM_TYPES: DraftItemType[] = ['goal', 'objective', 'sticky', 'idea-strip'];
+const LINK_VARIANTS: BoardLink['variant'][] = ['critical', 'positive', 'alternative', 'neutral'];
+const MAX_ITEMS = 40;
+const MAX_CONTENT_LENGTH = 160;
+
+export const BOARD_DRAFT_SCHEMA = {
+  type: 'object',
+  properties: {
+    items: {
+      type: 'array',
+      maxItems: MAX_ITEMS,
+      items: {
+        type: 'object',
+        properties: {
+          key: { type: 'string', description: 'Short unique identifier, e.g. "g1", "o2", "t5"' },
+          type: { type: 'string', enum: DRAFT_ITEM_TYPES },
+          content: { type: 'string', description: 'The card text, at most one short sentence' },
+        },
+        required: ['key', 'type', 'content'],
+      },
+    },
+    links: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          from: { type: 'string' },
+          to: { type: 'string' },
+          variant: { type: 'string', enum: LINK_VARIANTS },
+        },
+        required: ['from', 'to', 'variant'],
+      },
+    },
+  },
+  required: ['items', 'links'],
+};
+
+export const buildBoardDraftPrompt = ({ name, brief }: BoardDraftInput) => `You are a planning assistant. Turn the mission brief below into a planning board.
+
+Mission: ${name}
+Brief: ${brief}
+
+Return JSON with "items" and "links".
+- Items: 1-2 "goal" (the outcomes that define success), 2-5 "objective" (workstreams), 2-4 "sticky" tasks per objective (concrete actions), and up to 4 "idea-strip" (open ideas or risks).
+- Links point downstream: objective -> task -> goal. Every task has one link from its objective and one link to the goal it serves. Ideas may link to the task they inform.
+- Link variants: "critical" for work on the critical path, "positive" for supporting contributions, "alternative" for optional routes, "neutral" otherwise.
+- Keep every card under ${MAX_CONTENT_LENGTH} characters. Write in the language of the brief. Do not invent facts the brief does not support.`;
+
+// Rejects responses that are not a board at all; individual bad entries are dropped so one odd card never loses the rest
+export const validateBoardDraft = (raw: unknown): BoardDraft => {
+  if (!isRecord(raw) || !Array.isArray(raw.items)) throw new Error('The model response is not a board draft.');
+  const seen = new Set<string>();
+  const items: DraftItem[] = raw.items
+    .filter(isRecord)
+    .map(item => ({ key: typeof item.key === 'string' ? item.key.trim() : '', type: item.type as DraftItemType, content: typeof item.content === 'string' ? item.content.replace(/\s+/g, ' ').trim().slice(0, MAX_CONTENT_LENGTH) : '' }))
+    .filter(item => {
+      if (!item.key || !item.content || !DRAFT_ITEM_TYPES.includes(item.type) || seen.has(item.key)) return false;
+      seen.add(item.key);
+      return true;
+    })
+    .slice(0, MAX_ITEMS);
+  if (items.length === 0) throw new Error('The model did not propose any usable items.');
+
+  const keys = new Set(items.map(i => i.key));
+  const linkIds = new Set<string>();
+  const links: DraftLink[] = (Array.isArray(raw.links) ? raw.links : [])
+    .filter(isRecord)
+    .map(link => ({ from: String(link.from ?? ''), to: String(link.to ?? ''), variant: LINK_VARIANTS.includes(link.variant as BoardLink['variant']) ? link.variant as BoardLink['variant'] : 'neutral' }))
+    .filter(link => {
+      const id = `${link.from}>${link.to}`;
+      if (link.from === link.to || !keys.has(link.from) || !keys.has(link.to) || linkIds.has(id)) return false;
+      linkIds.add(id);
+      return true;
+    });
+  return { items, links };
+};
+
+export const BOARD_DRAFT_PROMPT: PromptDefinition<BoardDraftInput, BoardDraft> = {
+  task: BOARD_DRAFT_TASK,
+  version: 'board-draft/1',
+  schema: BOARD_DRAFT_SCHEMA,
+  build: buildBoardDraftPrompt,
+  validate: validateBoardDraft,
+};
+
+export const requestBoardDraft = (provider: AiProvider, input: BoardDraftInput): Promise<BoardDraft> => runPrompt(provider, BOARD_DRAFT_PROMPT, input);
+
+// Where the laid-out draft's top-left corner lands on the new board
+const ORIGIN = { x: 100, y: 100 };
+
+// Turns the kept part of a draft into board items and links, laid out top-down along the links
+export const materializeDraft = (draft: BoardDraft, keptKeys: Set<string>): { items: BoardItem[]; links: BoardLink[] } => {
+  const newId = () => Math.random().toString(36).substr(2, 9);
+  const ids = new Map<string, string>();
+  const placed: BoardItem[] = draft.items.filter(d => keptKeys.has(d.key)).map(d => {
+    ids.set(d.key, newId());
+    return { id: ids.get(d.key)!, type: d.type, content: d.content, x: 0, y: 0, ...(d.type === 'sticky' ? { color: 'bg-yellow-200' } : {}), ...(d.type !== 'idea-strip' ? { isCompleted: false } : {}) };
+  });
+  const links: BoardLink[] = draft.links
+    .filter(l => ids.has(l.from) && ids.has(l.to))
+    .map(l => ({ id: newId(), fromId: ids.get(l.from)!, toId: ids.get(l.to)!, variant: l.variant }));
+  const layout = layoutHierarchical(placed, links);
+  const positioned = placed.map(item => ({ ...item, ...layout.get(item.id) }));
+  const minX = Math.min(...positioned.map(i => i.x)); const minY = Math.min(...positioned.map(i => i.y));
+  return { items: positioned.map(item => ({ ...item, x: Math.round(item.x - minX + ORIGIN.x), y: Math.round(item.y - minY + ORIGIN.y) })), links };
+};
@@ -0,0 +1,39 @@
+import { BoardItem, BoardLink } from "../types";
+
+export type CompletionFilter = 'all' | 'open' | 'done';
+
+// Empty lists mean "no restriction" for that dimension
+export interface BoardFilter {
+  types: BoardItem['type'][];
+  completion: CompletionFilter;
+  linkVariants: BoardLink['variant'][];
+  // Owner keys as returned by getOwnerKey
+  owners: string[];
+}
+
+export const EMPTY_FILTER: BoardFilter = { types: [], completion: 'all', linkVariants: [], owners: [] };
+
+export const UNASSIGNED_OWNER = '';
+// A contact id, or the free-text owner's name (case-insensitive) for people outside the directory
+export const getOwnerKey = (item: BoardItem) => item.assigneeId || (item.assignee?.trim() ? `name:${item.assignee.trim().toLowerCase()}` : UNASSIGNED_OWNER);
+
+export const isFilterActive = (filter: BoardFilter) => filter.types.length > 0 || filter.completion !== 'all' || filter.linkVariants.length > 0 || filter.owners.length > 0;
+
+export const toggleInList = <T,>(list: T[], value: T): T[] => list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+// Ids of the items that pass every active dimension; an item passes the link filter if any of its links has a chosen variant
+export const getMatchingItemIds = (items: BoardItem[], links: BoardLink[], filter: BoardFilter): Set<string> => {
+  const linkedByVariant = new Set<string>();
+  if (filter.linkVariants.length > 0) links.forEach(link => { if (filter.linkVariants.includes(link.variant)) { linkedByVariant.add(link.fromId); linkedByVariant.add(link.toId); } });
+  return new Set(items.filter(item => {
+    if (filter.types.length > 0 && !filter.types.includes(item.type)) return false;
+    if (filter.completion === 'done' && !item.isCompleted) return false;
+    if (filter.completion === 'open' && item.isCompleted) return false;
+    if (filter.linkVariants.length > 0 && !linkedByVariant.has(item.id)) return false;
+    if (filter.owners.length > 0 && !filter.owners.includes(getOwnerKey(item))) return false;
+    return true;
+  }).map(item => item.id));
+};
+
+export const linkMatchesFilter = (link: BoardLink, matchingIds: Set<string>, filter: BoardFilter) =>
+  (filter.linkVariants.length === 0 || filter.linkVariants.includes(link.variant)) && matchingIds.has(link.fromId) && matchingIds.has(link.toId);
@@ -0,0 +1,79 @@
+import { BoardItem, BoardLink, PlanningRoom } from "../types";
+import { computeLinkPaths, getItemDimensions, getItemRect, rectsIntersect } from "./boardGeometry";
+import { createSpatialIndex, expandRect } from "./spatialIndex";
+
+// Small seeded PRNG (mulberry32) so a given size always produces the same board
+const createRandom = (seed: number) => () => {
+  seed |= 0; seed = (seed + 0x6D2B79F5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const STICKY_COLORS = ['bg-yellow-200', 'bg-pink-200', 'bg-blue-200', 'bg-green-200'];
+
+// A large, realistically shaped room: clusters of one goal, a few objectives and many tasks, linked task → objective → goal
+export const generateLargeBoard = (itemCount: number, seed = 1): PlanningRoom => {
+  const random = createRandom(seed);
+  const items: BoardItem[] = [];
+  const links: BoardLink[] = [];
+  const clusterSize = 40;
+  const clusterCount = Math.max(1, Math.ceil(itemCount / clusterSize));
+  const columns = Math.ceil(Math.sqrt(clusterCount));
+  let n = 0;
+  const link = (fromId: string, toId: string, variant: BoardLink['variant']) => links.push({ id: `bench-link-${links.length}`, fromId, toId, variant });
+
+  for (let c = 0; c < clusterCount && n < itemCount; c++) {
+    const originX = (c % columns) * 2600; const originY = Math.floor(c / columns) * 2200;
+    const goal: BoardItem = { id: `bench-${n++}`, type: 'goal', content: `Goal ${c + 1}`, x: originX + 1100, y: originY, isCompleted: false };
+    items.push(goal);
+    const objectives: BoardItem[] = [];
+    for (let o = 0; o < 4 && n < itemCount; o++) {
+      const objective: BoardItem = { id: `bench-${n++}`, type: 'objective', content: `Objective ${c + 1}.${o + 1}`, x: originX + o * 620, y: originY + 400, isCompleted: random() < 0.3 };
+      items.push(objective); objectives.push(objective);
+      link(objective.id, goal.id, 'critical');
+    }
+    for (let t = 0; n < itemCount && t < clusterSize - 5; t++) {
+      const type: BoardItem['type'] = random() < 0.85 ? 'sticky' : 'idea-strip';
+      const task: BoardItem = { id: `bench-${n++}`, type, content: `${type === 'sticky' ? 'Task' : 'Idea'} ${c + 1}.${t + 1}`, x: originX + (t % 7) * 340 + random() * 40, y: originY + 800 + Math.floor(t / 7) * 260 + random() * 40, color: type === 'sticky' ? STICKY_COLORS[Math.floor(random() * STICKY_COLORS.length)] : undefined, isCompleted: random() < 0.4 };
+      items.push(task);
+      if (objectives.length > 0 && random() < 0.9) link(task.id, objectives[Math.floor(random() * objectives.length)].id, random() < 0.8 ? 'positive' : 'alternative');
+    }
+  }
+
+  const now = Date.now();
+  return { id: `benchmark-${itemCount}-${seed}`, name: `Benchmark (${items.length} items)`, description: 'Generated board for performance testing.', createdAt: now, updatedAt: now, items, links, themeColor: 'amber' };
+};
+
+export const isBenchmarkRoom = (room: PlanningRoom) => room.id.startsWith('benchmark-');
+
+export interface BenchmarkRow {
+  items: number;
+  links: number;
+  buildIndexMs: number;
+  viewportQueryMs: number;
+  overlapNaiveMs: number;
+  overlapIndexedMs: number;
+  linkPathsMs: number;
+}
+
+const time = (run: () => void) => { const start = performance.now(); run(); return Math.round((performance.now() - start) * 100) / 100; };
+
+// Compares the naive O(n) overlap scan with the spatial index, plus the per-render costs the board pays
+export const runBoardBenchmark = (sizes: number[] = [500, 2000, 5000], probes = 200): BenchmarkRow[] => sizes.map(size => {
+  const room = generateLargeBoard(size);
+  const { w, h } = getItemDimensions('sticky');
+  const random = createRandom(size);
+  const bounds = room.items.reduce((acc, item) => ({ w: Math.max(acc.w, item.x), h: Math.max(acc.h, item.y) }), { w: 0, h: 0 });
+  const points = Array.from({ length: probes }, () => ({ x: random() * bounds.w, y: random() * bounds.h }));
+  let index = createSpatialIndex(room.items);
+  return {
+    items: room.items.length,
+    links: room.links.length,
+    buildIndexMs: time(() => { index = createSpatialIndex(room.items); }),
+    viewportQueryMs: time(() => points.forEach(p => index.query({ x: p.x, y: p.y, w: 1920, h: 1080 }))),
+    overlapNaiveMs: time(() => points.forEach(p => room.items.some(item => rectsIntersect(expandRect(getItemRect(item), 40), { x: p.x, y: p.y, w, h })))),
+    overlapIndexedMs: time(() => points.forEach(p => index.query(expandRect({ x: p.x, y: p.y, w, h }, 40)).length > 0)),
+    linkPathsMs: time(() => computeLinkPaths(room.items, room.links)),
+  };
+});
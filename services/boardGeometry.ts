@@ -0,0 +1,50 @@
+import { BoardItem, BoardLink } from "../types";
+
+export interface Point { x: number; y: number; }
+export interface Rect { x: number; y: number; w: number; h: number; }
+
+export const LINK_COLORS: Record<BoardLink['variant'], string> = { critical: '#ef4444', positive: '#22c55e', alternative: '#3b82f6', neutral: '#9ca3af' };
+
+export const getItemDimensions = (type: BoardItem['type']) => { switch (type) { case 'objective': return { w: 300, h: 200 }; case 'idea-strip': return { w: 280, h: 60 }; case 'image': return { w: 280, h: 220 }; case 'goal': return { w: 180, h: 180 }; case 'sticky': default: return { w: 180, h: 180 }; } };
+
+export const getItemRect = (item: BoardItem): Rect => { const d = getItemDimensions(item.type); return { x: item.x, y: item.y, w: d.w, h: d.h }; };
+
+// Link anchor point; intentionally not the visual centre, it is where links have always attached
+export const getItemCenter = (item: BoardItem): Point => { let w = 160, h = 160; if (item.type === 'image') { w = 256; h = 200; } else if (item.type === 'objective') { w = 256; h = 140; } else if (item.type === 'idea-strip') { w = 280; h = 60; } else if (item.type === 'goal') { w = 180; h = 180; } return { x: item.x + w/2, y: item.y + h/2 }; };
+
+// Small per-item tilt derived from the id, so the same item always sits at the same angle
+export const getItemRotation = (item: BoardItem) => (parseInt(item.id.substr(0, 4), 36) % 6) - 3;
+
+export interface LinkPath {
+  link: BoardLink;
+  p1: Point;
+  p2: Point;
+  control: Point;
+  d: string;
+}
+
+// Quadratic curves for every drawable link; parallel links between the same pair fan out around the midpoint
+export const computeLinkPaths = (items: BoardItem[], links: BoardLink[]): LinkPath[] => {
+  const itemsById = new Map(items.map(i => [i.id, i]));
+  const linkGroups: Record<string, BoardLink[]> = {}; links.forEach(link => { const ids = [link.fromId, link.toId].sort().join('-'); if (!linkGroups[ids]) linkGroups[ids] = []; linkGroups[ids].push(link); });
+  const paths: LinkPath[] = [];
+  links.forEach(link => {
+    const from = itemsById.get(link.fromId); const to = itemsById.get(link.toId); if (!from || !to) return;
+    const p1 = getItemCenter(from); const p2 = getItemCenter(to);
+    const siblings = linkGroups[[link.fromId, link.toId].sort().join('-')] || [link]; const index = siblings.findIndex(l => l.id === link.id);
+    const dx = p2.x - p1.x; const dy = p2.y - p1.y; const dist = Math.sqrt(dx * dx + dy * dy);
+    const midX = (p1.x + p2.x) / 2; const midY = (p1.y + p2.y) / 2; const nx = -dy / (dist || 1); const ny = dx / (dist || 1);
+    const control = { x: midX + nx * (index - (siblings.length - 1) / 2) * 30, y: midY + ny * (index - (siblings.length - 1) / 2) * 30 };
+    paths.push({ link, p1, p2, control, d: `M ${p1.x} ${p1.y} Q ${control.x} ${control.y} ${p2.x} ${p2.y}` });
+  });
+  return paths;
+};
+
+export const getContentBounds = (items: BoardItem[], padding = 0): Rect | null => {
+  if (items.length === 0) return null;
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  items.forEach(item => { const r = getItemRect(item); minX = Math.min(minX, r.x); minY = Math.min(minY, r.y); maxX = Math.max(maxX, r.x + r.w); maxY = Math.max(maxY, r.y + r.h); });
+  return { x: minX - padding, y: minY - padding, w: maxX - minX + padding * 2, h: maxY - minY + padding * 2 };
+};
+
+export const rectsIntersect = (a: Rect, b: Rect) => a.x < b.x + b.w && a.x + a.w > b.x && a.y < b.y + b.h && a.y + a.h > b.y;
@@ -0,0 +1,152 @@
+import { BoardItem, BoardLink, PlanningRoom } from "../types";
+import { LINK_COLORS, Rect, computeLinkPaths, getContentBounds, getItemDimensions, getItemRotation, rectsIntersect, getItemRect } from "./boardGeometry";
+import { downloadBlob, downloadText, escapeXml, fetchAsDataUrl, slugify } from "./fileService";
+
+type BoardStyle = NonNullable<PlanningRoom['boardStyle']>;
+
+export interface BoardImageOptions {
+  style?: BoardStyle;
+  // Board-coordinate rectangle to export; defaults to the content bounds
+  viewport?: Rect;
+  padding?: number;
+}
+
+const BACKGROUNDS: Record<BoardStyle, string> = { noir: '#1c1917', modern: '#f8fafc' };
+const STICKY_COLORS: Record<string, string> = {
+  'bg-yellow-100': '#fef9c3', 'bg-yellow-200': '#fef08a', 'bg-pink-200': '#fbcfe8', 'bg-blue-200': '#bfdbfe', 'bg-green-200': '#bbf7d0', 'bg-purple-200': '#e9d5ff', 'bg-orange-200': '#fed7aa',
+};
+const SERIF = "Georgia, 'Times New Roman', serif";
+const MONO = "ui-monospace, Menlo, monospace";
+
+// Greedy word wrap by an average glyph width; SVG text has no layout of its own
+const wrapText = (text: string, width: number, fontSize: number, maxLines: number): string[] => {
+  const maxChars = Math.max(1, Math.floor(width / (fontSize * 0.55)));
+  const lines: string[] = [];
+  text.split('\n').forEach(paragraph => {
+    let line = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      while (word.length > maxChars) { if (line) { lines.push(line); line = ''; } lines.push(word.slice(0, maxChars)); word = word.slice(maxChars); }
+      if (!line) line = word;
+      else if ((line + ' ' + word).length <= maxChars) line += ' ' + word;
+      else { lines.push(line); line = word; }
+    });
+    lines.push(line);
+  });
+  if (lines.length > maxLines) { const kept = lines.slice(0, maxLines); kept[maxLines - 1] = `${kept[maxLines - 1].slice(0, Math.max(0, maxChars - 1))}…`; return kept; }
+  return lines;
+};
+
+const textBlock = (text: string, x: number, y: number, width: number, fontSize: number, maxLines: number, attrs: string, anchor: 'start' | 'middle' = 'start') =>
+  `<text x="${x}" y="${y}" font-size="${fontSize}" text-anchor="${anchor}" ${attrs}>${wrapText(text, width, fontSize, maxLines)
+    .map((line, i) => `<tspan x="${x}" dy="${i === 0 ? 0 : fontSize * 1.25}">${escapeXml(line)}</tspan>`).join('')}</text>`;
+
+const renderItem = (item: BoardItem, images: Map<string, string | null>): string => {
+  const { w, h } = getItemDimensions(item.type);
+  const rotation = getItemRotation(item);
+  const body = (() => {
+    switch (item.type) {
+      case 'objective': return `
+        <rect width="${w}" height="${h}" rx="2" fill="#1e293b" />
+        <rect width="4" height="${h}" fill="#ef4444" />
+        <text x="20" y="30" font-size="10" font-weight="900" letter-spacing="2" fill="#78716c" font-family="${SERIF}">OBJECTIVE</text>
+        ${textBlock(item.content, 20, 60, w - 40, 20, 4, `font-weight="700" fill="#ffffff" font-family="${SERIF}"`)}
+        <line x1="20" y1="${h - 40}" x2="${w - 20}" y2="${h - 40}" stroke="#44403c" />
+        <text x="20" y="${h - 18}" font-size="10" fill="#78716c" font-family="${MONO}">${escapeXml(item.id)}</text>
+        <circle cx="${w - 24}" cy="${h - 22}" r="4" fill="${item.isCompleted ? '#22c55e' : '#57534e'}" />`;
+      case 'sticky': return `
+        <g transform="rotate(1 ${w / 2} ${h / 2})">
+          <rect width="${w}" height="${h}" fill="${STICKY_COLORS[item.color || 'bg-yellow-200'] || STICKY_COLORS['bg-yellow-200']}" />
+          ${textBlock(item.content, 16, 32, w - 32, 14, 8, `font-weight="500" fill="#1e293b" font-family="${SERIF}"`)}
+        </g>`;
+      case 'idea-strip': return `
+        <rect width="${w}" height="${h}" rx="2" fill="#ffffff" stroke="#e7e5e4" />
+        <rect width="6" height="${h}" fill="#c084fc" fill-opacity="0.5" />
+        ${textBlock(item.content, 24, h / 2 + 5, w - 40, 14, 1, `font-style="italic" font-weight="500" fill="#44403c" font-family="${SERIF}"`)}`;
+      case 'goal': return `
+        <rect x="8" y="8" width="${w}" height="${h}" fill="#000000" />
+        <rect width="${w}" height="${h}" fill="#ffffff" stroke="#000000" stroke-width="2" />
+        <rect width="${w}" height="24" fill="url(#checkered)" stroke="#000000" stroke-width="2" />
+        <text x="${w / 2}" y="64" font-size="10" font-weight="900" text-anchor="middle" fill="#a8a29e" font-family="${SERIF}">FINISH LINE</text>
+        ${textBlock(item.content.toUpperCase(), w / 2, 92, w - 32, 18, 3, `font-weight="900" fill="#000000" font-family="${SERIF}"`, 'middle')}`;
+      case 'image': {
+        const href = images.get(item.content);
+        return `
+        <g transform="rotate(1 ${w / 2} ${h / 2})">
+          <rect width="${w}" height="${h}" fill="#ffffff" />
+          ${href ? `<image href="${escapeXml(href)}" x="8" y="8" width="${w - 16}" height="${h - 40}" preserveAspectRatio="xMidYMid slice" />` : `<rect x="8" y="8" width="${w - 16}" height="${h - 40}" fill="#e2e8f0" />`}
+          <text x="${w / 2}" y="${h - 12}" font-size="10" font-weight="700" text-anchor="middle" fill="#94a3b8" font-family="${SERIF}">IMG-${escapeXml(item.id.substr(0, 4))}</text>
+        </g>`;
+      }
+      case 'text':
+      default: return textBlock(item.content, 0, 16, w, 16, 10, `fill="#57534e" font-family="${SERIF}"`);
+    }
+  })();
+  return `<g transform="translate(${item.x} ${item.y}) rotate(${rotation} ${w / 2} ${h / 2})">${body}</g>`;
+};
+
+const renderLink = (d: string, link: BoardLink, p1: { x: number; y: number }, p2: { x: number; y: number }) => {
+  const color = LINK_COLORS[link.variant];
+  return `<g opacity="0.9"><path d="${d}" stroke="${color}" stroke-width="2" fill="none" stroke-linecap="round" /><circle cx="${p1.x}" cy="${p1.y}" r="3" fill="${color}" /><circle cx="${p2.x}" cy="${p2.y}" r="3" fill="${color}" /></g>`;
+};
+
+// Images are inlined as data URLs so the SVG stands alone and a canvas drawing it stays untainted
+const loadImages = async (items: BoardItem[]): Promise<Map<string, string | null>> => {
+  const urls = [...new Set(items.filter(i => i.type === 'image').map(i => i.content))];
+  const entries = await Promise.all(urls.map(async url => [url, await fetchAsDataUrl(url)] as const));
+  return new Map(entries);
+};
+
+export const renderBoardSvg = async (items: BoardItem[], links: BoardLink[], options: BoardImageOptions = {}): Promise<{ svg: string; width: number; height: number }> => {
+  const style = options.style || 'noir';
+  const bounds = options.viewport || getContentBounds(items, options.padding ?? 40) || { x: 0, y: 0, w: 800, h: 600 };
+  const visibleItems = options.viewport ? items.filter(item => rectsIntersect(getItemRect(item), bounds)) : items;
+  const visibleIds = new Set(visibleItems.map(i => i.id));
+  // A link stays in a viewport export if either end is visible; the viewBox crops the rest
+  const linkPaths = computeLinkPaths(items, links).filter(({ link }) => visibleIds.has(link.fromId) || visibleIds.has(link.toId));
+  const images = await loadImages(visibleItems);
+
+  const width = Math.max(1, Math.round(bounds.w));
+  const height = Math.max(1, Math.round(bounds.h));
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${bounds.x} ${bounds.y} ${bounds.w} ${bounds.h}">
+<defs>
+  <pattern id="checkered" width="20" height="20" patternUnits="userSpaceOnUse"><rect width="20" height="20" fill="#ffffff" /><rect width="10" height="10" fill="#000000" /><rect x="10" y="10" width="10" height="10" fill="#000000" /></pattern>
+</defs>
+<rect x="${bounds.x}" y="${bounds.y}" width="${bounds.w}" height="${bounds.h}" fill="${BACKGROUNDS[style]}" />
+${linkPaths.map(({ d, link, p1, p2 }) => renderLink(d, link, p1, p2)).join('\n')}
+${visibleItems.map(item => renderItem(item, images)).join('\n')}
+</svg>`;
+  return { svg, width, height };
+};
+
+export const renderBoardPng = async (items: BoardItem[], links: BoardLink[], options: BoardImageOptions & { scale?: number } = {}): Promise<Blob> => {
+  const { svg, width, height } = await renderBoardSvg(items, links, options);
+  const scale = options.scale ?? 2;
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+  try {
+    const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error('The board image could not be rendered.'));
+      img.src = url;
+    });
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas rendering is not available.');
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return await new Promise<Blob>((resolve, reject) => canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('The PNG could not be encoded.')), 'image/png'));
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+export const downloadBoardImage = async (name: string, items: BoardItem[], links: BoardLink[], format: 'svg' | 'png', options: BoardImageOptions = {}): Promise<void> => {
+  const fileName = `${slugify(name, 'board')}.${format}`;
+  if (format === 'svg') {
+    const { svg } = await renderBoardSvg(items, links, options);
+    downloadText(svg, fileName, 'image/svg+xml');
+  } else {
+    downloadBlob(await renderBoardPng(items, links, options), fileName);
+  }
+};
@@ -0,0 +1,63 @@
+import { BoardItem, BoardLink } from "../types";
+import { STATUS_LABELS, getStatus, isOverdue } from "./scheduleService";
+
+// Letter shortcuts (no modifier) for creating each item type from the keyboard
+// Only types the board can draw; 'text' items exist in old data but have no card of their own
+export const CREATE_SHORTCUTS: Record<string, BoardItem['type']> = { s: 'sticky', i: 'image', o: 'objective', d: 'idea-strip', g: 'goal' };
+
+export const ITEM_TYPE_LABELS: Record<BoardItem['type'], string> = { sticky: 'Task', text: 'Text card', image: 'Image', objective: 'Objective', 'idea-strip': 'Idea strip', goal: 'Goal' };
+
+const TYPE_RANK: Record<BoardItem['type'], number> = { goal: 0, objective: 1, sticky: 2, 'idea-strip': 3, image: 3, text: 3 };
+const readingOrder = (a: BoardItem, b: BoardItem) => (a.y - b.y) || (a.x - b.x);
+
+// Depth-first walk along link direction from the roots (goals first, then reading order), so Tab follows each chain
+// before moving to the next; unlinked items come last in reading order
+export const getGraphOrder = (items: BoardItem[], links: BoardLink[]): string[] => {
+  const byId = new Map(items.map(i => [i.id, i]));
+  const outgoing = new Map<string, BoardItem[]>(items.map(i => [i.id, []]));
+  const incoming = new Map<string, number>(items.map(i => [i.id, 0]));
+  links.forEach(link => {
+    const to = byId.get(link.toId);
+    if (!to || !byId.has(link.fromId) || link.fromId === link.toId) return;
+    outgoing.get(link.fromId)!.push(to);
+    incoming.set(link.toId, incoming.get(link.toId)! + 1);
+  });
+  outgoing.forEach(children => children.sort(readingOrder));
+
+  const order: string[] = [];
+  const visited = new Set<string>();
+  const visit = (item: BoardItem) => {
+    if (visited.has(item.id)) return;
+    visited.add(item.id);
+    order.push(item.id);
+    outgoing.get(item.id)!.forEach(visit);
+  };
+  const linked = items.filter(i => outgoing.get(i.id)!.length > 0 || incoming.get(i.id)! > 0);
+  const byRank = (a: BoardItem, b: BoardItem) => (TYPE_RANK[a.type] - TYPE_RANK[b.type]) || readingOrder(a, b);
+  linked.filter(i => incoming.get(i.id) === 0).sort(byRank).forEach(visit);
+  // Items only reachable through a cycle have no root; start from them in rank order
+  linked.sort(byRank).forEach(visit);
+  items.filter(i => !visited.has(i.id)).sort(readingOrder).forEach(visit);
+  return order;
+};
+
+export const getNextInOrder = (order: string[], currentId: string | null, step: 1 | -1): string | null => {
+  if (order.length === 0) return null;
+  const index = currentId ? order.indexOf(currentId) : -1;
+  if (index === -1) return step === 1 ? order[0] : order[order.length - 1];
+  return order[(index + step + order.length) % order.length];
+};
+
+// Screen-reader label: type, content and how the item is linked; `ownerName` resolves a directory assignee
+export const describeItem = (item: BoardItem, links: BoardLink[], ownerName: string | undefined = item.assignee): string => {
+  const incoming = links.filter(l => l.toId === item.id).length;
+  const outgoing = links.filter(l => l.fromId === item.id).length;
+  const content = item.type === 'image' ? 'image' : (item.content.trim() || 'empty');
+  const parts = [`${ITEM_TYPE_LABELS[item.type]}: ${content}`, `${incoming} incoming ${incoming === 1 ? 'link' : 'links'}, ${outgoing} outgoing ${outgoing === 1 ? 'link' : 'links'}`];
+  if (item.isCompleted) parts.push('completed');
+  else if (item.status && item.status !== 'todo') parts.push(STATUS_LABELS[getStatus(item)].toLowerCase());
+  if (item.dueDate) parts.push(`${isOverdue(item) ? 'overdue, was due' : 'due'} ${item.dueDate}`);
+  if (ownerName) parts.push(`owned by ${ownerName}`);
+  if (item.isLocked) parts.push('locked');
+  return parts.join('. ');
+};
@@ -0,0 +1,157 @@
+import { BoardItem, BoardLink, PlanningRoom } from "../types";
+import { CURRENT_SCHEMA_VERSION, isRecord, runMigrations, validateRoom } from "./storageService";
+import { downloadText, fetchAsDataUrl, slugify } from "./fileService";
+
+export const BUNDLE_FORMAT = 'planningroom';
+export const BUNDLE_VERSION = 1;
+export const BUNDLE_EXTENSION = '.planningroom.json';
+
+const ASSET_REF_PREFIX = 'bundle-asset:';
+
+export interface BundleAsset {
+  mimeType: string;
+  dataUrl: string;
+  sourceUrl?: string;
+}
+
+export interface RoomBundle {
+  format: typeof BUNDLE_FORMAT;
+  bundleVersion: number;
+  schemaVersion: number;
+  exportedAt: number;
+  room: PlanningRoom;
+  assets: Record<string, BundleAsset>;
+}
+
+export interface DanglingLink {
+  link: BoardLink;
+  missingIds: string[];
+}
+
+export interface ImportReport {
+  itemCount: number;
+  linkCount: number;
+  danglingLinks: DanglingLink[];
+  droppedItemCount: number;
+  missingAssetIds: string[];
+}
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+const mimeTypeOf = (dataUrl: string) => dataUrl.slice(5).split(/[;,]/)[0] || 'application/octet-stream';
+
+// Remote images are embedded when the host allows it; otherwise the URL is kept as-is
+const embedImage = async (url: string): Promise<BundleAsset | null> => {
+  const dataUrl = await fetchAsDataUrl(url);
+  if (!dataUrl) return null;
+  return { mimeType: mimeTypeOf(dataUrl), dataUrl, ...(url.startsWith('data:') ? {} : { sourceUrl: url }) };
+};
+
+const imageFieldsOf = (item: BoardItem): ('content' | 'backgroundImageUrl')[] => {
+  const fields: ('content' | 'backgroundImageUrl')[] = [];
+  if (item.type === 'image' || item.content.startsWith('data:')) fields.push('content');
+  if (item.backgroundImageUrl) fields.push('backgroundImageUrl');
+  return fields;
+};
+
+// --- EXPORT ---
+
+export const createRoomBundle = async (room: PlanningRoom): Promise<RoomBundle> => {
+  // Each distinct URL is fetched once, however many items show it; ids follow first appearance on the board
+  const urls = [...new Set(room.items.flatMap(item => imageFieldsOf(item).map(field => item[field] as string)))];
+  const embedded = await Promise.all(urls.map(embedImage));
+  const assets: Record<string, BundleAsset> = {};
+  const assetIdByUrl = new Map<string, string>();
+  urls.forEach((url, i) => {
+    const asset = embedded[i];
+    if (!asset) return;
+    const assetId = `a${Object.keys(assets).length + 1}`;
+    assets[assetId] = asset;
+    assetIdByUrl.set(url, assetId);
+  });
+
+  const items = room.items.map(item => imageFieldsOf(item).reduce((bundled, field) => {
+    const assetId = assetIdByUrl.get(item[field] as string);
+    return assetId ? { ...bundled, [field]: `${ASSET_REF_PREFIX}${assetId}` } : bundled;
+  }, item));
+
+  return {
+    format: BUNDLE_FORMAT,
+    bundleVersion: BUNDLE_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: Date.now(),
+    room: { ...room, items },
+    assets,
+  };
+};
+
+export const bundleFileName = (room: PlanningRoom) => `${slugify(room.name, 'room')}${BUNDLE_EXTENSION}`;
+
+export const downloadRoomBundle = async (room: PlanningRoom): Promise<void> => {
+  const bundle = await createRoomBundle(room);
+  downloadText(JSON.stringify(bundle, null, 2), bundleFileName(room), 'application/json');
+};
+
+// --- IMPORT ---
+
+// Parses and validates a bundle, giving the room, its items and its links fresh ids so it can sit next to existing rooms
+export const importRoomBundle = (text: string): { room: PlanningRoom; report: ImportReport } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!isRecord(parsed) || parsed.format !== BUNDLE_FORMAT) throw new Error('The file is not a Planning Room bundle.');
+  if (typeof parsed.bundleVersion !== 'number' || parsed.bundleVersion > BUNDLE_VERSION) throw new Error('The bundle was created by a newer version of the app.');
+  const schemaVersion = typeof parsed.schemaVersion === 'number' ? parsed.schemaVersion : 0;
+  if (schemaVersion > CURRENT_SCHEMA_VERSION) throw new Error('The bundle uses a newer room format than this app supports.');
+
+  const [migrated] = runMigrations([parsed.room], schemaVersion);
+  const validated = validateRoom(migrated);
+  if ('error' in validated) throw new Error(`The bundled room is invalid: ${validated.error}.`);
+
+  const assets = isRecord(parsed.assets) ? parsed.assets : {};
+  const missingAssetIds: string[] = [];
+  const resolveAsset = (value: string) => {
+    if (!value.startsWith(ASSET_REF_PREFIX)) return value;
+    const id = value.slice(ASSET_REF_PREFIX.length);
+    const asset = assets[id];
+    if (isRecord(asset) && typeof asset.dataUrl === 'string') return asset.dataUrl;
+    missingAssetIds.push(id);
+    return isRecord(asset) && typeof asset.sourceUrl === 'string' ? asset.sourceUrl : '';
+  };
+
+  const source = validated.room;
+  const idMap = new Map<string, string>();
+  const items: BoardItem[] = source.items.map(item => {
+    const id = generateId();
+    idMap.set(item.id, id);
+    return {
+      ...item,
+      id,
+      content: resolveAsset(item.content),
+      ...(item.backgroundImageUrl ? { backgroundImageUrl: resolveAsset(item.backgroundImageUrl) } : {}),
+    };
+  });
+
+  const danglingLinks: DanglingLink[] = [];
+  const links: BoardLink[] = [];
+  source.links.forEach(link => {
+    const missingIds = [link.fromId, link.toId].filter(id => !idMap.has(id));
+    if (missingIds.length > 0) { danglingLinks.push({ link, missingIds }); return; }
+    links.push({ ...link, id: generateId(), fromId: idMap.get(link.fromId)!, toId: idMap.get(link.toId)! });
+  });
+
+  const now = Date.now();
+  return {
+    room: { ...source, id: generateId(), createdAt: now, updatedAt: now, items, links },
+    report: {
+      itemCount: items.length,
+      linkCount: links.length,
+      danglingLinks,
+      droppedItemCount: validated.dropped.filter(d => d.reason === 'Malformed board item').length,
+      missingAssetIds,
+    },
+  };
+};
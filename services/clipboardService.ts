@@ -0,0 +1,112 @@
+import { BoardItem, BoardLink } from "../types";
+import { Point, getContentBounds, getItemDimensions } from "./boardGeometry";
+import { validateRoom } from "./storageService";
+
+export const CLIPBOARD_FORMAT = 'planningroom-clipboard';
+export const CLIPBOARD_VERSION = 1;
+// Custom MIME type so the payload survives the system clipboard between rooms and tabs without leaking into plain-text pastes
+export const CLIPBOARD_MIME = 'application/x-planningroom+json';
+
+export interface ClipboardPayload {
+  format: typeof CLIPBOARD_FORMAT;
+  version: number;
+  items: BoardItem[];
+  links: BoardLink[];
+}
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+// The selected items plus only the links whose two ends are both selected
+export const createClipboardPayload = (items: BoardItem[], links: BoardLink[], ids: string[]): ClipboardPayload => {
+  const selected = new Set(ids);
+  return {
+    format: CLIPBOARD_FORMAT,
+    version: CLIPBOARD_VERSION,
+    items: items.filter(item => selected.has(item.id)),
+    links: links.filter(link => selected.has(link.fromId) && selected.has(link.toId)),
+  };
+};
+
+export const serializeClipboardPayload = (payload: ClipboardPayload) => JSON.stringify(payload);
+
+// Plain-text rendering for other apps: one line per item
+export const clipboardPayloadToText = (payload: ClipboardPayload) => payload.items.map(item => item.type === 'image' ? item.content : item.content.replace(/\s*\n\s*/g, ' ')).join('\n');
+
+// The envelope of a payload this version can read; its items and links are checked separately
+const isClipboardEnvelope = (value: unknown): value is { format: typeof CLIPBOARD_FORMAT; version: number; items: unknown; links: unknown } => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  const { format, version } = value as Record<string, unknown>;
+  return format === CLIPBOARD_FORMAT && typeof version === 'number' && version <= CLIPBOARD_VERSION;
+};
+
+export const parseClipboardPayload = (text: string): ClipboardPayload | null => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!isClipboardEnvelope(parsed)) return null;
+  const validated = validateRoom({ id: 'clipboard', name: '', items: parsed.items, links: parsed.links });
+  if ('error' in validated) return null;
+  return { format: CLIPBOARD_FORMAT, version: parsed.version, items: validated.room.items, links: validated.room.links };
+};
+
+// Gives every item and link a fresh id and moves the group so its bounds centre on `at`
+export const instantiateClipboardPayload = (payload: ClipboardPayload, at: Point): { items: BoardItem[]; links: BoardLink[] } => {
+  const bounds = getContentBounds(payload.items);
+  if (!bounds) return { items: [], links: [] };
+  const dx = at.x - (bounds.x + bounds.w / 2);
+  const dy = at.y - (bounds.y + bounds.h / 2);
+  const idMap = new Map(payload.items.map(item => [item.id, generateId()]));
+  const items = payload.items.map(item => {
+    const { parentId, ...rest } = item;
+    return { ...rest, id: idMap.get(item.id)!, x: item.x + dx, y: item.y + dy, ...(parentId && idMap.has(parentId) ? { parentId: idMap.get(parentId) } : {}) };
+  });
+  const links = payload.links
+    .filter(link => idMap.has(link.fromId) && idMap.has(link.toId))
+    .map(link => ({ ...link, id: generateId(), fromId: idMap.get(link.fromId)!, toId: idMap.get(link.toId)! }));
+  return { items, links };
+};
+
+// Each non-empty line of pasted text becomes a sticky, laid out in a grid centred on `at`
+export const textToStickies = (text: string, at: Point): BoardItem[] => {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean).slice(0, 50);
+  const { w, h } = getItemDimensions('sticky');
+  const gap = 30;
+  const columns = Math.min(lines.length, Math.ceil(Math.sqrt(lines.length)));
+  const rows = Math.ceil(lines.length / columns);
+  const originX = at.x - (columns * w + (columns - 1) * gap) / 2;
+  const originY = at.y - (rows * h + (rows - 1) * gap) / 2;
+  return lines.map((content, i) => ({
+    id: generateId(),
+    type: 'sticky',
+    content,
+    x: originX + (i % columns) * (w + gap),
+    y: originY + Math.floor(i / columns) * (h + gap),
+    color: 'bg-yellow-200',
+    isCompleted: false,
+    isLocked: false,
+  }));
+};
+
+// Browsers that strip custom MIME types still round-trip the plain text, so the last copy is remembered against it
+let lastCopied: { text: string; payload: ClipboardPayload } | null = null;
+
+export const writeClipboardPayload = (data: DataTransfer, payload: ClipboardPayload) => {
+  const text = clipboardPayloadToText(payload);
+  data.setData(CLIPBOARD_MIME, serializeClipboardPayload(payload));
+  data.setData('text/plain', text);
+  lastCopied = { text, payload };
+};
+
+export const readClipboardPayload = (data: DataTransfer): { payload: ClipboardPayload } | { text: string } | null => {
+  const typed = data.getData(CLIPBOARD_MIME);
+  const payload = typed ? parseClipboardPayload(typed) : null;
+  if (payload) return { payload };
+  const text = data.getData('text/plain');
+  if (!text.trim()) return null;
+  if (lastCopied && lastCopied.text === text) return { payload: lastCopied.payload };
+  const fromText = parseClipboardPayload(text);
+  return fromText ? { payload: fromText } : { text };
+};
@@ -0,0 +1,355 @@
+import { Contact, CustomGroup, NewContact } from "../types";
+import { Directory, createContact, createGroup, fullName, GROUP_COLORS } from "./contactService";
+import { toDateString } from "./scheduleService";
+import { downloadText, slugify } from "./fileService";
+
+// An imported person before it joins the directory; groups are carried by name until they are matched or created
+export type ContactDraft = Omit<NewContact, 'customGroups'> & { groupNames: string[] };
+
+const emptyDraft = (): ContactDraft => ({ firstName: '', lastName: '', email: '', phone: '', company: '', position: '', remarks: '', dateJoined: toDateString(new Date()), avatarUrl: '', facebook: '', instagram: '', website: '', groupNames: [] });
+
+// Drafts without any name fall back to the email's local part; drafts with nothing identifying are dropped
+const finishDraft = (draft: ContactDraft): ContactDraft | null => {
+  if (!draft.firstName && !draft.lastName) {
+    const fallback = draft.email.split('@')[0] || draft.company || draft.phone;
+    if (!fallback) return null;
+    draft.firstName = fallback;
+  }
+  return draft;
+};
+
+const splitFullName = (name: string) => { const parts = name.trim().split(/\s+/); return { firstName: parts[0] || '', lastName: parts.slice(1).join(' ') }; };
+
+// Social links share the URL property in most exports; the host tells them apart
+const assignUrl = (draft: ContactDraft, url: string) => {
+  if (/facebook\.com|fb\.com/i.test(url)) draft.facebook ||= url;
+  else if (/instagram\.com/i.test(url)) draft.instagram ||= url;
+  else draft.website ||= url;
+};
+
+// --- VCARD ---
+
+interface VCardProperty { name: string; params: Record<string, string[]>; value: string; }
+
+// Splits on `separator` outside double quotes
+const splitOutsideQuotes = (line: string, separator: string, limit = Infinity): string[] => {
+  const parts: string[] = []; let current = ''; let quoted = false;
+  for (const ch of line) {
+    if (ch === '"') quoted = !quoted;
+    if (ch === separator && !quoted && parts.length < limit - 1) { parts.push(current); current = ''; }
+    else current += ch;
+  }
+  parts.push(current);
+  return parts;
+};
+
+const unescapeText = (value: string) => value.replace(/\\([nN,;:\\])/g, (_, ch) => ch === 'n' || ch === 'N' ? '\n' : ch);
+const escapeText = (value: string) => value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/([,;])/g, '\\$1');
+// Splits a structured value (N, ORG, CATEGORIES) on unescaped separators
+const splitStructured = (value: string, separator: ';' | ',') => value.split(new RegExp(`(?<!\\\\)${separator}`)).map(unescapeText);
+
+const parseProperty = (line: string): VCardProperty | null => {
+  const [head, value] = splitOutsideQuotes(line, ':', 2);
+  if (value === undefined) return null;
+  const [rawName, ...rawParams] = splitOutsideQuotes(head, ';');
+  const params: Record<string, string[]> = {};
+  rawParams.forEach(param => {
+    const [key, val] = param.split('=');
+    // vCard 2.1 allows bare types such as PHOTO;JPEG
+    const name = val === undefined ? 'TYPE' : key.toUpperCase();
+    params[name] = [...(params[name] || []), ...(val ?? key).replace(/"/g, '').split(',').map(v => v.toLowerCase())];
+  });
+  // Drop any group prefix (item1.EMAIL)
+  return { name: rawName.replace(/^.*\./, '').toUpperCase(), params, value };
+};
+
+const photoToUrl = (property: VCardProperty): string => {
+  const { value, params } = property;
+  if (/^(data:|https?:)/i.test(value)) return value;
+  const encoding = params.ENCODING?.[0];
+  if (encoding === 'b' || encoding === 'base64') {
+    const type = (params.TYPE?.find(t => /^(jpe?g|png|gif|webp|bmp)$/.test(t)) || 'jpeg').replace('jpg', 'jpeg');
+    return `data:image/${type};base64,${value.replace(/\s/g, '')}`;
+  }
+  return '';
+};
+
+// vCard 2.1 marks it as ENCODING=QUOTED-PRINTABLE or just QUOTED-PRINTABLE
+const isQuotedPrintable = (params: Record<string, string[]>) => [...(params.ENCODING || []), ...(params.TYPE || [])].includes('quoted-printable');
+
+// =XX escapes are bytes in the property's CHARSET (UTF-8 when missing or unknown)
+const decodeQuotedPrintable = (value: string, charset = 'utf-8'): string => {
+  const bytes: number[] = [];
+  for (let i = 0; i < value.length; i++) {
+    const hex = value.slice(i + 1, i + 3);
+    if (value[i] === '=' && /^[0-9a-f]{2}$/i.test(hex)) { bytes.push(parseInt(hex, 16)); i += 2; }
+    else bytes.push(...new TextEncoder().encode(value[i]));
+  }
+  let decoder: TextDecoder;
+  try { decoder = new TextDecoder(charset); } catch { decoder = new TextDecoder(); }
+  return decoder.decode(new Uint8Array(bytes));
+};
+
+// Reads vCard 2.1, 3.0 and 4.0; properties the directory has no field for are ignored
+export const parseVCards = (text: string): ContactDraft[] => {
+  const lines = text.replace(/\r\n?/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  const drafts: ContactDraft[] = [];
+  let draft: ContactDraft | null = null;
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const property = parseProperty(line.trim() ? line : '');
+    if (!property) continue;
+    if (isQuotedPrintable(property.params)) {
+      // A trailing "=" is a soft line break: the value carries on in the next line
+      let raw = property.value;
+      while (raw.endsWith('=') && i + 1 < lines.length) raw = raw.slice(0, -1) + lines[++i];
+      property.value = decodeQuotedPrintable(raw, property.params.CHARSET?.[0]).replace(/\r\n?/g, '\n');
+    }
+    if (property.name === 'BEGIN' && property.value.toUpperCase() === 'VCARD') { draft = emptyDraft(); continue; }
+    if (!draft) continue;
+    const d: ContactDraft = draft;
+    const value = property.value;
+    switch (property.name) {
+      case 'END': { const finished = finishDraft(d); if (finished) drafts.push(finished); draft = null; break; }
+      case 'N': { const [last = '', first = ''] = splitStructured(value, ';'); d.lastName ||= last.trim(); d.firstName ||= first.trim(); break; }
+      case 'FN': if (!d.firstName && !d.lastName) Object.assign(d, splitFullName(unescapeText(value))); break;
+      case 'EMAIL': d.email ||= unescapeText(value).replace(/^mailto:/i, '').trim(); break;
+      case 'TEL': d.phone ||= unescapeText(value).replace(/^tel:/i, '').trim(); break;
+      case 'ORG': d.company ||= splitStructured(value, ';')[0].trim(); break;
+      case 'TITLE': d.position = unescapeText(value).trim(); break;
+      case 'ROLE': d.position ||= unescapeText(value).trim(); break;
+      case 'NOTE': d.remarks = unescapeText(value); break;
+      case 'URL': assignUrl(d, unescapeText(value).trim()); break;
+      case 'X-SOCIALPROFILE': {
+        const url = unescapeText(value).trim(); const type = property.params.TYPE?.[0];
+        if (type === 'facebook') d.facebook ||= url; else if (type === 'instagram') d.instagram ||= url; else assignUrl(d, url);
+        break;
+      }
+      case 'CATEGORIES': d.groupNames = [...d.groupNames, ...splitStructured(value, ',').map(n => n.trim()).filter(Boolean)]; break;
+      case 'X-PLANNING-JOINED': if (/^\d{4}-\d{2}-\d{2}$/.test(value.trim())) d.dateJoined = value.trim(); break;
+      case 'PHOTO': d.avatarUrl ||= photoToUrl(property); break;
+    }
+  }
+  return drafts;
+};
+
+// Lines are folded at 75 octets as RFC 6350 asks; embedded photos are the usual reason they get long
+const foldLine = (line: string) => {
+  if (line.length <= 75) return line;
+  const chunks = [line.slice(0, 75)];
+  for (let i = 75; i < line.length; i += 74) chunks.push(` ${line.slice(i, i + 74)}`);
+  return chunks.join('\r\n');
+};
+
+const photoLine = (avatarUrl: string): string | null => {
+  const match = avatarUrl.match(/^data:image\/([a-z+]+);base64,(.*)$/i);
+  if (match) return `PHOTO;ENCODING=b;TYPE=${match[1].toUpperCase()}:${match[2]}`;
+  return /^https?:/i.test(avatarUrl) ? `PHOTO;VALUE=uri:${avatarUrl}` : null;
+};
+
+// vCard 3.0, the version address books import most reliably
+export const serializeVCards = (contacts: Contact[], groups: CustomGroup[]): string => contacts.map(contact => {
+  const groupNames = groups.filter(g => contact.customGroups?.includes(g.id)).map(g => escapeText(g.name));
+  const lines = [
+    'BEGIN:VCARD', 'VERSION:3.0',
+    `N:${escapeText(contact.lastName)};${escapeText(contact.firstName)};;;`,
+    `FN:${escapeText(fullName(contact))}`,
+    contact.email && `EMAIL;TYPE=INTERNET:${contact.email}`,
+    contact.phone && `TEL:${escapeText(contact.phone)}`,
+    contact.company && `ORG:${escapeText(contact.company)}`,
+    contact.position && `TITLE:${escapeText(contact.position)}`,
+    contact.remarks && `NOTE:${escapeText(contact.remarks)}`,
+    contact.website && `URL:${contact.website}`,
+    contact.facebook && `X-SOCIALPROFILE;TYPE=facebook:${contact.facebook}`,
+    contact.instagram && `X-SOCIALPROFILE;TYPE=instagram:${contact.instagram}`,
+    groupNames.length > 0 && `CATEGORIES:${groupNames.join(',')}`,
+    contact.dateJoined && `X-PLANNING-JOINED:${contact.dateJoined}`,
+    contact.avatarUrl && photoLine(contact.avatarUrl),
+    'END:VCARD',
+  ];
+  return lines.filter((line): line is string => !!line).map(foldLine).join('\r\n');
+}).join('\r\n') + '\r\n';
+
+// --- CSV ---
+
+// RFC 4180 with the delimiter guessed from the header row (comma, semicolon or tab)
+export const parseCsv = (text: string): string[][] => {
+  const source = text.replace(/^\uFEFF/, '');
+  const header = source.split(/\r?\n/, 1)[0];
+  const delimiter = [',', ';', '\t'].reduce((best, d) => header.split(d).length > header.split(best).length ? d : best, ',');
+  const rows: string[][] = []; let row: string[] = []; let field = ''; let quoted = false;
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (quoted) {
+      if (ch === '"' && source[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"' && field === '') quoted = true;
+    else if (ch === delimiter) { row.push(field); field = ''; }
+    else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && source[i + 1] === '\n') i++;
+      row.push(field); field = '';
+      if (row.some(cell => cell !== '')) rows.push(row);
+      row = [];
+    } else field += ch;
+  }
+  row.push(field);
+  if (row.some(cell => cell !== '')) rows.push(row);
+  return rows;
+};
+
+// Spreadsheets run cells starting with = + - @ as formulas, so those get a leading apostrophe; import strips it again
+const FORMULA_START = /^[=+\-@\t\r]/;
+const csvCell = (raw: string) => { const value = FORMULA_START.test(raw) ? `'${raw}` : raw; return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value; };
+const uncsvCell = (cell: string) => cell.startsWith("'") && FORMULA_START.test(cell.slice(1)) ? cell.slice(1) : cell;
+
+export type CsvField = keyof Omit<ContactDraft, 'groupNames'> | 'fullName' | 'groups';
+
+export const CSV_FIELDS: { field: CsvField; label: string; synonyms: string[] }[] = [
+  { field: 'firstName', label: 'First name', synonyms: ['first name', 'given name', 'firstname', 'forename'] },
+  { field: 'lastName', label: 'Last name', synonyms: ['last name', 'family name', 'surname', 'lastname'] },
+  { field: 'fullName', label: 'Full name', synonyms: ['name', 'full name', 'display name', 'contact'] },
+  { field: 'email', label: 'Email', synonyms: ['e-mail', 'email', 'mail'] },
+  { field: 'phone', label: 'Phone', synonyms: ['phone', 'mobile', 'tel', 'cell'] },
+  { field: 'company', label: 'Company', synonyms: ['company', 'organization', 'organisation', 'org', 'employer'] },
+  { field: 'position', label: 'Position', synonyms: ['title', 'position', 'job', 'role'] },
+  { field: 'remarks', label: 'Remarks', synonyms: ['notes', 'note', 'remarks', 'comment'] },
+  { field: 'dateJoined', label: 'Date joined', synonyms: ['date joined', 'joined', 'start date'] },
+  { field: 'website', label: 'Website', synonyms: ['website', 'web page', 'url', 'homepage'] },
+  { field: 'facebook', label: 'Facebook', synonyms: ['facebook'] },
+  { field: 'instagram', label: 'Instagram', synonyms: ['instagram'] },
+  { field: 'groups', label: 'Groups', synonyms: ['group', 'categories', 'category', 'lists', 'labels'] },
+  { field: 'avatarUrl', label: 'Photo', synonyms: ['photo', 'avatar', 'picture', 'image'] },
+];
+
+// Column index -> field; unmapped columns are left out
+export type CsvMapping = Record<number, CsvField>;
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[_\-.]+/g, ' ').replace(/\s+/g, ' ').trim();
+
+// Exact synonym matches first, then headers that merely contain one (e.g. Google's "E-mail 1 - Value"); each field is used once
+export const guessCsvMapping = (headers: string[]): CsvMapping => {
+  const mapping: CsvMapping = {}; const used = new Set<CsvField>();
+  const normalized = headers.map(normalizeHeader);
+  const pass = (matches: (header: string, synonym: string) => boolean) => normalized.forEach((header, index) => {
+    if (mapping[index] !== undefined) return;
+    const hit = CSV_FIELDS.find(({ field, synonyms }) => !used.has(field) && synonyms.some(s => matches(header, s)));
+    if (hit) { mapping[index] = hit.field; used.add(hit.field); }
+  });
+  pass((header, synonym) => header === synonym || header === synonym.replace(/-/g, ' '));
+  pass((header, synonym) => header.includes(synonym) || header.includes(synonym.replace(/-/g, ' ')));
+  return mapping;
+};
+
+// Group cells may list several groups; Google's export separates them with " ::: " and adds a "* myContacts" system group.
+// Our own export backslash-escapes separators inside names
+const splitGroups = (cell: string) => {
+  const names: string[] = []; let current = '';
+  for (let i = 0; i < cell.length; i++) {
+    if (cell[i] === '\\' && i + 1 < cell.length) current += cell[++i];
+    else if (cell[i] === ';' || cell[i] === '|') { names.push(current); current = ''; }
+    else if (cell.startsWith(':::', i)) { names.push(current); current = ''; i += 2; }
+    else current += cell[i];
+  }
+  names.push(current);
+  return names.map(g => g.replace(/^\*\s*/, '').trim()).filter(g => g && g.toLowerCase() !== 'mycontacts');
+};
+const joinGroups = (names: string[]) => names.map(name => name.replace(/([\\;|])/g, '\\$1')).join('; ');
+
+export const csvRowsToDrafts = (rows: string[][], mapping: CsvMapping): ContactDraft[] => rows.map(row => {
+  const draft = emptyDraft();
+  Object.entries(mapping).forEach(([index, field]) => {
+    const cell = uncsvCell((row[Number(index)] || '').trim());
+    if (!cell) return;
+    if (field === 'fullName') { if (!draft.firstName && !draft.lastName) Object.assign(draft, splitFullName(cell)); }
+    else if (field === 'groups') draft.groupNames = [...draft.groupNames, ...splitGroups(cell)];
+    else if (field === 'dateJoined') { const date = new Date(cell); if (!Number.isNaN(date.getTime())) draft.dateJoined = /^\d{4}-\d{2}-\d{2}$/.test(cell) ? cell : toDateString(date); }
+    else if (field === 'website') assignUrl(draft, cell);
+    else draft[field] = cell;
+  });
+  return finishDraft(draft);
+}).filter((draft): draft is ContactDraft => !!draft);
+
+// Photos go out as data URLs so a CSV round trip keeps them
+export const serializeCsv = (contacts: Contact[], groups: CustomGroup[]): string => {
+  const fields = CSV_FIELDS.filter(f => f.field !== 'fullName');
+  const valueOf = (contact: Contact, field: CsvField) => field === 'groups' ? joinGroups(groups.filter(g => contact.customGroups?.includes(g.id)).map(g => g.name)) : String(contact[field as keyof Contact] ?? '');
+  return [fields.map(f => f.label), ...contacts.map(contact => fields.map(f => valueOf(contact, f.field)))].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+};
+
+export const downloadContacts = (contacts: Contact[], groups: CustomGroup[], format: 'vcard' | 'csv', name: string) => format === 'vcard'
+  ? downloadText(serializeVCards(contacts, groups), `${slugify(name, 'contacts')}.vcf`, 'text/vcard')
+  : downloadText(serializeCsv(contacts, groups), `${slugify(name, 'contacts')}.csv`, 'text/csv');
+
+// --- DUPLICATES & MERGE ---
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+// Formatting and country prefixes vary between address books, so only the last nine digits are compared
+const normalizePhone = (phone: string) => { const digits = phone.replace(/\D/g, ''); return digits.length >= 7 ? digits.slice(-9) : ''; };
+
+export const findDuplicate = (draft: Pick<ContactDraft, 'email' | 'phone'>, contacts: Contact[]): Contact | undefined => {
+  const email = normalizeEmail(draft.email); const phone = normalizePhone(draft.phone);
+  return contacts.find(c => (!!email && normalizeEmail(c.email) === email) || (!!phone && normalizePhone(c.phone) === phone));
+};
+
+export const MERGE_FIELDS = ['firstName', 'lastName', 'email', 'phone', 'company', 'position', 'remarks', 'dateJoined', 'website', 'facebook', 'instagram', 'avatarUrl'] as const;
+export type MergeField = typeof MERGE_FIELDS[number];
+export type MergeChoices = Partial<Record<MergeField, 'existing' | 'incoming'>>;
+
+// Fields both sides fill in differently, i.e. the ones the user has to decide on
+export const getConflicts = (existing: Contact, draft: ContactDraft): MergeField[] =>
+  MERGE_FIELDS.filter(field => !!existing[field] && !!draft[field] && existing[field]!.trim() !== draft[field]!.trim());
+
+// Unchosen conflicts keep the existing value; empty fields are filled from the import; groups are combined
+export const mergeContact = (existing: Contact, draft: ContactDraft, choices: MergeChoices, groupIds: string[]): Contact => {
+  const merged: Contact = { ...existing, customGroups: [...new Set([...(existing.customGroups || []), ...groupIds])] };
+  MERGE_FIELDS.forEach(field => {
+    const incoming = draft[field] || '';
+    if (!incoming) return;
+    if (!existing[field] || choices[field] === 'incoming') merged[field] = incoming;
+  });
+  return merged;
+};
+
+export type ImportAction = 'add' | 'merge' | 'skip';
+
+export interface ImportCandidate {
+  draft: ContactDraft;
+  duplicateOf?: Contact;
+  action: ImportAction;
+  choices: MergeChoices;
+}
+
+// Duplicates default to merging; people repeated within the same file are matched against earlier rows too
+export const planImport = (drafts: ContactDraft[], contacts: Contact[]): ImportCandidate[] => {
+  const seen: Contact[] = [];
+  return drafts.map(draft => {
+    const duplicateOf = findDuplicate(draft, contacts);
+    const repeated = !duplicateOf && findDuplicate(draft, seen);
+    seen.push({ ...draft, id: '', createdAt: 0, customGroups: [] });
+    return { draft, duplicateOf, action: repeated ? 'skip' : duplicateOf ? 'merge' : 'add', choices: {} };
+  });
+};
+
+export interface ImportResult { directory: Directory; added: number; merged: number; skipped: number; }
+
+// Group names are matched case-insensitively against the directory; unknown ones become new groups
+export const applyImport = (directory: Directory, candidates: ImportCandidate[]): ImportResult => {
+  const groups = [...directory.groups];
+  const groupIdsFor = (names: string[]) => names.map(name => {
+    const existing = groups.find(g => g.name.toLowerCase() === name.toLowerCase());
+    if (existing) return existing.id;
+    const group = createGroup(name, GROUP_COLORS[groups.length % GROUP_COLORS.length]);
+    groups.push(group);
+    return group.id;
+  });
+  let contacts = [...directory.contacts]; let added = 0; let merged = 0; let skipped = 0;
+  candidates.forEach(({ draft, duplicateOf, action, choices }) => {
+    if (action === 'skip') { skipped++; return; }
+    const { groupNames, ...fields } = draft;
+    const groupIds = groupIdsFor(groupNames);
+    if (action === 'merge' && duplicateOf) { contacts = contacts.map(c => c.id === duplicateOf.id ? mergeContact(c, draft, choices, groupIds) : c); merged++; }
+    else { contacts.push(createContact({ ...fields, customGroups: groupIds })); added++; }
+  });
+  return { directory: { contacts, groups }, added, merged, skipped };
+};
@@ -0,0 +1,119 @@
+import { BoardItem, Contact, CustomGroup, NewContact, PlanningRoom } from "../types";
+import { INITIAL_CONTACTS } from "../constants";
+import { StorageAdapter, asString, isRecord } from "./storageService";
+import { initialsOf } from "./scheduleService";
+import { escapeXml } from "./fileService";
+
+// The people directory is shared by every room, so it is stored once rather than inside each room
+export interface Directory {
+  contacts: Contact[];
+  groups: CustomGroup[];
+}
+
+export interface DirectoryStore {
+  load(): Promise<Directory>;
+  save(directory: Directory): Promise<void>;
+}
+
+export const DIRECTORY_STORAGE_KEY = 'nexus_planning_directory';
+export const GROUP_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#14b8a6', '#64748b'];
+
+export const EMPTY_DIRECTORY: Directory = { contacts: INITIAL_CONTACTS, groups: [] };
+
+const isHexColor = (value: unknown): value is string => typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+
+// Drops records without an id or name and group ids that no longer exist; everything else gets a safe default
+export const sanitizeDirectory = (raw: unknown): Directory => {
+  const source = isRecord(raw) ? raw : {};
+  const groups: CustomGroup[] = (Array.isArray(source.groups) ? source.groups : [])
+    .filter((g): g is Record<string, unknown> & { id: string; name: string } => isRecord(g) && typeof g.id === 'string' && typeof g.name === 'string')
+    .map(g => ({ id: g.id, name: g.name, color: isHexColor(g.color) ? g.color : GROUP_COLORS[0] }));
+  const groupIds = new Set(groups.map(g => g.id));
+  const contacts: Contact[] = (Array.isArray(source.contacts) ? source.contacts : [])
+    .filter((c): c is Record<string, unknown> & { id: string; firstName: string } => isRecord(c) && typeof c.id === 'string' && typeof c.firstName === 'string')
+    .map(c => ({
+      id: c.id, firstName: c.firstName,
+      lastName: asString(c.lastName), email: asString(c.email), phone: asString(c.phone), company: asString(c.company), position: asString(c.position),
+      remarks: asString(c.remarks), avatarUrl: asString(c.avatarUrl), dateJoined: asString(c.dateJoined),
+      createdAt: typeof c.createdAt === 'number' ? c.createdAt : Date.now(),
+      ...(typeof c.facebook === 'string' ? { facebook: c.facebook } : {}),
+      ...(typeof c.instagram === 'string' ? { instagram: c.instagram } : {}),
+      ...(typeof c.website === 'string' ? { website: c.website } : {}),
+      customGroups: Array.isArray(c.customGroups) ? c.customGroups.filter((id): id is string => typeof id === 'string' && groupIds.has(id)) : [],
+    }));
+  return { contacts, groups };
+};
+
+export const createAdapterDirectoryStore = (adapter: StorageAdapter): DirectoryStore => ({
+  load: async () => {
+    const raw = await adapter.getItem(DIRECTORY_STORAGE_KEY);
+    if (!raw) return EMPTY_DIRECTORY;
+    // Unreadable data is reported rather than replaced, so it is not saved over
+    let parsed: unknown;
+    try { parsed = JSON.parse(raw); } catch { throw new Error('The saved contacts are not valid JSON.'); }
+    return sanitizeDirectory(parsed);
+  },
+  save: (directory) => adapter.setItem(DIRECTORY_STORAGE_KEY, JSON.stringify(directory)),
+});
+
+// --- CONTACTS ---
+
+export const fullName = (contact: Pick<Contact, 'firstName' | 'lastName'>) => `${contact.firstName} ${contact.lastName}`.trim();
+
+export const createContact = (data: NewContact, now: number = Date.now()): Contact => ({
+  ...data,
+  id: Math.random().toString(36).substr(2, 9),
+  createdAt: now,
+  avatarUrl: data.avatarUrl || '',
+});
+
+export const upsertContact = (directory: Directory, data: NewContact | Contact): Directory =>
+  'id' in data && directory.contacts.some(c => c.id === data.id)
+    ? { ...directory, contacts: directory.contacts.map(c => c.id === data.id ? data : c) }
+    : { ...directory, contacts: [...directory.contacts, 'id' in data ? data : createContact(data)] };
+
+// Items keep a deleted contact's id, so re-adding the person (e.g. from an import) restores their assignments
+export const removeContact = (directory: Directory, id: string): Directory => ({ ...directory, contacts: directory.contacts.filter(c => c.id !== id) });
+
+export const createGroup = (name: string, color: string = GROUP_COLORS[0]): CustomGroup => ({ id: Math.random().toString(36).substr(2, 9), name: name.trim(), color });
+
+export const removeGroup = (directory: Directory, id: string): Directory => ({
+  groups: directory.groups.filter(g => g.id !== id),
+  contacts: directory.contacts.map(c => c.customGroups?.includes(id) ? { ...c, customGroups: c.customGroups.filter(g => g !== id) } : c),
+});
+
+const colorFor = (id: string) => GROUP_COLORS[[...id].reduce((sum, ch) => sum + ch.charCodeAt(0), 0) % GROUP_COLORS.length];
+
+// The contact's photo, or an initials badge in a colour derived from their id
+export const avatarOf = (contact: Contact): string => {
+  if (contact.avatarUrl) return contact.avatarUrl;
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="64" height="64"><rect width="64" height="64" fill="${colorFor(contact.id)}"/><text x="32" y="41" font-family="sans-serif" font-size="26" font-weight="700" fill="#fff" text-anchor="middle">${escapeXml(initialsOf(fullName(contact)) || '?')}</text></svg>`;
+  return `data:image/svg+xml,${encodeURIComponent(svg)}`;
+};
+
+// --- ASSIGNMENTS ---
+
+export interface Owner {
+  name: string;
+  contact?: Contact;
+}
+
+// Who an item is assigned to: a directory contact, else the free-text owner; a deleted contact counts as unassigned
+export const getOwner = (item: BoardItem, contactsById: Map<string, Contact>): Owner | null => {
+  const contact = item.assigneeId ? contactsById.get(item.assigneeId) : undefined;
+  if (contact) return { name: fullName(contact), contact };
+  return item.assignee ? { name: item.assignee } : null;
+};
+
+export interface AssignedItem {
+  room: PlanningRoom;
+  item: BoardItem;
+}
+
+// Every item across the rooms assigned to each contact, open work first
+export const getWorkByContact = (rooms: PlanningRoom[]): Map<string, AssignedItem[]> => {
+  const byContact = new Map<string, AssignedItem[]>();
+  rooms.forEach(room => room.items.forEach(item => { if (item.assigneeId) byContact.set(item.assigneeId, [...(byContact.get(item.assigneeId) || []), { room, item }]); }));
+  byContact.forEach(list => list.sort((a, b) => Number(!!a.item.isCompleted) - Number(!!b.item.isCompleted)));
+  return byContact;
+};
@@ -0,0 +1,154 @@
+import { BoardItem, BoardLink } from "../types";
+
+// Links point downstream (objective → task → goal): the `to` item depends on the `from` item.
+// Alternative links are optional routes, so they never block work or lengthen a critical path.
+export const isBlockingLink = (link: BoardLink) => link.variant !== 'alternative';
+
+// An objective linking to a task breaks the objective down (the wizard and drafts create these): that is structure, not a
+// dependency, so a task never waits on its own open objective. The objective's progress follows its tasks instead.
+export const isBreakdownLink = (link: BoardLink, byId: Map<string, BoardItem>) => byId.get(link.fromId)?.type === 'objective' && byId.get(link.toId)?.type === 'sticky';
+
+// Links that make the `to` item wait for the `from` item
+export const isDependencyLink = (link: BoardLink, byId: Map<string, BoardItem>) => isBlockingLink(link) && link.fromId !== link.toId && byId.has(link.fromId) && byId.has(link.toId) && !isBreakdownLink(link, byId);
+
+// Items that carry a completion state; notes, images and idea strips are reference material and never block anything
+export const ACTIONABLE_TYPES: BoardItem['type'][] = ['sticky', 'objective', 'goal'];
+export const isActionable = (item: BoardItem) => ACTIONABLE_TYPES.includes(item.type);
+const isOpen = (item: BoardItem) => isActionable(item) && !item.isCompleted;
+
+export interface CriticalPath {
+  goalId: string;
+  // Item ids from the first unfinished upstream item to the goal
+  itemIds: string[];
+  linkIds: string[];
+  // Unfinished items on the path, the goal included
+  remaining: number;
+}
+
+export interface BlockedItem {
+  itemId: string;
+  // Unfinished items directly upstream
+  blockerIds: string[];
+}
+
+export interface DependencyAnalysis {
+  cycles: string[][];
+  criticalPaths: CriticalPath[];
+  blocked: BlockedItem[];
+  orphans: string[];
+}
+
+const validLinks = (items: BoardItem[], links: BoardLink[]) => {
+  const ids = new Set(items.map(i => i.id));
+  return links.filter(l => ids.has(l.fromId) && ids.has(l.toId));
+};
+
+// Tarjan's strongly connected components; every component with more than one item (or a self-link) is a cycle
+export const findCycles = (items: BoardItem[], links: BoardLink[]): string[][] => {
+  const edges = validLinks(items, links);
+  const outgoing = new Map<string, string[]>(items.map(i => [i.id, []]));
+  edges.forEach(l => outgoing.get(l.fromId)!.push(l.toId));
+  const selfLinked = new Set(edges.filter(l => l.fromId === l.toId).map(l => l.fromId));
+
+  const index = new Map<string, number>(); const lowLink = new Map<string, number>();
+  const stack: string[] = []; const onStack = new Set<string>();
+  const cycles: string[][] = [];
+  let counter = 0;
+
+  // Iterative so long chains on big boards can't overflow the call stack
+  items.forEach(root => {
+    if (index.has(root.id)) return;
+    const work: { id: string; next: number }[] = [{ id: root.id, next: 0 }];
+    index.set(root.id, counter); lowLink.set(root.id, counter); counter++; stack.push(root.id); onStack.add(root.id);
+    while (work.length > 0) {
+      const frame = work[work.length - 1];
+      const targets = outgoing.get(frame.id)!;
+      if (frame.next < targets.length) {
+        const target = targets[frame.next++];
+        if (!index.has(target)) {
+          index.set(target, counter); lowLink.set(target, counter); counter++; stack.push(target); onStack.add(target);
+          work.push({ id: target, next: 0 });
+        } else if (onStack.has(target)) {
+          lowLink.set(frame.id, Math.min(lowLink.get(frame.id)!, index.get(target)!));
+        }
+        continue;
+      }
+      work.pop();
+      if (work.length > 0) { const parent = work[work.length - 1].id; lowLink.set(parent, Math.min(lowLink.get(parent)!, lowLink.get(frame.id)!)); }
+      if (lowLink.get(frame.id) === index.get(frame.id)) {
+        const component: string[] = [];
+        let member: string;
+        do { member = stack.pop()!; onStack.delete(member); component.push(member); } while (member !== frame.id);
+        if (component.length > 1 || selfLinked.has(frame.id)) cycles.push(component.reverse());
+      }
+    }
+  });
+  return cycles;
+};
+
+// Longest chain of unfinished work feeding each goal. Completed items cost nothing, so the path follows what is left to do;
+// links inside a cycle are ignored because a cycle has no longest path
+export const findCriticalPaths = (items: BoardItem[], links: BoardLink[], cycles: string[][] = findCycles(items, links)): CriticalPath[] => {
+  const byId = new Map(items.map(i => [i.id, i]));
+  const cycleOf = new Map<string, number>();
+  cycles.forEach((cycle, i) => cycle.forEach(id => cycleOf.set(id, i)));
+  const edges = links.filter(l => isDependencyLink(l, byId) && !(cycleOf.has(l.fromId) && cycleOf.get(l.fromId) === cycleOf.get(l.toId)));
+  const incoming = new Map<string, BoardLink[]>(items.map(i => [i.id, []]));
+  edges.forEach(l => incoming.get(l.toId)!.push(l));
+
+  // Longest upstream cost ending at each item, memoised; critical links win ties. Resolved with an explicit stack
+  // (upstream items first) so long chains can't overflow the call stack, which works because cycle links are left out.
+  const best = new Map<string, { cost: number; via: BoardLink | null }>();
+  const cost = (start: string): number => {
+    const stack = [start];
+    while (stack.length > 0) {
+      const id = stack[stack.length - 1];
+      if (best.has(id)) { stack.pop(); continue; }
+      const pending = incoming.get(id)!.filter(link => !best.has(link.fromId));
+      if (pending.length > 0) { pending.forEach(link => stack.push(link.fromId)); continue; }
+      stack.pop();
+      const own = isOpen(byId.get(id)!) ? 1 : 0;
+      let result = { cost: own, via: null as BoardLink | null };
+      incoming.get(id)!.forEach(link => {
+        const candidate = best.get(link.fromId)!.cost + own;
+        if (candidate > result.cost || (candidate === result.cost && candidate > own && link.variant === 'critical' && result.via?.variant !== 'critical')) result = { cost: candidate, via: link };
+      });
+      best.set(id, result);
+    }
+    return best.get(start)!.cost;
+  };
+
+  return items.filter(i => i.type === 'goal').map(goal => {
+    const remaining = cost(goal.id);
+    const itemIds = [goal.id]; const linkIds: string[] = [];
+    let step = best.get(goal.id)!;
+    while (step.via) {
+      linkIds.unshift(step.via.id); itemIds.unshift(step.via.fromId);
+      step = best.get(step.via.fromId)!;
+    }
+    // Leading completed items add nothing to the path
+    while (itemIds.length > 1 && !isOpen(byId.get(itemIds[0])!)) { itemIds.shift(); linkIds.shift(); }
+    return { goalId: goal.id, itemIds, linkIds, remaining };
+  });
+};
+
+export const findBlockedItems = (items: BoardItem[], links: BoardLink[]): BlockedItem[] => {
+  const byId = new Map(items.map(i => [i.id, i]));
+  const blockers = new Map<string, Set<string>>();
+  links.forEach(l => {
+    if (!isDependencyLink(l, byId) || !isOpen(byId.get(l.fromId)!) || !isOpen(byId.get(l.toId)!)) return;
+    if (!blockers.has(l.toId)) blockers.set(l.toId, new Set());
+    blockers.get(l.toId)!.add(l.fromId);
+  });
+  return items.filter(item => blockers.has(item.id)).map(item => ({ itemId: item.id, blockerIds: [...blockers.get(item.id)!] }));
+};
+
+export const findOrphans = (items: BoardItem[], links: BoardLink[]): string[] => {
+  const linked = new Set(validLinks(items, links).flatMap(l => [l.fromId, l.toId]));
+  return items.filter(i => !linked.has(i.id)).map(i => i.id);
+};
+
+export const analyzeDependencies = (items: BoardItem[], links: BoardLink[]): DependencyAnalysis => {
+  const cycles = findCycles(items, links);
+  return { cycles, criticalPaths: findCriticalPaths(items, links, cycles), blocked: findBlockedItems(items, links), orphans: findOrphans(items, links) };
+};
@@ -0,0 +1,42 @@
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Fetches a remote file as a data URL; null when the host refuses (CORS, offline, 404)
+export const fetchAsDataUrl = async (url: string): Promise<string | null> => {
+  if (url.startsWith('data:')) return url;
+  if (!/^https?:\/\//.test(url)) return null;
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    return await blobToDataUrl(await response.blob());
+  } catch {
+    return null;
+  }
+};
+
+// For text placed in SVG or HTML markup; the numeric apostrophe works in both
+export const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+export const slugify = (value: string, fallback = 'untitled') =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || fallback;
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = fileName;
+  document.body.appendChild(anchor);
+  anchor.click();
+  anchor.remove();
+  // Some browsers start the download after click() returns, so the URL has to outlive this call
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const downloadText = (content: string, fileName: string, mimeType: string) =>
+  downloadBlob(new Blob([content], { type: mimeType }), fileName);
@@ -1,18 +1,64 @@
+import { ApiError, GoogleGenAI } from "@google/genai";
+import { AiProvider } from "./aiService";
 
-import { GoogleGenAI } from "@google/genai";
+const MODEL = 'gemini-3-flash-preview';
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Created on first use, so the app still loads when no API key is configured
+let client: GoogleGenAI | null = null;
+const getClient = () => (client ||= new GoogleGenAI({ apiKey: process.env.API_KEY }));
+
+export const hasGeminiApiKey = () => !!process.env.API_KEY;
+
+// Turns a failed call into a message the user can act on; the original error stays attached as `cause` for whoever logs it
+const describeFailure = (error: unknown): Error => {
+  const fail = (message: string) => new Error(message, { cause: error });
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return fail('You are offline, so the model could not be reached.');
+  if (error instanceof ApiError) {
+    if (error.status === 401 || error.status === 403) return fail('The Gemini API key was rejected. Check GEMINI_API_KEY and try again.');
+    if (error.status === 400) return fail('Gemini could not handle this request. Try again with a shorter or simpler input.');
+    if (error.status === 429) return fail('The Gemini quota is used up for now. Try again in a minute.');
+    if (error.status >= 500) return fail('Gemini is unavailable right now. Try again later.');
+  }
+  return fail('The model could not be reached. Check your connection and try again.');
+};
 
 export const generateProfessionalBio = async (name: string, company: string, position: string): Promise<string> => {
+  let text: string | undefined;
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
+    const response = await getClient().models.generateContent({
+      model: MODEL,
       contents: `Generate a professional, short (max 2 sentences) bio for a person named ${name} who works as a ${position} at ${company}. Make it sound modern and engaging.`,
     });
-    
-    return response.text?.trim() || "No bio generated.";
+    text = response.text;
   } catch (error) {
-    console.error("Error generating bio:", error);
-    return "Professional bio generation failed. Please try again later.";
+    throw describeFailure(error);
   }
+  if (!text?.trim()) throw new Error('The model returned an empty response.');
+  return text.trim();
 };
+
+// Models sometimes wrap JSON in a Markdown fence despite being asked not to
+const parseJsonResponse = (text: string): unknown => {
+  const trimmed = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  if (!trimmed) throw new Error('The model returned an empty response.');
+  try { return JSON.parse(trimmed); } catch { throw new Error('The model did not return valid JSON.'); }
+};
+
+export const createGeminiProvider = (): AiProvider => ({
+  id: 'gemini',
+  label: 'Gemini',
+  generateJson: async ({ prompt, schema }) => {
+    let text: string | undefined;
+    try {
+      const response = await getClient().models.generateContent({
+        model: MODEL,
+        contents: prompt,
+        config: { responseMimeType: 'application/json', responseJsonSchema: schema },
+      });
+      text = response.text;
+    } catch (error) {
+      throw describeFailure(error);
+    }
+    return parseJsonResponse(text || '');
+  },
+});
@@ -0,0 +1,93 @@
+import { BoardItem, BoardLink } from "../types";
+
+export type HistoryAction = 'add' | 'move' | 'edit' | 'delete' | 'link-create' | 'link-delete' | 'sync' | 'layout' | 'restore';
+
+export interface BoardSnapshot {
+  items: BoardItem[];
+  links: BoardLink[];
+}
+
+// Optional metadata a board change carries so it can be grouped in the history
+export interface HistoryMeta {
+  action: HistoryAction;
+  mergeKey?: string;
+}
+
+export interface HistoryEntry {
+  action: HistoryAction;
+  mergeKey?: string;
+  before: BoardSnapshot;
+  after: BoardSnapshot;
+  timestamp: number;
+}
+
+export interface RoomHistory {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+const HISTORY_LIMIT = 100;
+// Changes sharing a merge key within this window collapse into one undo step
+const MERGE_WINDOW_MS = 1500;
+
+export const EMPTY_HISTORY: RoomHistory = { past: [], future: [] };
+
+export const recordChange = (history: RoomHistory, before: BoardSnapshot, after: BoardSnapshot, meta: HistoryMeta, timestamp: number = Date.now()): RoomHistory => {
+  const last = history.past[history.past.length - 1];
+  if (last && meta.mergeKey && last.mergeKey === meta.mergeKey && timestamp - last.timestamp < MERGE_WINDOW_MS) {
+    const merged: HistoryEntry = { ...last, after, timestamp };
+    return { past: [...history.past.slice(0, -1), merged], future: [] };
+  }
+  const entry: HistoryEntry = { action: meta.action, mergeKey: meta.mergeKey, before, after, timestamp };
+  return { past: [...history.past, entry].slice(-HISTORY_LIMIT), future: [] };
+};
+
+// Replays what changed between `from` and `to` onto `current`, leaving every item, field and link the entry did not touch
+// as it is now, so stepping through the history never reverts what collaborators did in the meantime
+export const rebaseChange = (current: BoardSnapshot, from: BoardSnapshot, to: BoardSnapshot): BoardSnapshot => {
+  if (current.items === from.items && current.links === from.links) return to;
+  const fromItems = new Map(from.items.map(i => [i.id, i]));
+  const toItems = new Map(to.items.map(i => [i.id, i]));
+  const items = current.items.flatMap(item => {
+    const before = fromItems.get(item.id); const after = toItems.get(item.id);
+    if (before && !after) return [];
+    if (!before || !after || before === after) return [item];
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)] as (keyof BoardItem)[]);
+    const patched: Record<string, unknown> = { ...item };
+    keys.forEach(key => { if (before[key] !== after[key]) { if (after[key] === undefined) delete patched[key]; else patched[key] = after[key]; } });
+    return [patched as unknown as BoardItem];
+  });
+  const currentIds = new Set(current.items.map(i => i.id));
+  to.items.forEach(item => { if (!fromItems.has(item.id) && !currentIds.has(item.id)) items.push(item); });
+
+  const fromLinks = new Map(from.links.map(l => [l.id, l]));
+  const toLinks = new Map(to.links.map(l => [l.id, l]));
+  const links = current.links.flatMap(link => {
+    const before = fromLinks.get(link.id); const after = toLinks.get(link.id);
+    if (before && !after) return [];
+    return [before && after && before !== after ? after : link];
+  });
+  const currentLinkIds = new Set(current.links.map(l => l.id));
+  to.links.forEach(link => { if (!fromLinks.has(link.id) && !currentLinkIds.has(link.id)) links.push(link); });
+  // A link whose end a collaborator removed meanwhile cannot come back on its own
+  const ids = new Set(items.map(i => i.id));
+  return { items, links: links.filter(l => ids.has(l.fromId) && ids.has(l.toId)) };
+};
+
+export const undo = (history: RoomHistory, current: BoardSnapshot): { history: RoomHistory; snapshot: BoardSnapshot } | null => {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return {
+    history: { past: history.past.slice(0, -1), future: [entry, ...history.future] },
+    snapshot: rebaseChange(current, entry.after, entry.before)
+  };
+};
+
+export const redo = (history: RoomHistory, current: BoardSnapshot): { history: RoomHistory; snapshot: BoardSnapshot } | null => {
+  const entry = history.future[0];
+  if (!entry) return null;
+  return {
+    history: { past: [...history.past, entry], future: history.future.slice(1) },
+    snapshot: rebaseChange(current, entry.before, entry.after)
+  };
+};
@@ -0,0 +1,391 @@
+import { BoardItem, PlanningRoom, Tool } from "../types";
+import {
+  CURRENT_SCHEMA_VERSION, LoadResult, QuarantinedEntry, RoomStore,
+  createAdapterRoomStore, loadRooms, localStorageAdapter, runMigrations, validateRooms, ROOMS_STORAGE_KEY
+} from "./storageService";
+import { blobToDataUrl } from "./fileService";
+import { SnapshotStore, createAdapterSnapshotStore, sanitizeSnapshots } from "./snapshotService";
+import { Directory, DirectoryStore, EMPTY_DIRECTORY, createAdapterDirectoryStore, sanitizeDirectory } from "./contactService";
+import { ToolStore, createAdapterToolStore, sanitizeTools } from "./toolService";
+import { INITIAL_TOOLS } from "../constants";
+
+const DB_NAME = 'nexus_planning_room';
+const DB_VERSION = 3;
+
+// Object stores: room metadata + links, one record per board item, de-duplicated binary assets
+const META_STORE = 'meta';
+const ROOMS_STORE = 'rooms';
+const ITEMS_STORE = 'items';
+const ASSETS_STORE = 'assets';
+const QUARANTINE_STORE = 'quarantine';
+// Added in version 2: room snapshots, indexed by room
+const SNAPSHOTS_STORE = 'snapshots';
+// Added in version 3: shared registries, one record each (the contact directory, the tools registry)
+const DIRECTORY_STORE = 'directory';
+
+// Item fields that may hold a base64 data URL worth moving into the assets store
+const ASSET_FIELDS = ['content', 'backgroundImageUrl'] as const;
+const ASSET_REF_PREFIX = 'idb-asset:';
+
+interface MetaRecord { key: 'schema'; version: number; migratedFromLocalStorage: boolean; }
+type RoomRecord = Omit<PlanningRoom, 'items'> & { itemIds: string[]; order: number; };
+interface ItemRecord { key: string; roomId: string; item: BoardItem; }
+interface AssetRecord { id: string; blob: Blob; }
+
+// --- IDB HELPERS ---
+
+const requestToPromise = <T,>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new DOMException('Transaction aborted', 'AbortError'));
+  });
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE, { keyPath: 'key' });
+      if (!db.objectStoreNames.contains(ROOMS_STORE)) db.createObjectStore(ROOMS_STORE, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(ITEMS_STORE)) db.createObjectStore(ITEMS_STORE, { keyPath: 'key' }).createIndex('roomId', 'roomId');
+      if (!db.objectStoreNames.contains(ASSETS_STORE)) db.createObjectStore(ASSETS_STORE, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(QUARANTINE_STORE)) db.createObjectStore(QUARANTINE_STORE, { autoIncrement: true });
+      if (!db.objectStoreNames.contains(SNAPSHOTS_STORE)) db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'id' }).createIndex('roomId', 'roomId');
+      if (!db.objectStoreNames.contains(DIRECTORY_STORE)) db.createObjectStore(DIRECTORY_STORE, { keyPath: 'key' });
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab is upgrading to a newer version: step aside so it is not blocked, and reconnect on next use
+      db.onversionchange = () => { db.close(); connection = null; };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('Another tab still has an older version of the app open. Close it and reload this page.'));
+  });
+
+// One connection shared by every store; dropped when it fails or another tab takes over the database
+let connection: Promise<IDBDatabase> | null = null;
+const getDb = (): Promise<IDBDatabase> => (connection ||= openDatabase().catch(error => { connection = null; throw error; }));
+
+export const isIndexedDbAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+// --- ASSETS ---
+
+const isDataUrl = (value: unknown): value is string => typeof value === 'string' && value.startsWith('data:');
+
+// FNV-1a over the data URL; the length suffix keeps accidental 32-bit collisions out of the way
+const hashString = (value: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${(hash >>> 0).toString(36)}-${value.length.toString(36)}`;
+};
+
+const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, payload = ''] = dataUrl.split(',', 2);
+  const mime = header.slice(5).split(';')[0] || 'application/octet-stream';
+  if (!header.includes(';base64')) return new Blob([decodeURIComponent(payload)], { type: mime });
+  const binary = atob(payload);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mime });
+};
+
+// --- STORE ---
+
+export const createIndexedDbRoomStore = (): RoomStore => {
+
+  // What was last written, so a save only touches records that actually changed.
+  // Board state is immutable, so an unchanged item keeps its object identity between saves.
+  const savedItems = new Map<string, BoardItem>();
+  const savedRoomRecords = new Map<string, string>();
+  const assetIdByDataUrl = new Map<string, string>();
+  const savedAssetIds = new Set<string>();
+
+  const itemKey = (roomId: string, itemId: string) => `${roomId}/${itemId}`;
+
+  const toStoredItem = (item: BoardItem, newAssets: Map<string, string>): BoardItem => {
+    let stored = item;
+    ASSET_FIELDS.forEach(field => {
+      const value = item[field];
+      if (!isDataUrl(value)) return;
+      let assetId = assetIdByDataUrl.get(value);
+      if (!assetId) { assetId = hashString(value); assetIdByDataUrl.set(value, assetId); }
+      if (!savedAssetIds.has(assetId)) newAssets.set(assetId, value);
+      stored = { ...stored, [field]: `${ASSET_REF_PREFIX}${assetId}` };
+    });
+    return stored;
+  };
+
+  const referencedAssetIds = (rooms: PlanningRoom[]): Set<string> => {
+    const ids = new Set<string>();
+    rooms.forEach(room => room.items.forEach(item => ASSET_FIELDS.forEach(field => {
+      const value = item[field];
+      if (isDataUrl(value)) { const id = assetIdByDataUrl.get(value); if (id) ids.add(id); }
+    })));
+    return ids;
+  };
+
+  const readAll = async (db: IDBDatabase) => {
+    const tx = db.transaction([META_STORE, ROOMS_STORE, ITEMS_STORE, ASSETS_STORE], 'readonly');
+    const [meta, roomRecords, itemRecords, assetRecords] = await Promise.all([
+      requestToPromise(tx.objectStore(META_STORE).get('schema')) as Promise<MetaRecord | undefined>,
+      requestToPromise(tx.objectStore(ROOMS_STORE).getAll()) as Promise<RoomRecord[]>,
+      requestToPromise(tx.objectStore(ITEMS_STORE).getAll()) as Promise<ItemRecord[]>,
+      requestToPromise(tx.objectStore(ASSETS_STORE).getAll()) as Promise<AssetRecord[]>,
+    ]);
+    return { meta, roomRecords, itemRecords, assetRecords };
+  };
+
+  const assembleRooms = async (roomRecords: RoomRecord[], itemRecords: ItemRecord[], assetRecords: AssetRecord[]): Promise<unknown[]> => {
+    const assetUrls = new Map<string, string>();
+    await Promise.all(assetRecords.map(async asset => {
+      const url = await blobToDataUrl(asset.blob);
+      assetUrls.set(asset.id, url);
+      assetIdByDataUrl.set(url, asset.id);
+      savedAssetIds.add(asset.id);
+    }));
+
+    const itemsByKey = new Map(itemRecords.map(r => [r.key, r.item]));
+    return [...roomRecords].sort((a, b) => a.order - b.order).map(({ itemIds, order, ...room }) => ({
+      ...room,
+      items: itemIds.map(id => itemsByKey.get(itemKey(room.id, id))).filter(Boolean).map(item => {
+        let resolved = item as BoardItem;
+        ASSET_FIELDS.forEach(field => {
+          const value = resolved[field];
+          if (typeof value === 'string' && value.startsWith(ASSET_REF_PREFIX)) {
+            resolved = { ...resolved, [field]: assetUrls.get(value.slice(ASSET_REF_PREFIX.length)) || '' };
+          }
+        });
+        return resolved;
+      }),
+    }));
+  };
+
+  const writeQuarantine = async (db: IDBDatabase, entries: QuarantinedEntry[]) => {
+    if (entries.length === 0) return;
+    const tx = db.transaction(QUARANTINE_STORE, 'readwrite');
+    entries.forEach(entry => tx.objectStore(QUARANTINE_STORE).add(entry));
+    await transactionDone(tx);
+  };
+
+  const persist = async (rooms: PlanningRoom[]): Promise<void> => {
+    const db = await getDb();
+    const tx = db.transaction([META_STORE, ROOMS_STORE, ITEMS_STORE, ASSETS_STORE], 'readwrite');
+    const roomStore = tx.objectStore(ROOMS_STORE);
+    const itemStore = tx.objectStore(ITEMS_STORE);
+    const assetStore = tx.objectStore(ASSETS_STORE);
+
+    const nextItems = new Map<string, BoardItem>();
+    const nextRoomRecords = new Map<string, string>();
+    const newAssets = new Map<string, string>();
+
+    rooms.forEach((room, order) => {
+      const { items, ...meta } = room;
+      const record: RoomRecord = { ...meta, itemIds: items.map(i => i.id), order };
+      const serialized = JSON.stringify(record);
+      nextRoomRecords.set(room.id, serialized);
+      if (savedRoomRecords.get(room.id) !== serialized) roomStore.put(record);
+
+      items.forEach(item => {
+        const key = itemKey(room.id, item.id);
+        nextItems.set(key, item);
+        if (savedItems.get(key) !== item) itemStore.put({ key, roomId: room.id, item: toStoredItem(item, newAssets) } as ItemRecord);
+      });
+    });
+
+    savedRoomRecords.forEach((_, id) => { if (!nextRoomRecords.has(id)) roomStore.delete(id); });
+    savedItems.forEach((_, key) => { if (!nextItems.has(key)) itemStore.delete(key); });
+    newAssets.forEach((dataUrl, id) => assetStore.put({ id, blob: dataUrlToBlob(dataUrl) } as AssetRecord));
+
+    const referenced = referencedAssetIds(rooms);
+    const orphanedAssets = [...savedAssetIds].filter(id => !referenced.has(id));
+    orphanedAssets.forEach(id => assetStore.delete(id));
+
+    await transactionDone(tx);
+
+    savedItems.clear(); nextItems.forEach((item, key) => savedItems.set(key, item));
+    savedRoomRecords.clear(); nextRoomRecords.forEach((record, id) => savedRoomRecords.set(id, record));
+    newAssets.forEach((_, id) => savedAssetIds.add(id));
+    orphanedAssets.forEach(id => savedAssetIds.delete(id));
+    assetIdByDataUrl.forEach((id, url) => { if (!referenced.has(id)) assetIdByDataUrl.delete(url); });
+  };
+
+  // Saves arrive on every board change; coalesce them so at most one write is in flight
+  let pendingRooms: PlanningRoom[] | null = null;
+  let inFlight: Promise<void> | null = null;
+  const flush = async () => {
+    try {
+      while (pendingRooms) {
+        const next = pendingRooms;
+        pendingRooms = null;
+        try {
+          await persist(next);
+        } catch (error) {
+          // A batch queued during the failed write holds newer state, so it is still written; the error surfaces once nothing is waiting
+          if (!pendingRooms) throw error;
+        }
+      }
+    } finally {
+      inFlight = null;
+    }
+  };
+  const save = (rooms: PlanningRoom[]): Promise<void> => {
+    pendingRooms = rooms;
+    return (inFlight ||= flush());
+  };
+
+  // Copies the legacy localStorage rooms across once, then frees that key so it no longer counts against the quota
+  const migrateFromLocalStorage = async (db: IDBDatabase, fallback: PlanningRoom[]): Promise<LoadResult> => {
+    const legacy = await loadRooms(localStorageAdapter, fallback);
+    await persist(legacy.rooms);
+    const tx = db.transaction(META_STORE, 'readwrite');
+    tx.objectStore(META_STORE).put({ key: 'schema', version: CURRENT_SCHEMA_VERSION, migratedFromLocalStorage: true } as MetaRecord);
+    await transactionDone(tx);
+    await localStorageAdapter.removeItem(ROOMS_STORAGE_KEY);
+    return legacy;
+  };
+
+  const load = async (fallback: PlanningRoom[]): Promise<LoadResult> => {
+    const db = await getDb();
+    const { meta, roomRecords, itemRecords, assetRecords } = await readAll(db);
+    if (!meta?.migratedFromLocalStorage) return migrateFromLocalStorage(db, fallback);
+
+    if (meta.version > CURRENT_SCHEMA_VERSION) throw new Error(`Stored rooms use newer schema version ${meta.version}`);
+    const assembled = await assembleRooms(roomRecords, itemRecords, assetRecords);
+    const { rooms, quarantined } = validateRooms(runMigrations(assembled, meta.version));
+    await writeQuarantine(db, quarantined);
+
+    // Track every record on disk, so quarantined rooms and dropped items get cleaned up by the next save
+    roomRecords.forEach(record => savedRoomRecords.set(record.id, ''));
+    itemRecords.forEach(record => savedItems.set(record.key, record.item));
+
+    if (meta.version < CURRENT_SCHEMA_VERSION) {
+      await persist(rooms);
+      const tx = db.transaction(META_STORE, 'readwrite');
+      tx.objectStore(META_STORE).put({ ...meta, version: CURRENT_SCHEMA_VERSION });
+      await transactionDone(tx);
+    } else {
+      // Seed the change tracking with the loaded rooms so an unchanged room is not rewritten
+      rooms.forEach((room, order) => {
+        const { items, ...rest } = room;
+        savedRoomRecords.set(room.id, JSON.stringify({ ...rest, itemIds: items.map(i => i.id), order }));
+        items.forEach(item => savedItems.set(itemKey(room.id, item.id), item));
+      });
+    }
+
+    return { rooms, quarantined, migratedFrom: meta.version < CURRENT_SCHEMA_VERSION ? meta.version : null };
+  };
+
+  return { load, save };
+};
+
+// Whether the database opens at all; the browser reports that with a DOMException (private modes, disabled storage)
+const canOpenDatabase = (): Promise<boolean> =>
+  getDb().then(() => true, error => error instanceof DOMException ? false : Promise.reject(error));
+
+// IndexedDB when the browser offers it, otherwise (or if it cannot be opened) the localStorage envelope.
+// Errors reading a database that does open are passed on, so the caller never saves defaults over rooms it could not read.
+export const createDefaultRoomStore = (): RoomStore => {
+  const localStore = createAdapterRoomStore(localStorageAdapter);
+  if (!isIndexedDbAvailable()) return localStore;
+  const idbStore = createIndexedDbRoomStore();
+  let active: RoomStore = idbStore;
+  return {
+    load: async (fallback) => {
+      if (await canOpenDatabase()) return idbStore.load(fallback);
+      active = localStore;
+      return localStore.load(fallback);
+    },
+    save: (rooms) => active.save(rooms),
+  };
+};
+
+// --- SNAPSHOTS ---
+
+export const createIndexedDbSnapshotStore = (): SnapshotStore => {
+  const keysOf = async (db: IDBDatabase, roomId: string) => requestToPromise(db.transaction(SNAPSHOTS_STORE, 'readonly').objectStore(SNAPSHOTS_STORE).index('roomId').getAllKeys(roomId));
+  return {
+    list: async (roomId) => {
+      const db = await getDb();
+      const snapshots: unknown[] = await requestToPromise(db.transaction(SNAPSHOTS_STORE, 'readonly').objectStore(SNAPSHOTS_STORE).index('roomId').getAll(roomId));
+      return sanitizeSnapshots(snapshots).sort((a, b) => b.createdAt - a.createdAt);
+    },
+    put: async (snapshot) => {
+      const db = await getDb();
+      const tx = db.transaction(SNAPSHOTS_STORE, 'readwrite');
+      tx.objectStore(SNAPSHOTS_STORE).put(snapshot);
+      await transactionDone(tx);
+    },
+    remove: async (_roomId, ids) => {
+      const db = await getDb();
+      const tx = db.transaction(SNAPSHOTS_STORE, 'readwrite');
+      ids.forEach(id => tx.objectStore(SNAPSHOTS_STORE).delete(id));
+      await transactionDone(tx);
+    },
+    removeRoom: async (roomId) => {
+      const db = await getDb();
+      const keys = await keysOf(db, roomId);
+      const tx = db.transaction(SNAPSHOTS_STORE, 'readwrite');
+      keys.forEach(key => tx.objectStore(SNAPSHOTS_STORE).delete(key));
+      await transactionDone(tx);
+    },
+  };
+};
+
+// Same choice as the room store: IndexedDB when available, localStorage otherwise
+export const createDefaultSnapshotStore = (): SnapshotStore => isIndexedDbAvailable() ? createIndexedDbSnapshotStore() : createAdapterSnapshotStore(localStorageAdapter);
+
+// --- DIRECTORY ---
+
+interface DirectoryRecord extends Directory { key: 'directory'; }
+
+export const createIndexedDbDirectoryStore = (): DirectoryStore => {
+  return {
+    load: async () => {
+      const db = await getDb();
+      const record = await requestToPromise(db.transaction(DIRECTORY_STORE, 'readonly').objectStore(DIRECTORY_STORE).get('directory')) as DirectoryRecord | undefined;
+      return record ? sanitizeDirectory(record) : EMPTY_DIRECTORY;
+    },
+    save: async ({ contacts, groups }) => {
+      const db = await getDb();
+      const tx = db.transaction(DIRECTORY_STORE, 'readwrite');
+      tx.objectStore(DIRECTORY_STORE).put({ key: 'directory', contacts, groups } as DirectoryRecord);
+      await transactionDone(tx);
+    },
+  };
+};
+
+export const createDefaultDirectoryStore = (): DirectoryStore => isIndexedDbAvailable() ? createIndexedDbDirectoryStore() : createAdapterDirectoryStore(localStorageAdapter);
+
+// --- TOOLS ---
+
+// Kept beside the directory record, so the registry needs no schema upgrade
+interface ToolsRecord { key: 'tools'; tools: Tool[]; }
+
+export const createIndexedDbToolStore = (): ToolStore => {
+  return {
+    load: async () => {
+      const db = await getDb();
+      const record = await requestToPromise(db.transaction(DIRECTORY_STORE, 'readonly').objectStore(DIRECTORY_STORE).get('tools')) as ToolsRecord | undefined;
+      return record ? sanitizeTools(record.tools) : INITIAL_TOOLS;
+    },
+    save: async (tools) => {
+      const db = await getDb();
+      const tx = db.transaction(DIRECTORY_STORE, 'readwrite');
+      tx.objectStore(DIRECTORY_STORE).put({ key: 'tools', tools } as ToolsRecord);
+      await transactionDone(tx);
+    },
+  };
+};
+
+export const createDefaultToolStore = (): ToolStore => isIndexedDbAvailable() ? createIndexedDbToolStore() : createAdapterToolStore(localStorageAdapter);
@@ -0,0 +1,47 @@
+import { BoardItem, ItemStatus, KanbanColumn, PlanningRoom } from "../types";
+import { isActionable } from "./dependencyAnalysis";
+import { ITEM_STATUSES, STATUS_LABELS, getStatus, isItemStatus, statusPatch } from "./scheduleService";
+import { isRecord, isString } from "./storageService";
+
+export const DEFAULT_KANBAN_COLUMNS: KanbanColumn[] = ITEM_STATUSES.map(status => ({ id: status, title: STATUS_LABELS[status], status }));
+
+export const getKanbanColumns = (room: PlanningRoom): KanbanColumn[] => room.kanbanColumns && room.kanbanColumns.length > 0 ? room.kanbanColumns : DEFAULT_KANBAN_COLUMNS;
+
+// A card stays in the column it was dropped in while that column still matches its status; otherwise it goes to the first column for the status
+export const getColumnFor = (item: BoardItem, columns: KanbanColumn[]): KanbanColumn | undefined => {
+  const status = getStatus(item);
+  return columns.find(c => c.id === item.kanbanColumnId && c.status === status) || columns.find(c => c.status === status);
+};
+
+// Soonest due first; undated cards last
+const byDueDate = (a: BoardItem, b: BoardItem) => (a.dueDate || '\uffff').localeCompare(b.dueDate || '\uffff') || a.content.localeCompare(b.content);
+
+export const groupByColumn = (items: BoardItem[], columns: KanbanColumn[]): Map<string, BoardItem[]> => {
+  const groups = new Map<string, BoardItem[]>(columns.map(c => [c.id, []]));
+  items.filter(isActionable).forEach(item => { const column = getColumnFor(item, columns); if (column) groups.get(column.id)!.push(item); });
+  groups.forEach(cards => cards.sort(byDueDate));
+  return groups;
+};
+
+export const moveToColumn = (item: BoardItem, column: KanbanColumn): BoardItem => ({ ...item, ...statusPatch(column.status), kanbanColumnId: column.id });
+
+export const createKanbanColumn = (status: ItemStatus, title: string = STATUS_LABELS[status]): KanbanColumn => ({ id: Math.random().toString(36).substr(2, 9), title, status });
+
+// A column can only go if another one still takes its status, so no card is ever left without a column
+export const canRemoveColumn = (columns: KanbanColumn[], id: string) => { const column = columns.find(c => c.id === id); return !!column && columns.some(c => c.id !== id && c.status === column.status); };
+
+// Keeps well-formed columns and adds a default one for any status left uncovered; undefined when nothing usable remains
+export const sanitizeKanbanColumns = (raw: unknown): KanbanColumn[] | undefined => {
+  if (!Array.isArray(raw)) return undefined;
+  const columns: KanbanColumn[] = [];
+  for (const c of raw) {
+    if (!isRecord(c) || !isString(c.id) || !isString(c.title) || !isItemStatus(c.status)) continue;
+    // The first column with an id wins; later duplicates would make drops ambiguous
+    if (columns.some(column => column.id === c.id)) continue;
+    const { wipLimit } = c;
+    columns.push({ id: c.id, title: c.title, status: c.status, ...(typeof wipLimit === 'number' && Number.isInteger(wipLimit) && wipLimit > 0 ? { wipLimit } : {}) });
+  }
+  if (columns.length === 0) return undefined;
+  ITEM_STATUSES.filter(status => !columns.some(c => c.status === status)).forEach(status => columns.push(createKanbanColumn(status)));
+  return columns;
+};
@@ -0,0 +1,231 @@
+import { BoardItem, BoardLink } from "../types";
+import { Point, getItemDimensions } from "./boardGeometry";
+
+export type LayoutMode = 'hierarchical' | 'radial' | 'force';
+
+// Target top-left positions keyed by item id; locked items are never included
+export type LayoutResult = Map<string, Point>;
+
+const H_GAP = 80;
+const V_GAP = 140;
+const RING_GAP = 340;
+
+// Unlinked items fall back to these rows so goals still sit above objectives and tasks
+const TYPE_RANK: Record<BoardItem['type'], number> = { goal: 0, objective: 1, sticky: 2, 'idea-strip': 3, image: 3, text: 3 };
+
+const sizeOf = (item: BoardItem) => getItemDimensions(item.type);
+const centerOf = (item: BoardItem): Point => { const d = sizeOf(item); return { x: item.x + d.w / 2, y: item.y + d.h / 2 }; };
+const topLeftFor = (item: BoardItem, center: Point): Point => { const d = sizeOf(item); return { x: center.x - d.w / 2, y: center.y - d.h / 2 }; };
+
+const validLinks = (items: BoardItem[], links: BoardLink[]) => {
+  const ids = new Set(items.map(i => i.id));
+  return links.filter(l => l.fromId !== l.toId && ids.has(l.fromId) && ids.has(l.toId));
+};
+
+const centroid = (items: BoardItem[]): Point => {
+  if (items.length === 0) return { x: 0, y: 0 };
+  const sum = items.reduce((acc, item) => { const c = centerOf(item); return { x: acc.x + c.x, y: acc.y + c.y }; }, { x: 0, y: 0 });
+  return { x: sum.x / items.length, y: sum.y / items.length };
+};
+
+const withoutLocked = (items: BoardItem[], centers: Map<string, Point>): LayoutResult => {
+  const result: LayoutResult = new Map();
+  items.forEach(item => { const c = centers.get(item.id); if (c && !item.isLocked) result.set(item.id, topLeftFor(item, c)); });
+  return result;
+};
+
+// --- HIERARCHICAL ---
+
+// Longest-path layering along link direction, after dropping the back edges of any cycle
+const assignLayers = (items: BoardItem[], links: BoardLink[]): Map<string, number> => {
+  const outgoing = new Map<string, string[]>(items.map(i => [i.id, []]));
+  const state = new Map<string, 'visiting' | 'done'>();
+  const acyclic: BoardLink[] = [];
+  const adjacency = new Map<string, BoardLink[]>(items.map(i => [i.id, []]));
+  links.forEach(l => adjacency.get(l.fromId)!.push(l));
+  const visit = (id: string) => {
+    state.set(id, 'visiting');
+    adjacency.get(id)!.forEach(link => {
+      const next = state.get(link.toId);
+      if (next === 'visiting') return;
+      acyclic.push(link);
+      if (!next) visit(link.toId);
+    });
+    state.set(id, 'done');
+  };
+  [...items].sort((a, b) => TYPE_RANK[a.type] - TYPE_RANK[b.type]).forEach(item => { if (!state.has(item.id)) visit(item.id); });
+  acyclic.forEach(l => outgoing.get(l.fromId)!.push(l.toId));
+
+  const incomingCount = new Map<string, number>(items.map(i => [i.id, 0]));
+  acyclic.forEach(l => incomingCount.set(l.toId, incomingCount.get(l.toId)! + 1));
+  const layers = new Map<string, number>();
+  const queue = items.filter(i => incomingCount.get(i.id) === 0).map(i => i.id);
+  queue.forEach(id => layers.set(id, 0));
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    outgoing.get(id)!.forEach(next => {
+      layers.set(next, Math.max(layers.get(next) ?? 0, layers.get(id)! + 1));
+      incomingCount.set(next, incomingCount.get(next)! - 1);
+      if (incomingCount.get(next) === 0) queue.push(next);
+    });
+  }
+
+  const linked = new Set(links.flatMap(l => [l.fromId, l.toId]));
+  items.forEach(item => { if (!linked.has(item.id)) layers.set(item.id, TYPE_RANK[item.type]); });
+  return layers;
+};
+
+export const layoutHierarchical = (items: BoardItem[], links: BoardLink[]): LayoutResult => {
+  const edges = validLinks(items, links);
+  const layers = assignLayers(items, edges);
+  const rows: BoardItem[][] = [];
+  items.forEach(item => { const layer = layers.get(item.id) ?? 0; (rows[layer] ||= []).push(item); });
+  const compactRows = rows.filter(Boolean);
+
+  // A few barycentre sweeps so linked items line up and crossings drop
+  const neighbours = new Map<string, string[]>(items.map(i => [i.id, []]));
+  edges.forEach(l => { neighbours.get(l.fromId)!.push(l.toId); neighbours.get(l.toId)!.push(l.fromId); });
+  const orderIndex = new Map<string, number>();
+  compactRows.forEach(row => row.forEach((item, i) => orderIndex.set(item.id, i)));
+  for (let sweep = 0; sweep < 4; sweep++) {
+    const sequence = sweep % 2 === 0 ? compactRows.slice(1) : compactRows.slice(0, -1).reverse();
+    sequence.forEach(row => {
+      const barycentre = (item: BoardItem) => {
+        const ns = neighbours.get(item.id)!.filter(id => orderIndex.has(id));
+        return ns.length === 0 ? orderIndex.get(item.id)! : ns.reduce((sum, id) => sum + orderIndex.get(id)!, 0) / ns.length;
+      };
+      row.sort((a, b) => barycentre(a) - barycentre(b));
+      row.forEach((item, i) => orderIndex.set(item.id, i));
+    });
+  }
+
+  const origin = centroid(items);
+  const rowHeights = compactRows.map(row => Math.max(...row.map(i => sizeOf(i).h)));
+  const totalHeight = rowHeights.reduce((a, b) => a + b, 0) + V_GAP * (compactRows.length - 1);
+  const centers = new Map<string, Point>();
+  let y = origin.y - totalHeight / 2;
+  compactRows.forEach((row, r) => {
+    const rowWidth = row.reduce((sum, i) => sum + sizeOf(i).w, 0) + H_GAP * (row.length - 1);
+    let x = origin.x - rowWidth / 2;
+    row.forEach(item => {
+      const d = sizeOf(item);
+      centers.set(item.id, { x: x + d.w / 2, y: y + rowHeights[r] / 2 });
+      x += d.w + H_GAP;
+    });
+    y += rowHeights[r] + V_GAP;
+  });
+  return withoutLocked(items, centers);
+};
+
+// --- RADIAL ---
+
+export const layoutRadial = (items: BoardItem[], links: BoardLink[], centerId: string): LayoutResult => {
+  const center = items.find(i => i.id === centerId);
+  if (!center) return new Map();
+  const edges = validLinks(items, links);
+  const neighbours = new Map<string, string[]>(items.map(i => [i.id, []]));
+  edges.forEach(l => { neighbours.get(l.fromId)!.push(l.toId); neighbours.get(l.toId)!.push(l.fromId); });
+
+  // Breadth-first rings around the chosen item; anything unreachable goes on one outer ring
+  const ring = new Map<string, number>([[centerId, 0]]);
+  const parent = new Map<string, string>();
+  const queue = [centerId];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    neighbours.get(id)!.forEach(next => { if (!ring.has(next)) { ring.set(next, ring.get(id)! + 1); parent.set(next, id); queue.push(next); } });
+  }
+  const maxRing = Math.max(0, ...ring.values());
+  items.forEach(item => { if (!ring.has(item.id)) ring.set(item.id, maxRing + 1); });
+
+  const origin = centerOf(center);
+  const centers = new Map<string, Point>([[centerId, origin]]);
+  const angles = new Map<string, number>([[centerId, 0]]);
+  for (let r = 1; r <= maxRing + 1; r++) {
+    const members = items.filter(i => ring.get(i.id) === r);
+    // Keep children near their parent's angle so branches fan out instead of criss-crossing
+    members.sort((a, b) => (angles.get(parent.get(a.id) || '') ?? Infinity) - (angles.get(parent.get(b.id) || '') ?? Infinity));
+    const radius = r * RING_GAP;
+    members.forEach((item, i) => {
+      const angle = -Math.PI / 2 + (2 * Math.PI * i) / members.length;
+      angles.set(item.id, angle);
+      centers.set(item.id, { x: origin.x + Math.cos(angle) * radius, y: origin.y + Math.sin(angle) * radius });
+    });
+  }
+  return withoutLocked(items, centers);
+};
+
+// --- FORCE-DIRECTED ---
+
+const FORCE_IDEAL = 320;
+// Repulsion is cut off beyond this distance, so a grid with cells this size only has to compare neighbouring cells
+const FORCE_RANGE = FORCE_IDEAL * 2;
+// Pair comparisons allowed per run; large or tightly packed boards stop early rather than freezing the tab
+const FORCE_BUDGET = 20_000_000;
+
+// Fruchterman-Reingold from the current positions, so the result untangles rather than reshuffles the board
+export const layoutForce = (items: BoardItem[], links: BoardLink[], iterations = 300): LayoutResult => {
+  if (items.length === 0) return new Map();
+  const index = new Map(items.map((item, i) => [item.id, i]));
+  const edges = validLinks(items, links).map(l => [index.get(l.fromId)!, index.get(l.toId)!]);
+  const positions = items.map(centerOf);
+  const fixed = items.map(i => !!i.isLocked);
+
+  // Nudge coincident items apart deterministically so repulsion has a direction to work with
+  positions.forEach((p, i) => { p.x += (i % 7) * 0.5; p.y += (i % 5) * 0.5; });
+
+  let temperature = FORCE_IDEAL;
+  let work = 0;
+  for (let step = 0; step < iterations && work < FORCE_BUDGET; step++) {
+    const dx = new Float64Array(items.length); const dy = new Float64Array(items.length);
+    const cells = new Map<string, number[]>();
+    positions.forEach((p, i) => { const key = `${Math.floor(p.x / FORCE_RANGE)},${Math.floor(p.y / FORCE_RANGE)}`; const cell = cells.get(key); if (cell) cell.push(i); else cells.set(key, [i]); });
+    positions.forEach((pa, a) => {
+      const cx = Math.floor(pa.x / FORCE_RANGE); const cy = Math.floor(pa.y / FORCE_RANGE);
+      for (let ox = -1; ox <= 1; ox++) for (let oy = -1; oy <= 1; oy++) {
+        const cell = cells.get(`${cx + ox},${cy + oy}`);
+        if (!cell) continue;
+        work += cell.length;
+        // Each pair is seen from both sides; only the lower index applies it
+        cell.forEach(b => {
+          if (b <= a) return;
+          const pb = positions[b];
+          const ddx = pa.x - pb.x; const ddy = pa.y - pb.y; const dist = Math.max(Math.sqrt(ddx * ddx + ddy * ddy), 1);
+          if (dist > FORCE_RANGE) return;
+          const force = (FORCE_IDEAL * FORCE_IDEAL) / dist;
+          dx[a] += (ddx / dist) * force; dy[a] += (ddy / dist) * force;
+          dx[b] -= (ddx / dist) * force; dy[b] -= (ddy / dist) * force;
+        });
+      }
+    });
+    edges.forEach(([a, b]) => {
+      const pa = positions[a]; const pb = positions[b];
+      const ddx = pa.x - pb.x; const ddy = pa.y - pb.y; const dist = Math.max(Math.sqrt(ddx * ddx + ddy * ddy), 1);
+      const force = (dist * dist) / FORCE_IDEAL;
+      dx[a] -= (ddx / dist) * force; dy[a] -= (ddy / dist) * force;
+      dx[b] += (ddx / dist) * force; dy[b] += (ddy / dist) * force;
+    });
+    positions.forEach((p, i) => {
+      if (fixed[i]) return;
+      const length = Math.max(Math.sqrt(dx[i] * dx[i] + dy[i] * dy[i]), 1);
+      p.x += (dx[i] / length) * Math.min(length, temperature);
+      p.y += (dy[i] / length) * Math.min(length, temperature);
+    });
+    temperature = Math.max(temperature * 0.97, 1);
+  }
+  return withoutLocked(items, new Map(items.map((item, i) => [item.id, positions[i]])));
+};
+
+export const computeLayout = (mode: LayoutMode, items: BoardItem[], links: BoardLink[], centerId?: string): LayoutResult => {
+  switch (mode) {
+    case 'hierarchical': return layoutHierarchical(items, links);
+    case 'radial': return centerId ? layoutRadial(items, links, centerId) : new Map();
+    case 'force': return layoutForce(items, links);
+  }
+};
+
+export const applyLayout = (items: BoardItem[], layout: LayoutResult, progress = 1): BoardItem[] =>
+  items.map(item => {
+    const target = layout.get(item.id);
+    if (!target || item.isLocked) return item;
+    return { ...item, x: item.x + (target.x - item.x) * progress, y: item.y + (target.y - item.y) * progress };
+  });
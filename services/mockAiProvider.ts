@@ -0,0 +1,78 @@
+import { AiProvider } from "./aiService";
+import { BOARD_DRAFT_TASK, BoardDraftInput } from "./boardDraftService";
+import { PLAN_REVIEW_TASK, PlanReviewInput } from "./planReviewService";
+import { isRecord } from "./storageService";
+
+const malformed = (task: string) => new Error(`The offline mock received a malformed "${task}" request.`);
+
+// --- BOARD DRAFT ---
+
+const sentenceCase = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+const shorten = (value: string, max = 60) => value.length <= max ? value : `${value.slice(0, max).replace(/\s+\S*$/, '')}…`;
+
+// Each clause of the brief becomes an objective with two tasks that feed the mission goal
+const isBoardDraftInput = (input: unknown): input is BoardDraftInput => isRecord(input) && typeof input.name === 'string' && typeof input.brief === 'string';
+
+const mockBoardDraft = (input: unknown) => {
+  if (!isBoardDraftInput(input)) throw malformed(BOARD_DRAFT_TASK);
+  const { name, brief } = input;
+  const clauses = brief.split(/[.;!?\n]+|,\s*(?:and|then)\s+|\s+and then\s+/i).map(c => c.trim().replace(/^(?:and|then|also)\s+/i, '')).filter(c => c.length > 3).slice(0, 4);
+  const objectives = clauses.length > 0 ? clauses.map(c => sentenceCase(shorten(c))) : ['Define the first milestone'];
+  const items = [{ key: 'g1', type: 'goal', content: name.trim() || 'Mission accomplished' }];
+  const links: { from: string; to: string; variant: string }[] = [];
+  objectives.forEach((objective, i) => {
+    const key = `o${i + 1}`;
+    items.push({ key, type: 'objective', content: objective });
+    [`Scope: ${objective}`, `Deliver: ${objective}`].forEach((content, j) => {
+      const taskKey = `t${i + 1}${j + 1}`;
+      items.push({ key: taskKey, type: 'sticky', content: shorten(content, 80) });
+      links.push({ from: key, to: taskKey, variant: i === 0 ? 'critical' : 'neutral' }, { from: taskKey, to: 'g1', variant: 'positive' });
+    });
+  });
+  items.push({ key: 'i1', type: 'idea-strip', content: 'Risks and unknowns to revisit' });
+  links.push({ from: 'i1', to: 't11', variant: 'neutral' });
+  return { items, links };
+};
+
+// --- PLAN REVIEW ---
+
+// Confirms the rule-based checks, linking an unsupported goal to a task that feeds nothing instead of adding new work
+const isPlanReviewInput = (input: unknown): input is PlanReviewInput => isRecord(input)
+  && Array.isArray(input.items) && input.items.every(i => isRecord(i) && typeof i.id === 'string' && typeof i.type === 'string')
+  && Array.isArray(input.links) && input.links.every(l => isRecord(l) && typeof l.from === 'string')
+  && Array.isArray(input.checks) && input.checks.every(c => isRecord(c) && typeof c.itemId === 'string');
+
+const mockPlanReview = (input: unknown) => {
+  if (!isPlanReviewInput(input)) throw malformed(PLAN_REVIEW_TASK);
+  const { items, links, checks } = input;
+  const looseTask = items.find(i => i.type === 'sticky' && !i.done && !links.some(l => l.from === i.id));
+  return {
+    findings: checks.map(({ kind, itemId, title, fix }) => ({
+      kind,
+      itemId,
+      title,
+      detail: 'Found by the offline reviewer.',
+      fix: kind === 'unsupported-goal' && looseTask ? { action: 'link', fromId: looseTask.id, targetId: itemId } : fix,
+    })),
+  };
+};
+
+// --- PROVIDER ---
+
+// Built on first use: the services that own these tasks import the provider module in turn, so their constants are not set yet when this module loads
+let handlers: Record<string, (input: unknown) => unknown> | null = null;
+const getHandlers = () => (handlers ||= {
+  [BOARD_DRAFT_TASK]: mockBoardDraft,
+  [PLAN_REVIEW_TASK]: mockPlanReview,
+});
+
+// Answers from the request's structured input without any network, so the same request always gets the same result
+export const createMockAiProvider = (): AiProvider => ({
+  id: 'mock',
+  label: 'Offline mock',
+  generateJson: async ({ task, input }) => {
+    const handler = getHandlers()[task];
+    if (!handler) throw new Error(`The offline mock cannot answer "${task}" requests.`);
+    return handler(input);
+  },
+});
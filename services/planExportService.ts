@@ -0,0 +1,292 @@
+import { BoardItem, BoardLink, PlanningRoom, Tool } from "../types";
+import { downloadText, escapeXml, slugify } from "./fileService";
+import { DependencyAnalysis, analyzeDependencies } from "./dependencyAnalysis";
+import { Progress, computeProgress, formatProgress } from "./progressService";
+import { categoryOf, fallbackToolIcon, groupToolsByCategory } from "./toolService";
+
+type Translate = (key: string) => string;
+
+export interface PlanEntry {
+  item: BoardItem;
+  incoming: BoardItem[];
+  outgoing: BoardItem[];
+}
+
+export interface ToolingEntry {
+  tool: Tool;
+  // The room's items the tool is attached to
+  items: BoardItem[];
+}
+
+// The strategic document as data, shared by the on-screen sheet and every export format
+export interface StrategicPlan {
+  room: PlanningRoom;
+  generatedAt: number;
+  goals: PlanEntry[];
+  objectives: PlanEntry[];
+  tasks: PlanEntry[];
+  ideas: PlanEntry[];
+  analysis: DependencyAnalysis;
+  // Roll-up for every goal and objective
+  progress: Map<string, Progress>;
+  // Registry tools attached to the room's items, by category then name; the "Tooling" appendix
+  tooling: ToolingEntry[];
+}
+
+export const getDependencies = (items: BoardItem[], links: BoardLink[], id: string, type: 'incoming' | 'outgoing'): BoardItem[] => {
+  const deps = links.filter(l => type === 'incoming' ? l.toId === id : l.fromId === id);
+  return deps.map(l => { const targetId = type === 'incoming' ? l.fromId : l.toId; return items.find(i => i.id === targetId); }).filter(Boolean) as BoardItem[];
+};
+
+export const buildStrategicPlan = (room: PlanningRoom, tools: Tool[] = [], generatedAt: number = Date.now()): StrategicPlan => {
+  const { items, links } = room;
+  const tooling = groupToolsByCategory(tools).flatMap(([, list]) => list)
+    .map(tool => ({ tool, items: items.filter(i => i.toolIds?.includes(tool.id)) }))
+    .filter(entry => entry.items.length > 0);
+  const entriesOf = (type: BoardItem['type']): PlanEntry[] => items.filter(i => i.type === type).map(item => ({
+    item,
+    incoming: getDependencies(items, links, item.id, 'incoming'),
+    outgoing: getDependencies(items, links, item.id, 'outgoing'),
+  }));
+  return { room, generatedAt, goals: entriesOf('goal'), objectives: entriesOf('objective'), tasks: entriesOf('sticky'), ideas: entriesOf('idea-strip'), analysis: analyzeDependencies(items, links), progress: computeProgress(items, links), tooling };
+};
+
+export const hasDependencyIssues = ({ cycles, blocked, orphans }: DependencyAnalysis) => cycles.length > 0 || blocked.length > 0 || orphans.length > 0;
+
+const oneLine = (value: string) => value.replace(/\s+/g, ' ').trim();
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleDateString();
+// Only counted roll-ups are worth printing; an item's own state is already shown by its checkbox or badge
+const progressOf = (plan: StrategicPlan, id: string) => { const progress = plan.progress.get(id); return progress && progress.unit !== 'self' ? formatProgress(progress) : ''; };
+const contentOf = (plan: StrategicPlan, id: string) => { const item = plan.room.items.find(i => i.id === id); return !item ? '' : item.type === 'image' ? 'Image' : oneLine(item.content); };
+
+// --- MARKDOWN ---
+
+// Inline markup anywhere, plus list markers (-, +, 1.) that would start a list when the text begins a line
+const escapeMarkdown = (value: string) => oneLine(value).replace(/([\\`*_[\]#|<>])/g, '\\$1').replace(/^([-+])(?=\s|$)/, '\\$1').replace(/^(\d+)([.)])(?=\s|$)/, '$1\\$2');
+
+export const renderPlanMarkdown = (plan: StrategicPlan, t: Translate): string => {
+  const lines: string[] = [];
+  const push = (...next: string[]) => lines.push(...next);
+
+  push(`# ${t('strategicPlan')}: ${escapeMarkdown(plan.room.name)}`, '');
+  if (plan.room.description) push(`_${escapeMarkdown(plan.room.description)}_`, '');
+  push(`${formatDate(plan.generatedAt)}`, '');
+
+  push(`## ${t('strategicGoals')}`, '');
+  if (plan.goals.length === 0) push(`_${t('noGoals')}_`, '');
+  plan.goals.forEach(({ item, incoming }) => {
+    push(`### ${escapeMarkdown(item.content)}${item.isCompleted ? ` (${t('achieved')})` : ''}`, '');
+    if (progressOf(plan, item.id)) push(`_${progressOf(plan, item.id)}_`, '');
+    if (incoming.length > 0) {
+      push(`**${t('keyDependencies')}**`, '');
+      incoming.forEach(dep => push(`- ${escapeMarkdown(dep.content)}`));
+      push('');
+    }
+  });
+
+  push(`## ${t('missionObjectives')}`, '');
+  if (plan.objectives.length === 0) push(`_${t('noObjectives')}_`, '');
+  plan.objectives.forEach(({ item, incoming, outgoing }) => {
+    push(`### ${item.isCompleted ? '☑' : '☐'} ${escapeMarkdown(item.content)}`, '');
+    if (progressOf(plan, item.id)) push(`_${progressOf(plan, item.id)}_`, '');
+    if (incoming.length > 0) push(`- ${t('requires')} ${incoming.length} ${t('inputs')}: ${incoming.map(d => escapeMarkdown(d.content)).join(', ')}`);
+    if (outgoing.length > 0) push(`- ${t('contributes')} ${outgoing.length} ${t('outcomes')}: ${outgoing.map(d => escapeMarkdown(d.content)).join(', ')}`);
+    if (incoming.length > 0 || outgoing.length > 0) push('');
+  });
+
+  push(`## ${t('actionItems')}`, '');
+  if (plan.tasks.length === 0) push(`_${t('noTasks')}_`);
+  plan.tasks.forEach(({ item, outgoing }) => {
+    const targets = outgoing.length > 0 ? ` — ${t('for')}: ${outgoing.map(d => escapeMarkdown(d.content)).join(', ')}` : '';
+    push(`- [${item.isCompleted ? 'x' : ' '}] ${escapeMarkdown(item.content)}${targets}`);
+  });
+  push('');
+
+  if (plan.ideas.length > 0) {
+    push(`## ${t('conceptRepository')}`, '');
+    plan.ideas.forEach(({ item }) => push(`- ${escapeMarkdown(item.content)}`));
+    push('');
+  }
+
+  const { analysis } = plan;
+  const name = (id: string) => escapeMarkdown(contentOf(plan, id));
+  push(`## ${t('dependencyAnalysis')}`, '');
+  if (analysis.criticalPaths.length > 0) {
+    push(`### ${t('criticalPaths')}`, '');
+    analysis.criticalPaths.forEach(path => push(`- **${name(path.goalId)}** (${path.remaining} ${t('remaining')}): ${path.itemIds.map(name).join(' → ')}`));
+    push('');
+  }
+  if (analysis.cycles.length > 0) {
+    push(`### ${t('dependencyCycles')}`, '');
+    analysis.cycles.forEach(cycle => push(`- ${[...cycle, cycle[0]].map(name).join(' → ')}`));
+    push('');
+  }
+  if (analysis.blocked.length > 0) {
+    push(`### ${t('blockedItems')}`, '');
+    analysis.blocked.forEach(({ itemId, blockerIds }) => push(`- ${name(itemId)} — ${t('blockedBy')}: ${blockerIds.map(name).join(', ')}`));
+    push('');
+  }
+  if (analysis.orphans.length > 0) {
+    push(`### ${t('orphanItems')}`, '');
+    analysis.orphans.forEach(id => push(`- ${name(id)}`));
+    push('');
+  }
+  if (!hasDependencyIssues(analysis)) push(`_${t('noDependencyIssues')}_`, '');
+
+  if (plan.tooling.length > 0) {
+    push(`## ${t('tooling')}`, '');
+    plan.tooling.forEach(({ tool, items }, index) => {
+      if (index === 0 || categoryOf(plan.tooling[index - 1].tool) !== categoryOf(tool)) push(...(index > 0 ? [''] : []), `### ${escapeMarkdown(categoryOf(tool))}`, '');
+      const name = tool.url ? `[${escapeMarkdown(tool.name)}](${tool.url})` : escapeMarkdown(tool.name);
+      push(`- **${name}**${tool.description ? ` — ${escapeMarkdown(tool.description)}` : ''}`);
+      push(`  - ${t('usedBy')}: ${items.map(i => escapeMarkdown(i.content)).join(', ')}`);
+    });
+    push('');
+  }
+
+  return lines.join('\n');
+};
+
+// --- HTML ---
+
+const PLAN_STYLES = `
+  * { box-sizing: border-box; }
+  body { margin: 0; background: #f8fafc; color: #0f172a; font-family: Inter, -apple-system, 'Segoe UI', Roboto, sans-serif; }
+  main { max-width: 820px; margin: 0 auto; background: #fff; padding: 56px; min-height: 100vh; }
+  header { text-align: center; border-bottom: 1px solid #e2e8f0; padding-bottom: 32px; margin-bottom: 40px; }
+  h1 { font-size: 34px; font-weight: 900; text-transform: uppercase; letter-spacing: -0.02em; margin: 0 0 8px; }
+  header p { margin: 4px 0; color: #64748b; font-family: Georgia, serif; font-style: italic; }
+  h2 { font-size: 12px; font-weight: 900; color: #94a3b8; text-transform: uppercase; letter-spacing: 0.2em; margin: 40px 0 20px; }
+  .empty { color: #94a3b8; font-style: italic; }
+  .goal { border: 2px solid #f1f5f9; background: #f8fafc; border-radius: 12px; padding: 20px 24px; margin-bottom: 16px; }
+  .goal h3 { font-size: 22px; margin: 0; }
+  .badge { display: inline-block; margin-left: 8px; padding: 2px 10px; border-radius: 999px; background: #dcfce7; color: #15803d; font-size: 11px; font-weight: 700; text-transform: uppercase; vertical-align: middle; }
+  .label { font-size: 11px; font-weight: 700; color: #64748b; text-transform: uppercase; letter-spacing: 0.08em; margin: 16px 0 8px; }
+  ul { margin: 0; padding-left: 20px; }
+  li { margin: 4px 0; }
+  .objective { border-bottom: 1px solid #f1f5f9; padding: 14px 0; }
+  .objective h4 { font-size: 17px; margin: 0 0 6px; }
+  .meta { font-size: 12px; color: #64748b; margin-right: 12px; }
+  .progress { height: 6px; max-width: 320px; margin: 8px 0 4px; border-radius: 999px; background: #e2e8f0; overflow: hidden; }
+  .progress span { display: block; height: 100%; background: #16a34a; }
+  .tasks { display: grid; grid-template-columns: 1fr 1fr; gap: 12px; }
+  .task { background: #fefce8; border: 1px solid #fef9c3; border-radius: 8px; padding: 14px; font-family: Georgia, serif; }
+  .task .for { margin-top: 8px; font-family: Inter, sans-serif; font-size: 10px; font-weight: 700; text-transform: uppercase; color: #475569; }
+  .task.done p { text-decoration: line-through; color: #64748b; }
+  .analysis h3 { font-size: 14px; margin: 20px 0 8px; }
+  .path { font-size: 13px; color: #475569; }
+  .path strong { color: #0f172a; }
+  .warning { color: #b91c1c; }
+  .tool { display: flex; gap: 12px; align-items: flex-start; padding: 10px 0; border-bottom: 1px solid #f1f5f9; }
+  .tool img { width: 24px; height: 24px; border-radius: 6px; flex-shrink: 0; }
+  .tool a { color: #2563eb; }
+  .tool p { margin: 2px 0 0; font-size: 13px; color: #475569; }
+  .ideas span { display: inline-block; border: 1px solid #e7e5e4; border-left: 4px solid #c084fc; padding: 8px 14px; margin: 0 8px 8px 0; font-size: 13px; }
+  @page { size: A4; margin: 18mm 16mm; }
+  @media print {
+    body { background: #fff; }
+    main { max-width: none; padding: 0; min-height: 0; }
+    section, .goal, .objective, .task { break-inside: avoid; }
+    h2 { break-after: avoid; }
+    .goal { background: #fff; }
+    .task { background: #fff; border-color: #e2e8f0; }
+  }
+`;
+
+export const renderPlanHtml = (plan: StrategicPlan, t: Translate): string => {
+  const list = (deps: BoardItem[]) => `<ul>${deps.map(d => `<li>${escapeXml(d.content)}</li>`).join('')}</ul>`;
+
+  const goals = plan.goals.length === 0 ? `<p class="empty">${escapeXml(t('noGoals'))}</p>` : plan.goals.map(({ item, incoming }) => `
+    <div class="goal">
+      <h3>${escapeXml(item.content)}${item.isCompleted ? `<span class="badge">${escapeXml(t('achieved'))}</span>` : ''}</h3>
+      ${progressOf(plan, item.id) ? `<p class="progress"><span style="width: ${Math.round(plan.progress.get(item.id)!.ratio * 100)}%"></span></p><span class="meta">${escapeXml(progressOf(plan, item.id))}</span>` : ''}
+      ${incoming.length > 0 ? `<p class="label">${escapeXml(t('keyDependencies'))}</p>${list(incoming)}` : ''}
+    </div>`).join('');
+
+  const objectives = plan.objectives.length === 0 ? `<p class="empty">${escapeXml(t('noObjectives'))}</p>` : plan.objectives.map(({ item, incoming, outgoing }) => `
+    <div class="objective">
+      <h4>${item.isCompleted ? '☑' : '☐'} ${escapeXml(item.content)}</h4>
+      ${progressOf(plan, item.id) ? `<span class="meta">${escapeXml(progressOf(plan, item.id))}</span>` : ''}
+      ${incoming.length > 0 ? `<span class="meta">${escapeXml(t('requires'))} ${incoming.length} ${escapeXml(t('inputs'))}</span>` : ''}
+      ${outgoing.length > 0 ? `<span class="meta">${escapeXml(t('contributes'))} ${outgoing.length} ${escapeXml(t('outcomes'))}</span>` : ''}
+    </div>`).join('');
+
+  const tasks = plan.tasks.length === 0 ? `<p class="empty">${escapeXml(t('noTasks'))}</p>` : `<div class="tasks">${plan.tasks.map(({ item, outgoing }) => `
+    <div class="task${item.isCompleted ? ' done' : ''}">
+      <p>${escapeXml(item.content)}</p>
+      ${outgoing.length > 0 ? `<div class="for">${escapeXml(t('for'))}: ${outgoing.map(d => escapeXml(oneLine(d.content))).join(', ')}</div>` : ''}
+    </div>`).join('')}</div>`;
+
+  const ideas = plan.ideas.length === 0 ? '' : `
+  <section><h2>${escapeXml(t('conceptRepository'))}</h2><div class="ideas">${plan.ideas.map(({ item }) => `<span>${escapeXml(item.content)}</span>`).join('')}</div></section>`;
+
+  const { analysis } = plan;
+  const name = (id: string) => escapeXml(contentOf(plan, id));
+  const analysisHtml = `
+  <section class="analysis"><h2>${escapeXml(t('dependencyAnalysis'))}</h2>
+    ${analysis.criticalPaths.length > 0 ? `<h3>${escapeXml(t('criticalPaths'))}</h3><ul>${analysis.criticalPaths.map(path => `<li class="path"><strong>${name(path.goalId)}</strong> (${path.remaining} ${escapeXml(t('remaining'))}): ${path.itemIds.map(name).join(' → ')}</li>`).join('')}</ul>` : ''}
+    ${analysis.cycles.length > 0 ? `<h3 class="warning">${escapeXml(t('dependencyCycles'))}</h3><ul>${analysis.cycles.map(cycle => `<li>${[...cycle, cycle[0]].map(name).join(' → ')}</li>`).join('')}</ul>` : ''}
+    ${analysis.blocked.length > 0 ? `<h3>${escapeXml(t('blockedItems'))}</h3><ul>${analysis.blocked.map(({ itemId, blockerIds }) => `<li>${name(itemId)} <span class="meta">${escapeXml(t('blockedBy'))}: ${blockerIds.map(name).join(', ')}</span></li>`).join('')}</ul>` : ''}
+    ${analysis.orphans.length > 0 ? `<h3>${escapeXml(t('orphanItems'))}</h3><ul>${analysis.orphans.map(id => `<li>${name(id)}</li>`).join('')}</ul>` : ''}
+    ${hasDependencyIssues(analysis) ? '' : `<p class="empty">${escapeXml(t('noDependencyIssues'))}</p>`}
+  </section>`;
+
+  const tooling = plan.tooling.length === 0 ? '' : `
+  <section class="analysis"><h2>${escapeXml(t('tooling'))}</h2>${plan.tooling.map(({ tool, items }, index) => `
+    ${index === 0 || categoryOf(plan.tooling[index - 1].tool) !== categoryOf(tool) ? `<h3>${escapeXml(categoryOf(tool))}</h3>` : ''}
+    <div class="tool"><img src="${escapeXml(tool.iconUrl || fallbackToolIcon(tool))}" alt=""><div>
+      <strong>${tool.url ? `<a href="${escapeXml(tool.url)}">${escapeXml(tool.name)}</a>` : escapeXml(tool.name)}</strong>
+      ${tool.description ? `<p>${escapeXml(tool.description)}</p>` : ''}
+      <p class="meta">${escapeXml(t('usedBy'))}: ${items.map(i => escapeXml(oneLine(i.content))).join(', ')}</p>
+    </div></div>`).join('')}
+  </section>`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeXml(t('strategicPlan'))} — ${escapeXml(plan.room.name)}</title>
+<style>${PLAN_STYLES}</style>
+</head>
+<body>
+<main>
+  <header>
+    <h1>${escapeXml(t('strategicPlan'))}</h1>
+    <p>${escapeXml(plan.room.name)} • ${escapeXml(formatDate(plan.generatedAt))}</p>
+    ${plan.room.description ? `<p>${escapeXml(plan.room.description)}</p>` : ''}
+  </header>
+  <section><h2>${escapeXml(t('strategicGoals'))}</h2>${goals}</section>
+  <section><h2>${escapeXml(t('missionObjectives'))}</h2>${objectives}</section>
+  <section><h2>${escapeXml(t('actionItems'))}</h2>${tasks}</section>${ideas}${analysisHtml}${tooling}
+</main>
+</body>
+</html>
+`;
+};
+
+// --- OUTPUT ---
+
+export const downloadPlanMarkdown = (plan: StrategicPlan, t: Translate) =>
+  downloadText(renderPlanMarkdown(plan, t), `${slugify(plan.room.name, 'plan')}.md`, 'text/markdown');
+
+export const downloadPlanHtml = (plan: StrategicPlan, t: Translate) =>
+  downloadText(renderPlanHtml(plan, t), `${slugify(plan.room.name, 'plan')}.html`, 'text/html');
+
+// Prints the standalone HTML from a hidden frame, so the browser's "Save as PDF" gets the print layout rather than the app chrome
+export const printPlan = (plan: StrategicPlan, t: Translate) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.srcdoc = renderPlanHtml(plan, t);
+  frame.onload = () => {
+    const win = frame.contentWindow;
+    if (!win) { frame.remove(); return; }
+    win.addEventListener('afterprint', () => frame.remove());
+    win.focus();
+    win.print();
+  };
+  document.body.appendChild(frame);
+};
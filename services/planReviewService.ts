@@ -0,0 +1,266 @@
+import { BoardItem, BoardLink, PlanningRoom } from "../types";
+import { AiProvider, PromptDefinition, runPrompt } from "./aiService";
+import { getItemDimensions } from "./boardGeometry";
+import { findCriticalPaths } from "./dependencyAnalysis";
+import { HistoryMeta } from "./historyService";
+import { isRecord } from "./storageService";
+
+export type FindingKind = 'objective-without-tasks' | 'unsupported-goal' | 'vague-task' | 'missing-mitigation';
+
+// A change that resolves a finding; every id refers to an item already on the board
+export type ReviewFix =
+  | { action: 'add-tasks'; targetId: string; tasks: string[] }
+  | { action: 'link'; fromId: string; targetId: string }
+  | { action: 'rewrite'; targetId: string; content: string }
+  | { action: 'add-mitigation'; targetId: string; content: string };
+
+export interface Finding {
+  // `${kind}:${itemId}`, so a model finding replaces the rule finding about the same problem
+  id: string;
+  kind: FindingKind;
+  // The item with the problem, which is also the item the fix targets
+  itemId: string;
+  title: string;
+  detail: string;
+  fix: ReviewFix;
+  source: 'rules' | 'ai';
+}
+
+export const FINDING_KINDS: FindingKind[] = ['objective-without-tasks', 'unsupported-goal', 'vague-task', 'missing-mitigation'];
+const FIX_ACTIONS: ReviewFix['action'][] = ['add-tasks', 'link', 'rewrite', 'add-mitigation'];
+// The fixes that can resolve each kind of finding
+const FIXES_FOR: Record<FindingKind, ReviewFix['action'][]> = {
+  'objective-without-tasks': ['add-tasks'],
+  'unsupported-goal': ['link', 'add-tasks'],
+  'vague-task': ['rewrite'],
+  'missing-mitigation': ['add-mitigation'],
+};
+const MAX_FINDINGS = 20;
+const MAX_TASKS = 4;
+const MAX_CONTENT_LENGTH = 160;
+
+// --- RULE-BASED CHECKS ---
+
+// Placeholder titles the board gives new cards, and wording that names no concrete action
+const DEFAULT_TITLES = ['note', 'new task', 'card', 'todo', 'task'];
+const VAGUE_PATTERN = /\b(tbd|misc|stuff|things|etc|various|look into|work on|think about|deal with|figure out|handle it|sort out)\b/i;
+const RISK_PATTERN = /\b(risk|mitigat\w*|fallback|contingency|backup|plan b)\b/i;
+
+const clean = (value: string) => value.replace(/\s+/g, ' ').trim();
+const shorten = (value: string, max = 50) => value.length <= max ? value : `${value.slice(0, max).replace(/\s+\S*$/, '')}…`;
+const labelOf = (item: BoardItem) => shorten(clean(item.content)) || 'Untitled';
+const findingId = (kind: FindingKind, itemId: string) => `${kind}:${itemId}`;
+
+export const isVagueTask = (content: string) => {
+  const text = clean(content);
+  return DEFAULT_TITLES.includes(text.toLowerCase()) || text.split(' ').filter(Boolean).length < 2 || VAGUE_PATTERN.test(text) || text.endsWith('?');
+};
+
+// The board facts each kind of finding rests on, shared by the rule checks and the re-check of stale findings
+const createBoardFacts = (items: BoardItem[], links: BoardLink[]) => {
+  const byId = new Map(items.map(i => [i.id, i]));
+  const valid = links.filter(l => byId.has(l.fromId) && byId.has(l.toId) && l.fromId !== l.toId);
+  const neighbours = (id: string) => valid.flatMap(l => l.fromId === id ? [byId.get(l.toId)!] : l.toId === id ? [byId.get(l.fromId)!] : []);
+  // A fallback is an alternative route into the item, or a linked card that names a risk
+  const isMitigated = (id: string) => valid.some(l => (l.toId === id && (l.variant === 'alternative' || RISK_PATTERN.test(byId.get(l.fromId)!.content))) || (l.fromId === id && RISK_PATTERN.test(byId.get(l.toId)!.content)));
+  return {
+    byId, isMitigated,
+    hasTasks: (id: string) => neighbours(id).some(n => n.type === 'sticky'),
+    hasContributors: (id: string) => valid.some(l => l.toId === id),
+  };
+};
+
+// Deterministic graph checks; they run offline and give the model a starting point
+export const detectStructuralGaps = (room: Pick<PlanningRoom, 'items' | 'links'>): Finding[] => {
+  const { items, links } = room;
+  const { byId, isMitigated, hasTasks, hasContributors } = createBoardFacts(items, links);
+  const findings: Finding[] = [];
+  const add = (kind: FindingKind, item: BoardItem, title: string, detail: string, fix: ReviewFix) => findings.push({ id: findingId(kind, item.id), kind, itemId: item.id, title, detail, fix, source: 'rules' });
+
+  items.filter(i => i.type === 'objective' && !i.isCompleted && !hasTasks(i.id)).forEach(objective => add('objective-without-tasks', objective, `“${labelOf(objective)}” has no tasks`, 'Nothing on the board breaks this objective down into actions.', { action: 'add-tasks', targetId: objective.id, tasks: [`Define the scope of ${labelOf(objective)}`, `Deliver ${labelOf(objective)}`] }));
+
+  items.filter(i => i.type === 'goal' && !i.isCompleted && !hasContributors(i.id)).forEach(goal => add('unsupported-goal', goal, `Nothing contributes to “${labelOf(goal)}”`, 'No task or objective links into this goal, so progress towards it cannot be tracked.', { action: 'add-tasks', targetId: goal.id, tasks: [`Plan the work that achieves ${labelOf(goal)}`] }));
+
+  items.filter(i => i.type === 'sticky' && !i.isCompleted && isVagueTask(i.content)).forEach(task => add('vague-task', task, `“${labelOf(task)}” is vague`, 'The wording does not say what will be delivered, so it is hard to tell when it is done.', { action: 'rewrite', targetId: task.id, content: `Define the deliverable for: ${clean(task.content)}`.slice(0, MAX_CONTENT_LENGTH) }));
+
+  // A critical path with several open steps and no fallback anywhere on it; the finding is about its first step, which delays everything after it
+  findCriticalPaths(items, links).filter(path => path.remaining > 2 && !path.itemIds.some(isMitigated)).forEach(path => {
+    const goal = byId.get(path.goalId)!;
+    const first = byId.get(path.itemIds[0])!;
+    add('missing-mitigation', first, `No fallback if “${labelOf(first)}” slips`, `It starts the critical path to “${labelOf(goal)}”, where ${path.remaining} open items have no mitigation.`, { action: 'add-mitigation', targetId: first.id, content: `Fallback if “${labelOf(first)}” slips` });
+  });
+  return findings;
+};
+
+// --- MODEL REVIEW ---
+
+export const PLAN_REVIEW_TASK = 'plan-review';
+
+export interface PlanReviewInput {
+  name: string;
+  description: string;
+  items: { id: string; type: BoardItem['type']; content: string; done: boolean }[];
+  links: { from: string; to: string; variant: BoardLink['variant'] }[];
+  // What the rule-based checks found, with their default fixes
+  checks: { kind: FindingKind; itemId: string; title: string; fix: ReviewFix }[];
+}
+
+export const buildPlanReviewInput = (room: PlanningRoom, checks: Finding[] = detectStructuralGaps(room)): PlanReviewInput => ({
+  name: room.name,
+  description: room.description,
+  items: room.items.filter(i => i.type !== 'image').map(i => ({ id: i.id, type: i.type, content: clean(i.content).slice(0, MAX_CONTENT_LENGTH), done: !!i.isCompleted })),
+  links: room.links.map(l => ({ from: l.fromId, to: l.toId, variant: l.variant })),
+  checks: checks.map(({ kind, itemId, title, fix }) => ({ kind, itemId, title, fix })),
+});
+
+export const PLAN_REVIEW_SCHEMA = {
+  type: 'object',
+  properties: {
+    findings: {
+      type: 'array',
+      maxItems: MAX_FINDINGS,
+      items: {
+        type: 'object',
+        properties: {
+          kind: { type: 'string', enum: FINDING_KINDS },
+          itemId: { type: 'string', description: 'Id of the board item the finding is about' },
+          title: { type: 'string', description: 'One short line naming the problem' },
+          detail: { type: 'string', description: 'One or two sentences on why it matters' },
+          fix: {
+            type: 'object',
+            properties: {
+              action: { type: 'string', enum: FIX_ACTIONS },
+              targetId: { type: 'string', description: 'Id of the item the fix changes or attaches to' },
+              fromId: { type: 'string', description: 'For "link": id of the existing item that should feed the target' },
+              content: { type: 'string', description: 'For "rewrite" and "add-mitigation": the new card text' },
+              tasks: { type: 'array', maxItems: MAX_TASKS, items: { type: 'string' }, description: 'For "add-tasks": the new task texts' },
+            },
+            required: ['action', 'targetId'],
+          },
+        },
+        required: ['kind', 'itemId', 'title', 'detail', 'fix'],
+      },
+    },
+  },
+  required: ['findings'],
+};
+
+export const buildPlanReviewPrompt = ({ name, description, items, links, checks }: PlanReviewInput) => `You are a planning reviewer. Review the planning board below and report its problems, each with one concrete fix.
+
+Mission: ${name}
+Brief: ${description || '(none)'}
+Items: ${JSON.stringify(items)}
+Links: ${JSON.stringify(links)}
+Rule-based checks already found: ${JSON.stringify(checks)}
+
+Links point downstream: objective -> task -> goal. "sticky" items are tasks.
+Report only these kinds:
+- "objective-without-tasks": an objective no task is linked to. Fix with "add-tasks" on the objective.
+- "unsupported-goal": a goal nothing links into. Fix with "link" from an existing item that clearly serves it, otherwise "add-tasks" on the goal.
+- "vague-task": a task whose wording names no concrete deliverable. Fix with "rewrite" giving specific wording that keeps the intent.
+- "missing-mitigation": a risky or critical piece of work with no fallback. Fix with "add-mitigation" on the item at risk.
+A finding's itemId is always the item its fix targets: the objective, the goal, the vague task or the item at risk.
+Confirm or drop each rule-based check, improve its fix using what the board says, and add problems the rules missed. Use only ids from the items above. Keep every card under ${MAX_CONTENT_LENGTH} characters and write in the language of the board. Return {"findings": []} if the plan has no such problems.`;
+
+const text = (value: unknown, max = MAX_CONTENT_LENGTH) => typeof value === 'string' ? clean(value).slice(0, max) : '';
+
+const toFix = (raw: unknown): ReviewFix | null => {
+  if (!isRecord(raw)) return null;
+  const targetId = text(raw.targetId);
+  if (!targetId) return null;
+  switch (raw.action) {
+    case 'add-tasks': { const tasks = (Array.isArray(raw.tasks) ? raw.tasks : []).map(task => text(task)).filter(Boolean).slice(0, MAX_TASKS); return tasks.length > 0 ? { action: 'add-tasks', targetId, tasks } : null; }
+    case 'link': { const fromId = text(raw.fromId); return fromId ? { action: 'link', fromId, targetId } : null; }
+    case 'rewrite': case 'add-mitigation': { const content = text(raw.content); return content ? { action: raw.action, targetId, content } : null; }
+    default: return null;
+  }
+};
+
+// Rejects responses that are not a review; findings without a usable fix, or with a fix for another kind or item, are dropped
+export const validatePlanReview = (raw: unknown): Finding[] => {
+  if (!isRecord(raw) || !Array.isArray(raw.findings)) throw new Error('The model response is not a plan review.');
+  return raw.findings.filter(isRecord).flatMap(finding => {
+    const kind = finding.kind as FindingKind; const itemId = text(finding.itemId); const title = text(finding.title); const fix = toFix(finding.fix);
+    if (!FINDING_KINDS.includes(kind) || !itemId || !title || !fix || !FIXES_FOR[kind].includes(fix.action) || fix.targetId !== itemId) return [];
+    return [{ id: findingId(kind, itemId), kind, itemId, title, detail: text(finding.detail, 400), fix, source: 'ai' as const }];
+  }).slice(0, MAX_FINDINGS);
+};
+
+export const PLAN_REVIEW_PROMPT: PromptDefinition<PlanReviewInput, Finding[]> = {
+  task: PLAN_REVIEW_TASK,
+  version: 'plan-review/1',
+  schema: PLAN_REVIEW_SCHEMA,
+  build: buildPlanReviewPrompt,
+  validate: validatePlanReview,
+};
+
+// Whether the problem is still there on the board as it is now, and the fix would still change something
+export const isFindingOpen = (items: BoardItem[], links: BoardLink[], finding: Pick<Finding, 'kind' | 'fix'>) => {
+  const { fix } = finding;
+  const facts = createBoardFacts(items, links);
+  const target = facts.byId.get(fix.targetId);
+  if (!target || target.isCompleted) return false;
+  const stillHolds = (() => {
+    switch (finding.kind) {
+      case 'objective-without-tasks': return target.type === 'objective' && !facts.hasTasks(target.id);
+      case 'unsupported-goal': return target.type === 'goal' && !facts.hasContributors(target.id);
+      case 'vague-task': return target.type === 'sticky';
+      case 'missing-mitigation': return !facts.isMitigated(target.id);
+    }
+  })();
+  if (!stillHolds) return false;
+  switch (fix.action) {
+    case 'link': return fix.fromId !== fix.targetId && facts.byId.has(fix.fromId) && !links.some(l => l.fromId === fix.fromId && l.toId === fix.targetId);
+    case 'rewrite': return clean(target.content) !== fix.content;
+    default: return true;
+  }
+};
+
+const ORDER = new Map(FINDING_KINDS.map((kind, i) => [kind, i]));
+
+// Model findings replace rule findings about the same item and problem; findings about items that are gone are dropped
+export const mergeFindings = (room: Pick<PlanningRoom, 'items' | 'links'>, rules: Finding[], model: Finding[]): Finding[] => {
+  const merged = new Map<string, Finding>();
+  [...rules, ...model].filter(f => isFindingOpen(room.items, room.links, f)).forEach(f => merged.set(f.id, f));
+  return [...merged.values()].sort((a, b) => ORDER.get(a.kind)! - ORDER.get(b.kind)!);
+};
+
+export const reviewPlan = async (provider: AiProvider, room: PlanningRoom): Promise<Finding[]> => {
+  const rules = detectStructuralGaps(room);
+  return mergeFindings(room, rules, await runPrompt(provider, PLAN_REVIEW_PROMPT, buildPlanReviewInput(room, rules)));
+};
+
+// --- APPLYING FIXES ---
+
+const GAP = 80;
+
+const newTask = (content: string, x: number, y: number, color = 'bg-yellow-200'): BoardItem => ({ id: Math.random().toString(36).substr(2, 9), type: 'sticky', content, x: Math.round(x), y: Math.round(y), color, isCompleted: false, isLocked: false });
+const newLink = (fromId: string, toId: string, variant: BoardLink['variant']): BoardLink => ({ id: Math.random().toString(36).substr(2, 9), fromId, toId, variant });
+
+// New tasks go below an objective they break down and above a goal they feed, following the downstream direction of links
+export const applyFix = (items: BoardItem[], links: BoardLink[], finding: Pick<Finding, 'kind' | 'fix'>): { items: BoardItem[]; links: BoardLink[]; meta: HistoryMeta } => {
+  const { fix } = finding;
+  const target = items.find(i => i.id === fix.targetId);
+  if (!target || !isFindingOpen(items, links, finding)) throw new Error('The board has changed and this fix no longer applies.');
+  const size = getItemDimensions(target.type);
+  const task = getItemDimensions('sticky');
+  switch (fix.action) {
+    case 'add-tasks': {
+      const feedsTarget = target.type === 'goal';
+      const rowWidth = fix.tasks.length * task.w + (fix.tasks.length - 1) * (GAP / 2);
+      const left = target.x + size.w / 2 - rowWidth / 2;
+      const y = feedsTarget ? target.y - task.h - GAP : target.y + size.h + GAP;
+      const added = fix.tasks.map((content, i) => newTask(content, left + i * (task.w + GAP / 2), y));
+      return { items: [...items, ...added], links: [...links, ...added.map(t => feedsTarget ? newLink(t.id, target.id, 'positive') : newLink(target.id, t.id, 'neutral'))], meta: { action: 'add' } };
+    }
+    case 'link':
+      return { items, links: [...links, newLink(fix.fromId, target.id, 'positive')], meta: { action: 'link-create' } };
+    case 'rewrite':
+      return { items: items.map(i => i.id === target.id ? { ...i, content: fix.content } : i), links, meta: { action: 'edit' } };
+    case 'add-mitigation': {
+      // Alternative links are optional routes, so the fallback never blocks the work it protects
+      const mitigation = newTask(fix.content, target.x + size.w + GAP, target.y, 'bg-orange-200');
+      return { items: [...items, mitigation], links: [...links, newLink(mitigation.id, target.id, 'alternative')], meta: { action: 'add' } };
+    }
+  }
+};
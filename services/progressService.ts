@@ -0,0 +1,73 @@
+import { BoardItem, BoardLink, PlanningRoom } from "../types";
+import { isBlockingLink, isBreakdownLink } from "./dependencyAnalysis";
+
+export interface Progress {
+  done: number;
+  total: number;
+  ratio: number;
+  // What was counted: contributing tasks, contributing objectives when no tasks feed in, or the item itself
+  unit: 'tasks' | 'objectives' | 'self';
+}
+
+const ratioOf = (done: number, total: number) => total === 0 ? 0 : done / total;
+
+// Walks contributing (non-alternative) links transitively: incoming links, plus the tasks an objective breaks down into
+// through its outgoing objective → task links. Each task is counted once, so a task feeding two objectives of the same goal
+// doesn't weigh double, while a goal with more tasks behind it weighs more in any roll-up above it
+export const computeProgress = (items: BoardItem[], links: BoardLink[]): Map<string, Progress> => {
+  const byId = new Map(items.map(i => [i.id, i]));
+  const contributors = new Map<string, string[]>(items.map(i => [i.id, []]));
+  links.forEach(l => {
+    if (!isBlockingLink(l) || !byId.has(l.fromId) || !byId.has(l.toId) || l.fromId === l.toId) return;
+    if (isBreakdownLink(l, byId)) contributors.get(l.fromId)!.push(l.toId);
+    else contributors.get(l.toId)!.push(l.fromId);
+  });
+
+  const upstream = (id: string): BoardItem[] => {
+    const seen = new Set<string>([id]); const queue = [id]; const found: BoardItem[] = [];
+    for (let head = 0; head < queue.length; head++) {
+      contributors.get(queue[head])!.forEach(next => { if (seen.has(next)) return; seen.add(next); queue.push(next); found.push(byId.get(next)!); });
+    }
+    return found;
+  };
+
+  const result = new Map<string, Progress>();
+  items.filter(i => i.type === 'goal' || i.type === 'objective').forEach(item => {
+    const feeding = upstream(item.id);
+    const tasks = feeding.filter(i => i.type === 'sticky');
+    const objectives = feeding.filter(i => i.type === 'objective');
+    if (tasks.length > 0) { const done = tasks.filter(i => i.isCompleted).length; result.set(item.id, { done, total: tasks.length, ratio: ratioOf(done, tasks.length), unit: 'tasks' }); }
+    else if (objectives.length > 0) { const done = objectives.filter(i => i.isCompleted).length; result.set(item.id, { done, total: objectives.length, ratio: ratioOf(done, objectives.length), unit: 'objectives' }); }
+    else result.set(item.id, { done: item.isCompleted ? 1 : 0, total: 1, ratio: item.isCompleted ? 1 : 0, unit: 'self' });
+  });
+  return result;
+};
+
+export const formatProgress = (progress: Progress) => progress.unit === 'self' ? (progress.done ? 'Done' : 'Not started') : `${progress.done}/${progress.total} ${progress.unit} done`;
+
+export interface RoomSummary {
+  totalGoals: number;
+  achievedGoals: number;
+  activeObjectives: number;
+  pendingTasks: number;
+  doneTasks: number;
+  totalTasks: number;
+  // Task completion across the room, falling back to goals when the room has no tasks yet
+  ratio: number;
+}
+
+export const summarizeRoom = (room: PlanningRoom): RoomSummary => {
+  const goals = room.items.filter(i => i.type === 'goal');
+  const tasks = room.items.filter(i => i.type === 'sticky');
+  const achievedGoals = goals.filter(i => i.isCompleted).length;
+  const doneTasks = tasks.filter(i => i.isCompleted).length;
+  return {
+    totalGoals: goals.length,
+    achievedGoals,
+    activeObjectives: room.items.filter(i => i.type === 'objective' && !i.isCompleted).length,
+    pendingTasks: tasks.length - doneTasks,
+    doneTasks,
+    totalTasks: tasks.length,
+    ratio: tasks.length > 0 ? ratioOf(doneTasks, tasks.length) : ratioOf(achievedGoals, goals.length),
+  };
+};
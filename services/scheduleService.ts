@@ -0,0 +1,37 @@
+import { BoardItem, ItemStatus } from "../types";
+
+export const ITEM_STATUSES: ItemStatus[] = ['todo', 'in-progress', 'blocked', 'done'];
+export const isItemStatus = (value: unknown): value is ItemStatus => ITEM_STATUSES.includes(value as ItemStatus);
+export const STATUS_LABELS: Record<ItemStatus, string> = { todo: 'To do', 'in-progress': 'In progress', blocked: 'Blocked', done: 'Done' };
+export const STATUS_COLORS: Record<ItemStatus, string> = { todo: 'bg-stone-500', 'in-progress': 'bg-blue-500', blocked: 'bg-orange-500', done: 'bg-green-500' };
+
+// isCompleted stays the source of truth for "done" so older rooms and the rest of the board keep working unchanged
+export const getStatus = (item: BoardItem): ItemStatus => item.isCompleted ? 'done' : item.status && item.status !== 'done' ? item.status : 'todo';
+
+export const statusPatch = (status: ItemStatus): Partial<BoardItem> => ({ status, isCompleted: status === 'done' });
+export const completionPatch = (isCompleted: boolean): Partial<BoardItem> => statusPatch(isCompleted ? 'done' : 'todo');
+
+// Dates are stored as local calendar days (YYYY-MM-DD), so they compare as strings and never shift with time zones
+export const isDateString = (value: unknown): value is string => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value));
+export const toDateString = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+export const parseDateString = (value: string) => new Date(`${value}T00:00:00`);
+export const formatDay = (value: string) => parseDateString(value).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+export const isOverdue = (item: BoardItem, today: string = toDateString(new Date())) => !!item.dueDate && getStatus(item) !== 'done' && item.dueDate < today;
+
+export const hasSchedule = (item: BoardItem) => !!(item.dueDate || item.startDate || item.assignee || item.assigneeId || (item.status && item.status !== 'todo' && item.status !== 'done'));
+
+// Drops malformed schedule fields instead of rejecting the whole item; everything else passes through untouched
+export const sanitizeSchedule = (item: BoardItem): BoardItem => {
+  const { status, startDate, dueDate, assignee, assigneeId, ...rest } = item;
+  return {
+    ...rest,
+    ...(isItemStatus(status) ? { status } : {}),
+    ...(isDateString(startDate) ? { startDate } : {}),
+    ...(isDateString(dueDate) ? { dueDate } : {}),
+    ...(typeof assignee === 'string' && assignee.trim() ? { assignee } : {}),
+    ...(typeof assigneeId === 'string' && assigneeId ? { assigneeId } : {}),
+  };
+};
+
+export const initialsOf = (name: string) => name.trim().split(/\s+/).slice(0, 2).map(part => part.charAt(0).toUpperCase()).join('');
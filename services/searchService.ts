@@ -0,0 +1,59 @@
+import { BoardItem, PlanningRoom } from "../types";
+
+export interface SearchResult {
+  kind: 'room' | 'item';
+  roomId: string;
+  roomName: string;
+  itemId?: string;
+  itemType?: BoardItem['type'];
+  title: string;
+  score: number;
+}
+
+// Structural items are what people usually look for, so they edge out stickies and notes on equal text matches
+const TYPE_BOOST: Record<BoardItem['type'], number> = { goal: 6, objective: 4, sticky: 2, 'idea-strip': 1, text: 0, image: -5 };
+
+const normalize = (value: string) => value.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '');
+
+// Scores one field against the query: whole-field match, then prefix, word prefix, substring, then in-order fuzzy match
+const scoreText = (text: string, query: string): number => {
+  const haystack = normalize(text).trim();
+  if (!haystack) return 0;
+  if (haystack === query) return 100;
+  if (haystack.startsWith(query)) return 80;
+  if (new RegExp(`(^|[^a-z0-9])${query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`).test(haystack)) return 65;
+  const index = haystack.indexOf(query);
+  if (index !== -1) return 50 - Math.min(index, 20);
+  // Every query token present somewhere in the field
+  const tokens = query.split(/\s+/).filter(Boolean);
+  if (tokens.length > 1 && tokens.every(token => haystack.includes(token))) return 40;
+  let position = 0; let gaps = 0;
+  for (const char of query) {
+    const next = haystack.indexOf(char, position);
+    if (next === -1) return 0;
+    gaps += next - position; position = next + 1;
+  }
+  return Math.max(1, 25 - gaps);
+};
+
+// Ranks items and rooms across every planning room; results below the fuzzy threshold are dropped
+export const searchRooms = (rooms: PlanningRoom[], rawQuery: string, limit = 30): SearchResult[] => {
+  const query = normalize(rawQuery).trim();
+  if (!query) return [];
+  const results: SearchResult[] = [];
+  const newest = Math.max(0, ...rooms.map(r => r.updatedAt));
+  const oldest = Math.min(newest, ...rooms.map(r => r.updatedAt));
+  rooms.forEach(room => {
+    // A small recency bonus keeps the room being worked on above stale copies with the same text; it is spread over the
+    // rooms' own edit range, since raw timestamps all sit within a sliver of each other
+    const recency = newest > oldest ? 3 * ((room.updatedAt - oldest) / (newest - oldest)) : 0;
+    const roomScore = Math.max(scoreText(room.name, query), scoreText(room.description, query) * 0.6);
+    if (roomScore > 10) results.push({ kind: 'room', roomId: room.id, roomName: room.name, title: room.name, score: roomScore + recency + 5 });
+    room.items.forEach(item => {
+      if (item.type === 'image') return;
+      const score = scoreText(item.content, query);
+      if (score > 10) results.push({ kind: 'item', roomId: room.id, roomName: room.name, itemId: item.id, itemType: item.type, title: item.content, score: score + TYPE_BOOST[item.type] + recency });
+    });
+  });
+  return results.sort((a, b) => b.score - a.score).slice(0, limit);
+};
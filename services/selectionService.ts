@@ -0,0 +1,52 @@
+import { BoardItem } from "../types";
+import { Rect, getItemRect } from "./boardGeometry";
+
+export type AlignMode = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type DistributeAxis = 'horizontal' | 'vertical';
+
+export const STICKY_PALETTE = ['bg-yellow-200', 'bg-pink-200', 'bg-blue-200', 'bg-green-200', 'bg-purple-200', 'bg-orange-200'];
+
+export const normalizeRect = (a: { x: number; y: number }, b: { x: number; y: number }): Rect =>
+  ({ x: Math.min(a.x, b.x), y: Math.min(a.y, b.y), w: Math.abs(a.x - b.x), h: Math.abs(a.y - b.y) });
+
+// Aligns the selection to the shared edge/centre of its bounds; locked items count toward the bounds but don't move
+export const alignItems = (items: BoardItem[], ids: string[], mode: AlignMode): BoardItem[] => {
+  const selected = items.filter(i => ids.includes(i.id));
+  if (selected.length < 2) return items;
+  const rects = selected.map(getItemRect);
+  const left = Math.min(...rects.map(r => r.x)); const right = Math.max(...rects.map(r => r.x + r.w));
+  const top = Math.min(...rects.map(r => r.y)); const bottom = Math.max(...rects.map(r => r.y + r.h));
+  return items.map(item => {
+    if (!ids.includes(item.id) || item.isLocked) return item;
+    const r = getItemRect(item);
+    switch (mode) {
+      case 'left': return { ...item, x: left };
+      case 'center': return { ...item, x: (left + right) / 2 - r.w / 2 };
+      case 'right': return { ...item, x: right - r.w };
+      case 'top': return { ...item, y: top };
+      case 'middle': return { ...item, y: (top + bottom) / 2 - r.h / 2 };
+      case 'bottom': return { ...item, y: bottom - r.h };
+    }
+  });
+};
+
+// Equalises the gaps between items along an axis, keeping the two outermost items where they are
+export const distributeItems = (items: BoardItem[], ids: string[], axis: DistributeAxis): BoardItem[] => {
+  const selected = items.filter(i => ids.includes(i.id));
+  if (selected.length < 3) return items;
+  const pos = (r: Rect) => axis === 'horizontal' ? r.x : r.y;
+  const size = (r: Rect) => axis === 'horizontal' ? r.w : r.h;
+  const sorted = [...selected].sort((a, b) => pos(getItemRect(a)) - pos(getItemRect(b)));
+  const first = getItemRect(sorted[0]); const last = getItemRect(sorted[sorted.length - 1]);
+  const span = pos(last) + size(last) - pos(first);
+  const occupied = sorted.reduce((sum, item) => sum + size(getItemRect(item)), 0);
+  const gap = (span - occupied) / (sorted.length - 1);
+  const targets = new Map<string, number>();
+  let cursor = pos(first);
+  sorted.forEach(item => { targets.set(item.id, cursor); cursor += size(getItemRect(item)) + gap; });
+  return items.map(item => {
+    const target = targets.get(item.id);
+    if (target === undefined || item.isLocked) return item;
+    return axis === 'horizontal' ? { ...item, x: target } : { ...item, y: target };
+  });
+};
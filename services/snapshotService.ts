@@ -0,0 +1,159 @@
+import { BoardItem, BoardLink, PlanningRoom } from "../types";
+import { BoardSnapshot } from "./historyService";
+import { StorageAdapter, isFiniteNumber, isRecord, isString, isValidLink, sanitizeItem } from "./storageService";
+import { toDateString } from "./scheduleService";
+
+export interface RoomSnapshot extends BoardSnapshot {
+  id: string;
+  roomId: string;
+  name: string;
+  createdAt: number;
+  // Automatic daily snapshots are pruned by the room's retention setting; manual ones are kept until deleted
+  kind: 'manual' | 'auto';
+}
+
+// Kept apart from the rooms so saving a board never rewrites its history
+export interface SnapshotStore {
+  list(roomId: string): Promise<RoomSnapshot[]>;
+  put(snapshot: RoomSnapshot): Promise<void>;
+  remove(roomId: string, ids: string[]): Promise<void>;
+  removeRoom(roomId: string): Promise<void>;
+}
+
+export const SNAPSHOTS_STORAGE_PREFIX = 'nexus_planning_snapshots_';
+export const AUTO_SNAPSHOT_RETENTION_CHOICES = [7, 14, 30, 90];
+
+const newestFirst = (a: RoomSnapshot, b: RoomSnapshot) => b.createdAt - a.createdAt;
+
+// Restoring a snapshot puts its board back into the room and out to peers, so stored ones are checked like rooms are:
+// snapshots without their identity are dropped, and so are malformed items and links inside the rest
+export const sanitizeSnapshots = (raw: unknown[]): RoomSnapshot[] => raw.flatMap((s): RoomSnapshot[] => {
+  if (!isRecord(s) || !isString(s.id) || !isString(s.roomId) || !isString(s.name) || !isFiniteNumber(s.createdAt) || !Array.isArray(s.items)) return [];
+  const items = s.items.flatMap(item => sanitizeItem(item) || []);
+  const links = (Array.isArray(s.links) ? s.links : []).filter(isValidLink);
+  return [{ id: s.id, roomId: s.roomId, name: s.name, createdAt: s.createdAt, kind: s.kind === 'auto' ? 'auto' : 'manual', items, links }];
+});
+
+// One key per room, so a room's history is read and written on its own
+export const createAdapterSnapshotStore = (adapter: StorageAdapter): SnapshotStore => {
+  const keyOf = (roomId: string) => `${SNAPSHOTS_STORAGE_PREFIX}${roomId}`;
+  // Throws on unreadable data, so put and remove never write a shorter list over it
+  const read = async (roomId: string): Promise<RoomSnapshot[]> => {
+    const raw = await adapter.getItem(keyOf(roomId));
+    if (!raw) return [];
+    let parsed: unknown;
+    try { parsed = JSON.parse(raw); } catch { throw new Error('The saved snapshots are not valid JSON.'); }
+    if (!Array.isArray(parsed)) throw new Error('The saved snapshots are not a list.');
+    return sanitizeSnapshots(parsed);
+  };
+  return {
+    list: async (roomId) => (await read(roomId)).sort(newestFirst),
+    put: async (snapshot) => { const existing = await read(snapshot.roomId); await adapter.setItem(keyOf(snapshot.roomId), JSON.stringify([...existing.filter(s => s.id !== snapshot.id), snapshot])); },
+    remove: async (roomId, ids) => { const existing = await read(roomId); await adapter.setItem(keyOf(roomId), JSON.stringify(existing.filter(s => !ids.includes(s.id)))); },
+    removeRoom: (roomId) => adapter.removeItem(keyOf(roomId)),
+  };
+};
+
+export const createSnapshot = (room: PlanningRoom, name: string, kind: RoomSnapshot['kind'] = 'manual', now: number = Date.now()): RoomSnapshot => ({
+  id: Math.random().toString(36).substr(2, 9),
+  roomId: room.id,
+  name: name.trim() || new Date(now).toLocaleDateString(),
+  createdAt: now,
+  kind,
+  items: room.items,
+  links: room.links,
+});
+
+// Due when the room has changed since its newest snapshot and no automatic one exists for today yet
+export const isAutoSnapshotDue = (room: PlanningRoom, snapshots: RoomSnapshot[], now: number = Date.now()) => {
+  const today = toDateString(new Date(now));
+  if (snapshots.some(s => s.kind === 'auto' && toDateString(new Date(s.createdAt)) === today)) return false;
+  const newest = snapshots.reduce((max, s) => Math.max(max, s.createdAt), 0);
+  return room.updatedAt > newest;
+};
+
+// Automatic snapshots older than `keepDays` days; manual snapshots are never pruned
+export const getExpiredSnapshots = (snapshots: RoomSnapshot[], keepDays: number, now: number = Date.now()): RoomSnapshot[] => {
+  const cutoff = new Date(now); cutoff.setDate(cutoff.getDate() - keepDays);
+  const oldest = toDateString(cutoff);
+  return snapshots.filter(s => s.kind === 'auto' && toDateString(new Date(s.createdAt)) <= oldest);
+};
+
+// Takes today's automatic snapshot for every room that asks for one and prunes what the retention setting no longer keeps
+export const runAutoSnapshots = async (store: SnapshotStore, rooms: PlanningRoom[], now: number = Date.now()): Promise<RoomSnapshot[]> => {
+  const taken: RoomSnapshot[] = [];
+  for (const room of rooms.filter(r => r.autoSnapshot)) {
+    const snapshots = await store.list(room.id);
+    if (isAutoSnapshotDue(room, snapshots, now)) {
+      const snapshot = createSnapshot(room, `Daily · ${new Date(now).toLocaleDateString()}`, 'auto', now);
+      await store.put(snapshot);
+      taken.push(snapshot);
+    }
+    const expired = getExpiredSnapshots(snapshots, room.autoSnapshot!.keepDays, now);
+    if (expired.length > 0) await store.remove(room.id, expired.map(s => s.id));
+  }
+  return taken;
+};
+
+// --- DIFF ---
+
+export interface ItemChange {
+  before: BoardItem;
+  after: BoardItem;
+  // Fields that differ; a move lists x and y
+  fields: (keyof BoardItem)[];
+}
+
+export interface SnapshotDiff {
+  added: BoardItem[];
+  removed: BoardItem[];
+  moved: ItemChange[];
+  edited: ItemChange[];
+  linksAdded: BoardLink[];
+  linksRemoved: BoardLink[];
+  linksChanged: { before: BoardLink; after: BoardLink }[];
+}
+
+const POSITION_FIELDS = new Set<keyof BoardItem>(['x', 'y']);
+// Nudges under this many board units are layout noise rather than a move worth reporting
+const MOVE_THRESHOLD = 4;
+
+// Fields other than the position that differ between two versions of an item
+export const changedFields = (before: BoardItem, after: BoardItem): (keyof BoardItem)[] => {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)] as (keyof BoardItem)[]);
+  // Compared by value so list fields (toolIds) only count when their contents change
+  return [...keys].filter(key => !POSITION_FIELDS.has(key) && JSON.stringify(before[key] ?? null) !== JSON.stringify(after[key] ?? null));
+};
+
+// Items and links are matched by id; an item can be both moved and edited
+export const diffSnapshots = (before: BoardSnapshot, after: BoardSnapshot): SnapshotDiff => {
+  const beforeItems = new Map(before.items.map(i => [i.id, i]));
+  const afterItems = new Map(after.items.map(i => [i.id, i]));
+  const beforeLinks = new Map(before.links.map(l => [l.id, l]));
+  const afterLinks = new Map(after.links.map(l => [l.id, l]));
+  const kept = after.items.filter(i => beforeItems.has(i.id)).map(i => ({ before: beforeItems.get(i.id)!, after: i }));
+  const keptLinks = after.links.filter(l => beforeLinks.has(l.id)).map(l => ({ before: beforeLinks.get(l.id)!, after: l }));
+  return {
+    added: after.items.filter(i => !beforeItems.has(i.id)),
+    removed: before.items.filter(i => !afterItems.has(i.id)),
+    moved: kept.filter(({ before: b, after: a }) => Math.hypot(a.x - b.x, a.y - b.y) >= MOVE_THRESHOLD).map(change => ({ ...change, fields: ['x', 'y'] as (keyof BoardItem)[] })),
+    edited: kept.map(change => ({ ...change, fields: changedFields(change.before, change.after) })).filter(change => change.fields.length > 0),
+    linksAdded: after.links.filter(l => !beforeLinks.has(l.id)),
+    linksRemoved: before.links.filter(l => !afterLinks.has(l.id)),
+    linksChanged: keptLinks.filter(({ before: b, after: a }) => b.fromId !== a.fromId || b.toId !== a.toId || b.variant !== a.variant),
+  };
+};
+
+export const countChanges = (diff: SnapshotDiff) => diff.added.length + diff.removed.length + diff.moved.length + diff.edited.length + diff.linksAdded.length + diff.linksRemoved.length + diff.linksChanged.length;
+
+// A new room holding the snapshot's board; items and links keep their ids, which are only unique within a room
+export const branchFromSnapshot = (room: PlanningRoom, snapshot: RoomSnapshot, name: string, now: number = Date.now()): PlanningRoom => ({
+  ...room,
+  id: Math.random().toString(36).substr(2, 9),
+  name,
+  createdAt: now,
+  updatedAt: now,
+  items: snapshot.items,
+  links: snapshot.links,
+  autoSnapshot: undefined,
+});
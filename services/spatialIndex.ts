@@ -0,0 +1,54 @@
+import { BoardItem } from "../types";
+import { Point, Rect, getItemRect, rectsIntersect } from "./boardGeometry";
+
+// Uniform grid hash over item rectangles. Cells are larger than any item, so each item touches at most four of them
+const CELL_SIZE = 400;
+
+export interface SpatialIndex {
+  // Items whose rectangle intersects `rect`, in board (z) order
+  query: (rect: Rect) => BoardItem[];
+  size: number;
+}
+
+const cellKey = (cx: number, cy: number) => `${cx},${cy}`;
+
+const cellsFor = (rect: Rect, visit: (key: string) => void) => {
+  const x0 = Math.floor(rect.x / CELL_SIZE); const x1 = Math.floor((rect.x + rect.w) / CELL_SIZE);
+  const y0 = Math.floor(rect.y / CELL_SIZE); const y1 = Math.floor((rect.y + rect.h) / CELL_SIZE);
+  for (let cx = x0; cx <= x1; cx++) for (let cy = y0; cy <= y1; cy++) visit(cellKey(cx, cy));
+};
+
+export const createSpatialIndex = (items: BoardItem[]): SpatialIndex => {
+  const cells = new Map<string, number[]>();
+  const rects = items.map(getItemRect);
+  rects.forEach((rect, index) => cellsFor(rect, key => { const cell = cells.get(key); if (cell) cell.push(index); else cells.set(key, [index]); }));
+
+  const query = (rect: Rect): BoardItem[] => {
+    const hits = new Set<number>();
+    // Huge queries (zoomed far out) touch more cells than there are items; a straight scan is cheaper then
+    const cellCount = (Math.floor((rect.x + rect.w) / CELL_SIZE) - Math.floor(rect.x / CELL_SIZE) + 1) * (Math.floor((rect.y + rect.h) / CELL_SIZE) - Math.floor(rect.y / CELL_SIZE) + 1);
+    if (cellCount > items.length) rects.forEach((r, index) => { if (rectsIntersect(r, rect)) hits.add(index); });
+    else cellsFor(rect, key => cells.get(key)?.forEach(index => { if (!hits.has(index) && rectsIntersect(rects[index], rect)) hits.add(index); }));
+    return [...hits].sort((a, b) => a - b).map(index => items[index]);
+  };
+
+  return { query, size: items.length };
+};
+
+export const expandRect = (rect: Rect, margin: number): Rect => ({ x: rect.x - margin, y: rect.y - margin, w: rect.w + margin * 2, h: rect.h + margin * 2 });
+
+// Bounding box of a quadratic link curve; the control point bounds it
+export const getCurveBounds = (p1: Point, control: Point, p2: Point): Rect => {
+  const minX = Math.min(p1.x, control.x, p2.x); const minY = Math.min(p1.y, control.y, p2.y);
+  return { x: minX, y: minY, w: Math.max(p1.x, control.x, p2.x) - minX, h: Math.max(p1.y, control.y, p2.y) - minY };
+};
+
+// Culling works on coarse chunks around the viewport (padded by half a screen) so small pans don't invalidate memoised
+// render lists; the rect only changes when the viewport crosses a chunk boundary
+const CULL_CHUNK = 1000;
+export const getCullingRect = (visible: Rect): Rect => {
+  const padX = visible.w / 2; const padY = visible.h / 2;
+  const x0 = Math.floor((visible.x - padX) / CULL_CHUNK) * CULL_CHUNK; const y0 = Math.floor((visible.y - padY) / CULL_CHUNK) * CULL_CHUNK;
+  const x1 = Math.ceil((visible.x + visible.w + padX) / CULL_CHUNK) * CULL_CHUNK; const y1 = Math.ceil((visible.y + visible.h + padY) / CULL_CHUNK) * CULL_CHUNK;
+  return { x: x0, y: y0, w: x1 - x0, h: y1 - y0 };
+};
@@ -0,0 +1,243 @@
+import { BoardItem, BoardLink, PlanningRoom } from "../types";
+import { sanitizeSchedule } from "./scheduleService";
+import { sanitizeKanbanColumns } from "./kanbanService";
+import { sanitizeToolIds } from "./toolService";
+
+// --- GUARDS ---
+
+// Shared by every module that reads data it did not write itself: storage, bundles, clipboard, model responses, peers
+export const isRecord = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v);
+export const isString = (v: unknown): v is string => typeof v === 'string';
+export const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+export const asString = (v: unknown) => isString(v) ? v : '';
+
+// Key/value backend the persistence layer writes through, so the app isn't tied to localStorage
+export interface StorageAdapter {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+export const localStorageAdapter: StorageAdapter = {
+  getItem: async (key) => localStorage.getItem(key),
+  setItem: async (key, value) => { localStorage.setItem(key, value); },
+  removeItem: async (key) => { localStorage.removeItem(key); },
+};
+
+export const createMemoryStorageAdapter = (initial: Record<string, string> = {}): StorageAdapter => {
+  const store = new Map(Object.entries(initial));
+  return {
+    getItem: async (key) => store.get(key) ?? null,
+    setItem: async (key, value) => { store.set(key, value); },
+    removeItem: async (key) => { store.delete(key); },
+  };
+};
+
+export const ROOMS_STORAGE_KEY = 'nexus_planning_rooms';
+export const QUARANTINE_STORAGE_KEY = 'nexus_planning_rooms_quarantine';
+
+// --- SCHEMA ---
+
+// Bump together with a new entry in MIGRATIONS whenever the persisted shape changes
+export const CURRENT_SCHEMA_VERSION = 1;
+
+export interface StorageEnvelope {
+  version: number;
+  savedAt: number;
+  rooms: PlanningRoom[];
+}
+
+export interface QuarantinedEntry {
+  roomId?: string;
+  reason: string;
+  quarantinedAt: number;
+  data: unknown;
+}
+
+export interface LoadResult {
+  rooms: PlanningRoom[];
+  quarantined: QuarantinedEntry[];
+  migratedFrom: number | null;
+}
+
+interface Migration {
+  version: number;
+  description: string;
+  migrate: (rooms: unknown[]) => unknown[];
+}
+
+const ITEM_TYPES: BoardItem['type'][] = ['sticky', 'text', 'image', 'objective', 'idea-strip', 'goal'];
+const LINK_VARIANTS: BoardLink['variant'][] = ['critical', 'positive', 'alternative', 'neutral'];
+
+// Ordered steps; each one upgrades data written at `version - 1` to `version`.
+// Unversioned data (the bare array written before envelopes existed) is version 0.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Convert legacy parentId references into BoardLinks',
+    migrate: (rooms) => rooms.map(room => {
+      if (!isRecord(room) || !Array.isArray(room.items)) return room;
+      const links: unknown[] = Array.isArray(room.links) ? [...room.links] : [];
+      const items = room.items.map((item: unknown) => {
+        if (!isRecord(item) || !item.parentId) return item;
+        const { parentId, ...rest } = item;
+        const exists = links.some(l => isRecord(l) && l.fromId === parentId && l.toId === item.id);
+        if (!exists) links.push({ id: `migrated-${parentId}-${item.id}`, fromId: parentId, toId: item.id, variant: 'neutral' });
+        return rest;
+      });
+      return { ...room, items, links };
+    }),
+  },
+];
+
+export const runMigrations = (rooms: unknown[], fromVersion: number): unknown[] =>
+  MIGRATIONS.filter(m => m.version > fromVersion).reduce((acc, m) => m.migrate(acc), rooms);
+
+// --- VALIDATION ---
+
+const isValidItem = (item: unknown): item is BoardItem =>
+  isRecord(item) && isString(item.id) && ITEM_TYPES.includes(item.type as BoardItem['type']) && isString(item.content) && isFiniteNumber(item.x) && isFiniteNumber(item.y);
+
+export const isValidLink = (link: unknown): link is BoardLink =>
+  isRecord(link) && isString(link.id) && isString(link.fromId) && isString(link.toId) && LINK_VARIANTS.includes(link.variant as BoardLink['variant']);
+
+// The item with its optional fields cleaned up, or null when it is not a board item at all
+export const sanitizeItem = (item: unknown): BoardItem | null => isValidItem(item) ? sanitizeToolIds(sanitizeSchedule(item)) : null;
+
+// Returns the room with malformed items/links stripped, or a reason the whole room must be set aside
+export const validateRoom = (raw: unknown): { room: PlanningRoom; dropped: QuarantinedEntry[] } | { error: string } => {
+  if (!isRecord(raw)) return { error: 'Room is not an object' };
+  const { id, name, items: rawItems, links: rawLinks = [] } = raw;
+  if (!isString(id) || !id) return { error: 'Room has no id' };
+  if (!isString(name)) return { error: 'Room has no name' };
+  if (!Array.isArray(rawItems)) return { error: 'Room items are not a list' };
+  if (!Array.isArray(rawLinks)) return { error: 'Room links are not a list' };
+
+  const now = Date.now();
+  const dropped: QuarantinedEntry[] = [];
+  const items = rawItems.flatMap((item: unknown) => {
+    const sanitized = sanitizeItem(item);
+    if (sanitized) return [sanitized];
+    dropped.push({ roomId: id, reason: 'Malformed board item', quarantinedAt: now, data: item });
+    return [];
+  });
+  const links = rawLinks.filter((link: unknown): link is BoardLink => {
+    if (isValidLink(link)) return true;
+    dropped.push({ roomId: id, reason: 'Malformed board link', quarantinedAt: now, data: link });
+    return false;
+  });
+  const autoSnapshot = raw.autoSnapshot;
+
+  // Only the fields below are kept, each checked; anything else the data carries is left behind
+  return {
+    room: {
+      id,
+      name,
+      description: isString(raw.description) ? raw.description : '',
+      createdAt: isFiniteNumber(raw.createdAt) ? raw.createdAt : now,
+      updatedAt: isFiniteNumber(raw.updatedAt) ? raw.updatedAt : now,
+      themeColor: isString(raw.themeColor) ? raw.themeColor : 'blue',
+      ...(raw.boardStyle === 'noir' || raw.boardStyle === 'modern' ? { boardStyle: raw.boardStyle } : {}),
+      kanbanColumns: sanitizeKanbanColumns(raw.kanbanColumns),
+      autoSnapshot: isRecord(autoSnapshot) && isFiniteNumber(autoSnapshot.keepDays) && autoSnapshot.keepDays > 0 ? { keepDays: autoSnapshot.keepDays } : undefined,
+      items,
+      links,
+    },
+    dropped,
+  };
+};
+
+export const validateRooms = (candidates: unknown[]): { rooms: PlanningRoom[]; quarantined: QuarantinedEntry[] } => {
+  const rooms: PlanningRoom[] = [];
+  const quarantined: QuarantinedEntry[] = [];
+  candidates.forEach(candidate => {
+    const result = validateRoom(candidate);
+    if ('error' in result) {
+      quarantined.push({ roomId: isRecord(candidate) && isString(candidate.id) ? candidate.id : undefined, reason: result.error, quarantinedAt: Date.now(), data: candidate });
+    } else {
+      rooms.push(result.room);
+      quarantined.push(...result.dropped);
+    }
+  });
+  return { rooms, quarantined };
+};
+
+// --- LOAD / SAVE ---
+
+// Never throws: a full storage must not turn a readable load into a failed one. Returns whether the entries were kept.
+const quarantine = async (adapter: StorageAdapter, entries: QuarantinedEntry[]): Promise<boolean> => {
+  if (entries.length === 0) return true;
+  let existing: QuarantinedEntry[] = [];
+  try {
+    const raw = await adapter.getItem(QUARANTINE_STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    if (Array.isArray(parsed)) existing = parsed;
+  } catch {
+    // A corrupt quarantine is not worth keeping; start a fresh one
+  }
+  try {
+    await adapter.setItem(QUARANTINE_STORAGE_KEY, JSON.stringify([...existing, ...entries]));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const readEnvelope = (parsed: unknown): { version: number; rooms: unknown } | null => {
+  if (Array.isArray(parsed)) return { version: 0, rooms: parsed };
+  if (isRecord(parsed) && isFiniteNumber(parsed.version)) return { version: parsed.version, rooms: parsed.rooms };
+  return null;
+};
+
+export const loadRooms = async (adapter: StorageAdapter, fallback: PlanningRoom[]): Promise<LoadResult> => {
+  const raw = await adapter.getItem(ROOMS_STORAGE_KEY);
+  if (raw === null) return { rooms: fallback, quarantined: [], migratedFrom: null };
+
+  // Unreadable data stays where it is: the caller gets an error instead of the fallback, so nothing saves over it
+  const fail = async (reason: string): Promise<never> => {
+    await quarantine(adapter, [{ reason, quarantinedAt: Date.now(), data: raw }]);
+    throw new Error(reason);
+  };
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return fail('Stored rooms are not valid JSON');
+  }
+
+  const envelope = readEnvelope(parsed);
+  if (!envelope || !Array.isArray(envelope.rooms)) return fail('Stored rooms have an unrecognised shape');
+  if (envelope.version > CURRENT_SCHEMA_VERSION) return fail(`Stored rooms use newer schema version ${envelope.version}`);
+
+  const { rooms, quarantined } = validateRooms(runMigrations(envelope.rooms, envelope.version));
+  // The next save drops whatever was set aside, so it has to be kept somewhere first
+  if (!(await quarantine(adapter, quarantined))) throw new Error('Invalid room entries could not be set aside');
+
+  return {
+    rooms,
+    quarantined,
+    migratedFrom: envelope.version < CURRENT_SCHEMA_VERSION ? envelope.version : null,
+  };
+};
+
+export const saveRooms = async (adapter: StorageAdapter, rooms: PlanningRoom[]): Promise<void> => {
+  const envelope: StorageEnvelope = { version: CURRENT_SCHEMA_VERSION, savedAt: Date.now(), rooms };
+  await adapter.setItem(ROOMS_STORAGE_KEY, JSON.stringify(envelope));
+};
+
+// --- ROOM STORES ---
+
+// What the app loads from and saves to; implementations decide how rooms are laid out on disk
+export interface RoomStore {
+  load(fallback: PlanningRoom[]): Promise<LoadResult>;
+  save(rooms: PlanningRoom[]): Promise<void>;
+}
+
+export const createAdapterRoomStore = (adapter: StorageAdapter): RoomStore => ({
+  load: (fallback) => loadRooms(adapter, fallback),
+  save: (rooms) => saveRooms(adapter, rooms),
+});
+
+export const isQuotaExceededError = (error: unknown): boolean =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
@@ -0,0 +1,329 @@
+import { BoardItem, BoardLink } from "../types";
+import { Point } from "./boardGeometry";
+import { BoardSnapshot } from "./historyService";
+import { changedFields } from "./snapshotService";
+import { isFiniteNumber, isRecord, isString, isValidLink, sanitizeItem } from "./storageService";
+
+// Lamport timestamp; the actor id breaks ties so every replica orders concurrent edits the same way
+export interface Stamp { clock: number; actor: string; }
+
+// Board edits as conflict-free operations: each item and link is a last-writer-wins register,
+// with the position kept apart from the rest so a move and a concurrent edit both survive
+export type SyncOp =
+  | { kind: 'item-upsert'; item: BoardItem; stamp: Stamp }
+  | { kind: 'item-move'; id: string; x: number; y: number; stamp: Stamp }
+  | { kind: 'item-delete'; id: string; stamp: Stamp }
+  | { kind: 'link-add'; link: BoardLink; stamp: Stamp }
+  | { kind: 'link-remove'; id: string; stamp: Stamp };
+
+export interface Presence {
+  actor: string;
+  name: string;
+  color: string;
+  // Board coordinates; null while the pointer is off the board
+  cursor: Point | null;
+  selection: string[];
+}
+
+export type SyncMessage =
+  // Sent on connect with the sender's whole replica; peers merge it and answer with theirs
+  | { type: 'hello'; roomId: string; from: string; ops: SyncOp[] }
+  | { type: 'ops'; roomId: string; from: string; ops: SyncOp[] }
+  | { type: 'presence'; roomId: string; from: string; presence: Presence }
+  | { type: 'leave'; roomId: string; from: string };
+
+export type SyncStatus = 'connecting' | 'open' | 'closed';
+
+// Anything that can carry messages between replicas: other tabs, a relay server, a test harness
+export interface SyncTransport {
+  send(message: SyncMessage): void;
+  subscribe(listener: (message: SyncMessage) => void): () => void;
+  // Called with the current status straight away, then on every change
+  subscribeStatus(listener: (status: SyncStatus) => void): () => void;
+  close(): void;
+}
+
+export const isSyncMessage = (value: unknown): value is SyncMessage => {
+  const m = value as SyncMessage;
+  return !!m && typeof m === 'object' && typeof m.roomId === 'string' && typeof m.from === 'string'
+    && (((m.type === 'hello' || m.type === 'ops') && Array.isArray(m.ops)) || (m.type === 'presence' && !!m.presence && typeof m.presence === 'object') || m.type === 'leave');
+};
+
+const isStamp = (value: unknown): value is Stamp => {
+  const s = value as Stamp;
+  return !!s && typeof s === 'object' && typeof s.clock === 'number' && Number.isFinite(s.clock) && typeof s.actor === 'string';
+};
+
+// Ops come from other machines, so each one is checked on arrival; malformed ones are dropped rather than failing the batch
+export const sanitizeSyncOps = (ops: unknown[]): SyncOp[] => ops.flatMap((value): SyncOp[] => {
+  const op = value as Record<string, unknown>;
+  if (!op || typeof op !== 'object' || !isStamp(op.stamp)) return [];
+  const stamp = op.stamp;
+  switch (op.kind) {
+    case 'item-upsert': { const item = sanitizeItem(op.item); return item ? [{ kind: 'item-upsert', item, stamp }] : []; }
+    case 'item-move': return typeof op.id === 'string' && typeof op.x === 'number' && Number.isFinite(op.x) && typeof op.y === 'number' && Number.isFinite(op.y) ? [{ kind: 'item-move', id: op.id, x: op.x, y: op.y, stamp }] : [];
+    case 'item-delete': case 'link-remove': return typeof op.id === 'string' ? [{ kind: op.kind, id: op.id, stamp }] : [];
+    case 'link-add': return isValidLink(op.link) ? [{ kind: 'link-add', link: { id: op.link.id, fromId: op.link.fromId, toId: op.link.toId, variant: op.link.variant }, stamp }] : [];
+    default: return [];
+  }
+});
+
+const isFinitePoint = (value: unknown): value is Point => isRecord(value) && isFiniteNumber(value.x) && isFiniteNumber(value.y);
+
+// Presence is rendered straight onto the board, so a malformed one is dropped rather than stored
+export const sanitizePresence = (value: unknown): Presence | null => {
+  if (!isRecord(value)) return null;
+  const { actor, name, color, cursor, selection } = value;
+  if (!isString(actor) || !isString(name) || !isString(color) || !(cursor === null || isFinitePoint(cursor)) || !Array.isArray(selection) || !selection.every(isString)) return null;
+  return { actor, name, color, cursor: isFinitePoint(cursor) ? { x: cursor.x, y: cursor.y } : null, selection: [...selection] };
+};
+
+// --- REPLICA ---
+
+interface ItemEntry { item: BoardItem | null; edited: Stamp | null; position: Point | null; moved: Stamp | null; deleted: Stamp | null; }
+interface LinkEntry { link: BoardLink | null; added: Stamp | null; removed: Stamp | null; }
+
+export interface Replica {
+  actor: string;
+  clock: number;
+  items: Map<string, ItemEntry>;
+  links: Map<string, LinkEntry>;
+}
+
+const isLater = (a: Stamp, b: Stamp) => a.clock > b.clock || (a.clock === b.clock && a.actor > b.actor);
+const wins = (stamp: Stamp, current: Stamp | null) => !current || isLater(stamp, current);
+
+// A delete only hides the item until someone edits it again; a move alone does not bring it back
+const isItemLive = (entry: ItemEntry) => !!entry.item && (!entry.deleted || (!!entry.edited && isLater(entry.edited, entry.deleted)));
+const isLinkLive = (entry: LinkEntry) => !!entry.link && (!entry.removed || (!!entry.added && isLater(entry.added, entry.removed)));
+
+// Seeded from the local copy of the room; replicas that start from different copies converge on their union
+export const createReplica = (actor: string, { items, links }: BoardSnapshot): Replica => {
+  const stamp = { clock: 0, actor };
+  return {
+    actor,
+    clock: 0,
+    items: new Map(items.map(item => [item.id, { item, edited: stamp, position: { x: item.x, y: item.y }, moved: stamp, deleted: null }])),
+    links: new Map(links.map(link => [link.id, { link, added: stamp, removed: null }])),
+  };
+};
+
+const EMPTY_ITEM: ItemEntry = { item: null, edited: null, position: null, moved: null, deleted: null };
+const EMPTY_LINK: LinkEntry = { link: null, added: null, removed: null };
+
+// Keeps the item object as-is when its position already matches, so unchanged items stay referentially equal
+const placed = (item: BoardItem | null, position: Point | null) => !item || !position || (item.x === position.x && item.y === position.y) ? item : { ...item, x: position.x, y: position.y };
+
+const applyItemOp = (entry: ItemEntry, op: SyncOp): ItemEntry => {
+  switch (op.kind) {
+    // The upsert's own x/y only place an item the replica has never positioned; after that only move ops change it
+    case 'item-upsert': {
+      if (!wins(op.stamp, entry.edited)) return entry;
+      const position = entry.position || { x: op.item.x, y: op.item.y };
+      return { ...entry, item: placed(op.item, position), edited: op.stamp, position, moved: entry.moved || op.stamp };
+    }
+    case 'item-move':
+      if (!wins(op.stamp, entry.moved)) return entry;
+      return { ...entry, item: placed(entry.item, { x: op.x, y: op.y }), position: { x: op.x, y: op.y }, moved: op.stamp };
+    case 'item-delete':
+      return wins(op.stamp, entry.deleted) ? { ...entry, deleted: op.stamp } : entry;
+    default:
+      return entry;
+  }
+};
+
+const applyLinkOp = (entry: LinkEntry, op: SyncOp): LinkEntry => {
+  if (op.kind === 'link-add') return wins(op.stamp, entry.added) ? { ...entry, link: op.link, added: op.stamp } : entry;
+  if (op.kind === 'link-remove') return wins(op.stamp, entry.removed) ? { ...entry, removed: op.stamp } : entry;
+  return entry;
+};
+
+// Ops commute and are idempotent, so replicas agree whatever order (or how often) they arrive in
+export const applyOps = (replica: Replica, ops: SyncOp[]): Replica => {
+  if (ops.length === 0) return replica;
+  const items = new Map(replica.items); const links = new Map(replica.links);
+  let clock = replica.clock;
+  ops.forEach(op => {
+    clock = Math.max(clock, op.stamp.clock);
+    if (op.kind === 'link-add' || op.kind === 'link-remove') {
+      const id = op.kind === 'link-add' ? op.link.id : op.id;
+      links.set(id, applyLinkOp(links.get(id) || EMPTY_LINK, op));
+    } else {
+      const id = op.kind === 'item-upsert' ? op.item.id : op.id;
+      items.set(id, applyItemOp(items.get(id) || EMPTY_ITEM, op));
+    }
+  });
+  return { ...replica, clock, items, links };
+};
+
+// The board the replica currently describes; links to items that are gone are dropped
+export const toSnapshot = (replica: Replica): BoardSnapshot => {
+  const items: BoardItem[] = [];
+  replica.items.forEach(entry => { if (isItemLive(entry)) items.push(entry.item!); });
+  const ids = new Set(items.map(i => i.id));
+  const links: BoardLink[] = [];
+  replica.links.forEach(entry => { if (isLinkLive(entry) && ids.has(entry.link!.fromId) && ids.has(entry.link!.toId)) links.push(entry.link!); });
+  return { items, links };
+};
+
+// Everything the replica knows, tombstones included, as ops a fresh peer can merge
+export const replicaToOps = (replica: Replica): SyncOp[] => {
+  const ops: SyncOp[] = [];
+  replica.items.forEach((entry, id) => {
+    if (entry.item && entry.edited) ops.push({ kind: 'item-upsert', item: entry.item, stamp: entry.edited });
+    if (entry.position && entry.moved) ops.push({ kind: 'item-move', id, ...entry.position, stamp: entry.moved });
+    if (entry.deleted) ops.push({ kind: 'item-delete', id, stamp: entry.deleted });
+  });
+  replica.links.forEach((entry, id) => {
+    if (entry.link && entry.added) ops.push({ kind: 'link-add', link: entry.link, stamp: entry.added });
+    if (entry.removed) ops.push({ kind: 'link-remove', id, stamp: entry.removed });
+  });
+  return ops;
+};
+
+const linkChanged = (a: BoardLink, b: BoardLink) => a.fromId !== b.fromId || a.toId !== b.toId || a.variant !== b.variant;
+
+// The ops that turn `before` into `after`, all carrying the same stamp
+export const diffToOps = (before: BoardSnapshot, after: BoardSnapshot, stamp: Stamp): SyncOp[] => {
+  const ops: SyncOp[] = [];
+  const beforeItems = new Map(before.items.map(i => [i.id, i]));
+  const afterIds = new Set(after.items.map(i => i.id));
+  after.items.forEach(item => {
+    const prev = beforeItems.get(item.id);
+    if (prev === item) return;
+    if (!prev || changedFields(prev, item).length > 0) ops.push({ kind: 'item-upsert', item, stamp });
+    // Re-added items get a move too, in case the replica still holds an older position for the id
+    if (!prev || prev.x !== item.x || prev.y !== item.y) ops.push({ kind: 'item-move', id: item.id, x: item.x, y: item.y, stamp });
+  });
+  before.items.forEach(item => { if (!afterIds.has(item.id)) ops.push({ kind: 'item-delete', id: item.id, stamp }); });
+  const beforeLinks = new Map(before.links.map(l => [l.id, l]));
+  const afterLinkIds = new Set(after.links.map(l => l.id));
+  after.links.forEach(link => { const prev = beforeLinks.get(link.id); if (!prev || (prev !== link && linkChanged(prev, link))) ops.push({ kind: 'link-add', link, stamp }); });
+  before.links.forEach(link => { if (!afterLinkIds.has(link.id)) ops.push({ kind: 'link-remove', id: link.id, stamp }); });
+  return ops;
+};
+
+// --- SESSION ---
+
+export const PRESENCE_HEARTBEAT_MS = 5000;
+// Peers that stop sending presence (a closed laptop, a crashed tab) disappear after this long
+export const PEER_TIMEOUT_MS = 15000;
+// Cursor updates are coalesced to at most one message per interval
+const PRESENCE_THROTTLE_MS = 50;
+
+export interface SyncSessionOptions {
+  roomId: string;
+  actor: string;
+  transport: SyncTransport;
+  initial: BoardSnapshot;
+  presence: Pick<Presence, 'name' | 'color'>;
+  onRemoteChange: (snapshot: BoardSnapshot) => void;
+  onPeersChange: (peers: Presence[]) => void;
+  onStatusChange?: (status: SyncStatus) => void;
+}
+
+export interface SyncSession {
+  roomId: string;
+  // Publishes whatever differs between the last known board and `snapshot`
+  commit(snapshot: BoardSnapshot): void;
+  updatePresence(changes: Partial<Omit<Presence, 'actor'>>): void;
+  close(): void;
+}
+
+export const createSyncSession = ({ roomId, actor, transport, initial, presence: identity, onRemoteChange, onPeersChange, onStatusChange }: SyncSessionOptions): SyncSession => {
+  let replica = createReplica(actor, initial);
+  let current = initial;
+  let presence: Presence = { actor, ...identity, cursor: null, selection: [] };
+  const peers = new Map<string, { presence: Presence; seenAt: number }>();
+  let presenceTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const emitPeers = () => onPeersChange([...peers.values()].map(p => p.presence));
+  const send = (message: SyncMessage) => transport.send(message);
+  const sendPresence = () => { presenceTimer = null; send({ type: 'presence', roomId, from: actor, presence }); };
+
+  const merge = (ops: SyncOp[]) => {
+    replica = applyOps(replica, ops);
+    const next = toSnapshot(replica);
+    if (next.items.length === current.items.length && next.links.length === current.links.length && next.items.every((item, i) => item === current.items[i]) && next.links.every((link, i) => link === current.links[i])) return;
+    current = next;
+    onRemoteChange(next);
+  };
+
+  const unsubscribe = transport.subscribe(message => {
+    if (message.roomId !== roomId || message.from === actor) return;
+    if (message.type === 'hello') { merge(sanitizeSyncOps(message.ops)); send({ type: 'ops', roomId, from: actor, ops: replicaToOps(replica) }); sendPresence(); }
+    else if (message.type === 'ops') merge(sanitizeSyncOps(message.ops));
+    else if (message.type === 'presence') { const peer = sanitizePresence(message.presence); if (peer) { peers.set(message.from, { presence: peer, seenAt: Date.now() }); emitPeers(); } }
+    else if (message.type === 'leave' && peers.delete(message.from)) emitPeers();
+  });
+  // Every (re)connect starts with a full exchange, so edits made while offline are never lost
+  const unsubscribeStatus = transport.subscribeStatus(status => {
+    onStatusChange?.(status);
+    if (status === 'open') { send({ type: 'hello', roomId, from: actor, ops: replicaToOps(replica) }); sendPresence(); }
+  });
+  const heartbeat = setInterval(() => {
+    sendPresence();
+    const cutoff = Date.now() - PEER_TIMEOUT_MS;
+    let changed = false;
+    peers.forEach((peer, id) => { if (peer.seenAt < cutoff) { peers.delete(id); changed = true; } });
+    if (changed) emitPeers();
+  }, PRESENCE_HEARTBEAT_MS);
+
+  return {
+    roomId,
+    commit: (snapshot) => {
+      if (snapshot.items === current.items && snapshot.links === current.links) return;
+      const ops = diffToOps(current, snapshot, { clock: replica.clock + 1, actor });
+      current = snapshot;
+      if (ops.length === 0) return;
+      replica = applyOps(replica, ops);
+      send({ type: 'ops', roomId, from: actor, ops });
+    },
+    updatePresence: (changes) => {
+      presence = { ...presence, ...changes };
+      if (presenceTimer === null) presenceTimer = setTimeout(sendPresence, PRESENCE_THROTTLE_MS);
+    },
+    close: () => {
+      if (presenceTimer !== null) clearTimeout(presenceTimer);
+      clearInterval(heartbeat);
+      send({ type: 'leave', roomId, from: actor });
+      unsubscribe(); unsubscribeStatus();
+      transport.close();
+    },
+  };
+};
+
+// --- SETTINGS ---
+
+export const SYNC_SETTINGS_STORAGE_KEY = 'nexus_planning_sync';
+export const PRESENCE_COLORS = ['#ef4444', '#f59e0b', '#10b981', '#3b82f6', '#8b5cf6', '#ec4899', '#14b8a6', '#f97316'];
+
+export interface SyncSettings {
+  name: string;
+  color: string;
+  // Empty means tabs of this browser only (BroadcastChannel); otherwise a ws:// or wss:// relay
+  relayUrl: string;
+}
+
+// A per-device preference like the viewports, so it stays out of the rooms and their exports
+export const loadSyncSettings = (): SyncSettings => {
+  const fallback = { name: `Guest ${Math.floor(Math.random() * 900) + 100}`, color: PRESENCE_COLORS[Math.floor(Math.random() * PRESENCE_COLORS.length)], relayUrl: '' };
+  try {
+    const parsed = JSON.parse(localStorage.getItem(SYNC_SETTINGS_STORAGE_KEY) || '{}');
+    return {
+      name: typeof parsed.name === 'string' && parsed.name.trim() ? parsed.name : fallback.name,
+      color: typeof parsed.color === 'string' ? parsed.color : fallback.color,
+      relayUrl: typeof parsed.relayUrl === 'string' ? parsed.relayUrl : '',
+    };
+  } catch {
+    return fallback;
+  }
+};
+
+export const saveSyncSettings = (settings: SyncSettings) => {
+  try {
+    localStorage.setItem(SYNC_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Falling back to a generated name next time is harmless
+  }
+};
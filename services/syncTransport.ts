@@ -0,0 +1,84 @@
+import { SyncMessage, SyncSettings, SyncStatus, SyncTransport, isSyncMessage } from "./syncService";
+
+export const SYNC_CHANNEL_NAME = 'nexus_planning_sync';
+
+const RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 15000;
+
+const createListeners = <T,>() => {
+  const listeners = new Set<(value: T) => void>();
+  return {
+    add: (listener: (value: T) => void) => { listeners.add(listener); return () => { listeners.delete(listener); }; },
+    emit: (value: T) => listeners.forEach(listener => listener(value)),
+  };
+};
+
+// Other tabs of this browser on the same origin; a tab never receives its own messages
+export const createBroadcastChannelTransport = (channelName: string = SYNC_CHANNEL_NAME): SyncTransport => {
+  const channel = new BroadcastChannel(channelName);
+  const messages = createListeners<SyncMessage>();
+  channel.onmessage = (e: MessageEvent) => { if (isSyncMessage(e.data)) messages.emit(e.data); };
+  let closed = false;
+  return {
+    send: (message) => { if (!closed) channel.postMessage(message); },
+    subscribe: messages.add,
+    subscribeStatus: (listener) => { listener(closed ? 'closed' : 'open'); return () => {}; },
+    close: () => { closed = true; channel.close(); },
+  };
+};
+
+// A relay that forwards every text frame to the other connected clients (see scripts/sync-relay.mjs).
+// Messages sent while disconnected are dropped: the session re-sends its whole replica on reconnect
+export const createWebSocketTransport = (url: string): SyncTransport => {
+  const messages = createListeners<SyncMessage>();
+  const statuses = createListeners<SyncStatus>();
+  let status: SyncStatus = 'connecting';
+  let socket: WebSocket | null = null;
+  let retryDelay = RECONNECT_DELAY_MS;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let closed = false;
+
+  const setStatus = (next: SyncStatus) => { if (next !== status) { status = next; statuses.emit(next); } };
+  const connect = () => {
+    setStatus('connecting');
+    try {
+      socket = new WebSocket(url);
+    } catch {
+      // An invalid relay URL; the collaboration menu shows the closed status
+      setStatus('closed');
+      return;
+    }
+    socket.onopen = () => { retryDelay = RECONNECT_DELAY_MS; setStatus('open'); };
+    socket.onmessage = (e: MessageEvent) => {
+      if (typeof e.data !== 'string') return;
+      try { const parsed = JSON.parse(e.data); if (isSyncMessage(parsed)) messages.emit(parsed); }
+      catch { /* Not one of ours; a shared relay may carry other traffic */ }
+    };
+    socket.onclose = () => {
+      socket = null;
+      if (closed) return;
+      setStatus('connecting');
+      retryTimer = setTimeout(connect, retryDelay);
+      retryDelay = Math.min(retryDelay * 2, MAX_RECONNECT_DELAY_MS);
+    };
+  };
+  connect();
+
+  return {
+    send: (message) => { if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message)); },
+    subscribe: messages.add,
+    subscribeStatus: (listener) => { listener(status); return statuses.add(listener); },
+    close: () => {
+      closed = true;
+      if (retryTimer !== null) clearTimeout(retryTimer);
+      socket?.close();
+      setStatus('closed');
+    },
+  };
+};
+
+// The relay when one is configured, otherwise other tabs; null where neither is available
+export const createTransport = (settings: SyncSettings): SyncTransport | null => {
+  if (settings.relayUrl.trim()) return typeof WebSocket !== 'undefined' ? createWebSocketTransport(settings.relayUrl.trim()) : null;
+  return typeof BroadcastChannel !== 'undefined' ? createBroadcastChannelTransport() : null;
+};
@@ -0,0 +1,77 @@
+import { BoardItem, BoardLink } from "../types";
+import { getGraphOrder } from "./boardNavigation";
+import { isActionable, isDependencyLink } from "./dependencyAnalysis";
+import { parseDateString, toDateString } from "./scheduleService";
+
+export interface TimelineBar {
+  item: BoardItem;
+  start: string;
+  end: string;
+  // Only one of the two dates is set, so the item is drawn as a single-day marker
+  isMilestone: boolean;
+}
+
+export interface TimelineDependency {
+  link: BoardLink;
+  // The upstream bar ends after the downstream bar starts
+  isBroken: boolean;
+}
+
+export interface Timeline {
+  bars: TimelineBar[];
+  backlog: BoardItem[];
+  dependencies: TimelineDependency[];
+  start: string;
+  end: string;
+}
+
+export type DragMode = 'move' | 'start' | 'end';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const addDays = (date: string, days: number) => { const d = parseDateString(date); d.setDate(d.getDate() + days); return toDateString(d); };
+// Rounded so daylight-saving days of 23 or 25 hours still count as one
+export const daysBetween = (from: string, to: string) => Math.round((parseDateString(to).getTime() - parseDateString(from).getTime()) / DAY_MS);
+
+export const getBar = (item: BoardItem): TimelineBar | null => {
+  if (!item.startDate && !item.dueDate) return null;
+  const start = item.startDate || item.dueDate!; const end = item.dueDate || item.startDate!;
+  // A start after the due date is read as the reverse range rather than dropped
+  return { item, start: start <= end ? start : end, end: start <= end ? end : start, isMilestone: !item.startDate || !item.dueDate };
+};
+
+const isBroken = (from: TimelineBar | undefined, to: TimelineBar | undefined) => !!from && !!to && from.end > to.start;
+
+// Dated work in dependency order (so arrows mostly point down the chart), undated work in the backlog
+export const buildTimeline = (items: BoardItem[], links: BoardLink[], today: string = toDateString(new Date())): Timeline => {
+  const byId = new Map(items.map(i => [i.id, i]));
+  const bars: TimelineBar[] = []; const backlog: BoardItem[] = [];
+  getGraphOrder(items, links).forEach(id => {
+    const item = byId.get(id)!;
+    if (!isActionable(item)) return;
+    const bar = getBar(item);
+    if (bar) bars.push(bar); else backlog.push(item);
+  });
+  const barsById = new Map(bars.map(b => [b.item.id, b]));
+  const dependencies = links.filter(l => isDependencyLink(l, byId) && barsById.has(l.fromId) && barsById.has(l.toId)).map(link => ({ link, isBroken: isBroken(barsById.get(link.fromId), barsById.get(link.toId)) }));
+
+  // Padded either side so there is room to drag, and always covering today
+  const starts = [today, ...bars.map(b => b.start)].sort(); const ends = [addDays(today, 30), ...bars.map(b => b.end)].sort();
+  return { bars, backlog, dependencies, start: addDays(starts[0], -7), end: addDays(ends[ends.length - 1], 14) };
+};
+
+// Date fields after dragging a bar by `days`; edge drags never cross the other end
+export const reschedule = (bar: TimelineBar, mode: DragMode, days: number): Pick<BoardItem, 'startDate' | 'dueDate'> => {
+  const { item } = bar;
+  if (bar.isMilestone || mode === 'move') return { ...(item.startDate ? { startDate: addDays(item.startDate, days) } : {}), ...(item.dueDate ? { dueDate: addDays(item.dueDate, days) } : {}) };
+  if (mode === 'start') { const next = addDays(bar.start, days); return { startDate: next <= bar.end ? next : bar.end, dueDate: bar.end }; }
+  const next = addDays(bar.end, days);
+  return { startDate: bar.start, dueDate: next >= bar.start ? next : bar.start };
+};
+
+// Blocking links into or out of `itemId` that the given dates would break
+export const findBrokenDependencies = (items: BoardItem[], links: BoardLink[], itemId: string, dates: Pick<BoardItem, 'startDate' | 'dueDate'>): BoardLink[] => {
+  const byId = new Map(items.map(i => [i.id, i]));
+  const bars = new Map(items.map(i => { const bar = getBar(i.id === itemId ? { ...i, ...dates } : i); return [i.id, bar || undefined]; }));
+  return links.filter(l => isDependencyLink(l, byId) && (l.fromId === itemId || l.toId === itemId) && isBroken(bars.get(l.fromId), bars.get(l.toId)));
+};
@@ -0,0 +1,110 @@
+import { BoardItem, NewTool, PlanningRoom, Tool } from "../types";
+import { INITIAL_TOOLS } from "../constants";
+import { StorageAdapter, asString, isRecord, isString } from "./storageService";
+import { AssignedItem } from "./contactService";
+import { escapeXml, fetchAsDataUrl } from "./fileService";
+
+// Like the people directory, the tools registry is shared by every room
+export interface ToolStore {
+  load(): Promise<Tool[]>;
+  save(tools: Tool[]): Promise<void>;
+}
+
+export const TOOLS_STORAGE_KEY = 'nexus_planning_tools';
+// Suggested in the form; any other category is accepted
+export const TOOL_CATEGORIES = ['Communication', 'Design', 'Development', 'Documentation', 'Project management', 'Analytics', 'Infrastructure'];
+export const UNCATEGORIZED = 'Other';
+
+
+const isStoredTool = (value: unknown): value is Record<string, unknown> & { id: string; name: string } => isRecord(value) && isString(value.id) && isString(value.name);
+
+export const sanitizeTools = (raw: unknown): Tool[] => (Array.isArray(raw) ? raw : [])
+  .filter(isStoredTool)
+  .map(t => ({ id: t.id, name: t.name, description: asString(t.description), url: asString(t.url), iconUrl: asString(t.iconUrl), category: asString(t.category) }));
+
+export const createAdapterToolStore = (adapter: StorageAdapter): ToolStore => ({
+  load: async () => {
+    const raw = await adapter.getItem(TOOLS_STORAGE_KEY);
+    if (!raw) return INITIAL_TOOLS;
+    let parsed: unknown;
+    try { parsed = JSON.parse(raw); } catch { throw new Error('The saved tools are not valid JSON.'); }
+    return sanitizeTools(parsed);
+  },
+  save: (tools) => adapter.setItem(TOOLS_STORAGE_KEY, JSON.stringify(tools)),
+});
+
+// --- TOOLS ---
+
+// Accepts bare hosts ("figma.com"); '' when the value cannot be a web address
+export const normalizeToolUrl = (value: string): string => {
+  const trimmed = value.trim();
+  if (!trimmed) return '';
+  try {
+    const url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+    return /^https?:$/.test(url.protocol) && url.hostname.includes('.') ? url.href : '';
+  } catch { return ''; }
+};
+
+export const createTool = (data: NewTool): Tool => ({ ...data, id: Math.random().toString(36).substr(2, 9) });
+
+export const upsertTool = (tools: Tool[], data: NewTool | Tool): Tool[] =>
+  'id' in data && tools.some(t => t.id === data.id) ? tools.map(t => t.id === data.id ? data : t) : [...tools, 'id' in data ? data : createTool(data)];
+
+// Items keep a removed tool's id, as they do for removed contacts
+export const removeTool = (tools: Tool[], id: string): Tool[] => tools.filter(t => t.id !== id);
+
+export const categoryOf = (tool: Tool) => tool.category.trim() || UNCATEGORIZED;
+
+// Categories alphabetically with the catch-all last; tools by name within each
+export const groupToolsByCategory = (tools: Tool[]): [string, Tool[]][] => {
+  const groups = new Map<string, Tool[]>();
+  tools.forEach(tool => groups.set(categoryOf(tool), [...(groups.get(categoryOf(tool)) || []), tool]));
+  return [...groups.entries()]
+    .sort(([a], [b]) => a === UNCATEGORIZED ? 1 : b === UNCATEGORIZED ? -1 : a.localeCompare(b))
+    .map(([category, list]) => [category, list.sort((a, b) => a.name.localeCompare(b.name))]);
+};
+
+// --- ICONS ---
+
+const faviconServiceUrl = (url: string) => `https://www.google.com/s2/favicons?domain=${encodeURIComponent(new URL(url).hostname)}&sz=64`;
+
+// Only on request: the lookup sends the tool's host to Google. Stored as a data URL when the favicon can be downloaded,
+// so it still shows offline; otherwise the remote address, which an <img> can load without CORS; '' when there is no usable URL
+export const fetchFavicon = async (url: string): Promise<string> => {
+  const normalized = normalizeToolUrl(url);
+  if (!normalized) return '';
+  const remote = faviconServiceUrl(normalized);
+  return (await fetchAsDataUrl(remote)) || remote;
+};
+
+const BADGE_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#14b8a6', '#64748b'];
+
+// A lettered tile in a colour derived from the name, for tools without an icon or whose icon fails to load
+export const fallbackToolIcon = (tool: Pick<Tool, 'name'>): string => {
+  const color = BADGE_COLORS[[...tool.name].reduce((sum, ch) => sum + ch.charCodeAt(0), 0) % BADGE_COLORS.length];
+  const letter = tool.name.trim().charAt(0).toUpperCase() || '?';
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="64" height="64"><rect width="64" height="64" rx="14" fill="${color}"/><text x="32" y="43" font-family="sans-serif" font-size="32" font-weight="700" fill="#fff" text-anchor="middle">${escapeXml(letter)}</text></svg>`;
+  return `data:image/svg+xml,${encodeURIComponent(svg)}`;
+};
+
+// --- ATTACHMENTS ---
+
+// Keeps only string ids, and drops the field when nothing is attached
+export const sanitizeToolIds = (item: BoardItem): BoardItem => {
+  const { toolIds, ...rest } = item;
+  const ids = Array.isArray(toolIds) ? [...new Set(toolIds.filter((id: unknown): id is string => typeof id === 'string' && !!id))] : [];
+  return ids.length > 0 ? { ...rest, toolIds: ids } : rest;
+};
+
+export const toggleToolId = (item: BoardItem, toolId: string): Partial<BoardItem> => {
+  const ids = item.toolIds || [];
+  const next = ids.includes(toolId) ? ids.filter(id => id !== toolId) : [...ids, toolId];
+  return { toolIds: next.length > 0 ? next : undefined };
+};
+
+// Every item across the rooms each tool is attached to
+export const getToolUsage = (rooms: PlanningRoom[]): Map<string, AssignedItem[]> => {
+  const byTool = new Map<string, AssignedItem[]>();
+  rooms.forEach(room => room.items.forEach(item => item.toolIds?.forEach(id => byTool.set(id, [...(byTool.get(id) || []), { room, item }]))));
+  return byTool;
+};
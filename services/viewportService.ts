@@ -0,0 +1,48 @@
+import { Rect } from "./boardGeometry";
+
+// Pan offset in screen pixels plus zoom factor, as applied by the board's CSS transform
+export interface Viewport { x: number; y: number; s: number; }
+
+export const VIEWPORT_STORAGE_KEY = 'nexus_planning_viewports';
+export const MIN_SCALE = 0.1;
+export const MAX_SCALE = 5;
+
+export const DEFAULT_VIEWPORT: Viewport = { x: 0, y: 0, s: 1 };
+
+// Viewports are a per-device preference, so they live beside the rooms rather than inside them (and out of exported bundles)
+const readAll = (): Record<string, Viewport> => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(VIEWPORT_STORAGE_KEY) || '{}');
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+const writeAll = (viewports: Record<string, Viewport>) => {
+  try {
+    localStorage.setItem(VIEWPORT_STORAGE_KEY, JSON.stringify(viewports));
+  } catch {
+    // Losing the last viewport is harmless; never let it interrupt the board
+  }
+};
+
+export const loadViewport = (roomId: string): Viewport | null => {
+  const viewport = readAll()[roomId];
+  if (!viewport || ![viewport.x, viewport.y, viewport.s].every(v => typeof v === 'number' && Number.isFinite(v))) return null;
+  return { x: viewport.x, y: viewport.y, s: Math.min(Math.max(viewport.s, MIN_SCALE), MAX_SCALE) };
+};
+
+export const saveViewport = (roomId: string, viewport: Viewport) => writeAll({ ...readAll(), [roomId]: viewport });
+
+export const removeViewport = (roomId: string) => { const { [roomId]: _removed, ...rest } = readAll(); writeAll(rest); };
+
+// The viewport that shows `rect` centred in a screen of the given size, never zooming past `maxScale`
+export const fitRect = (rect: Rect, screenWidth: number, screenHeight: number, padding = 60, maxScale = 1.5): Viewport => {
+  const s = Math.min(Math.max(Math.min((screenWidth - padding * 2) / Math.max(rect.w, 1), (screenHeight - padding * 2) / Math.max(rect.h, 1)), MIN_SCALE), maxScale);
+  return { x: screenWidth / 2 - (rect.x + rect.w / 2) * s, y: screenHeight / 2 - (rect.y + rect.h / 2) * s, s };
+};
+
+// The board-coordinate rectangle visible through a viewport
+export const getVisibleRect = (viewport: Viewport, screenWidth: number, screenHeight: number): Rect =>
+  ({ x: -viewport.x / viewport.s, y: -viewport.y / viewport.s, w: screenWidth / viewport.s, h: screenHeight / viewport.s });
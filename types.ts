@@ -40,6 +40,8 @@ export interface Tool {
 
 export type NewTool = Omit<Tool, 'id'>;
 
+export type ItemStatus = 'todo' | 'in-progress' | 'blocked' | 'done';
+
 export interface BoardItem {
   id: string;
   type: 'sticky' | 'text' | 'image' | 'objective' | 'idea-strip' | 'goal';
@@ -51,6 +53,20 @@ export interface BoardItem {
   isCompleted?: boolean;
   backgroundImageUrl?: string; // Support for images within nodes like idea-strip
   isLocked?: boolean; // New property to fix node position
+  status?: ItemStatus; // Kept in step with isCompleted: 'done' exactly when completed
+  startDate?: string; // YYYY-MM-DD
+  dueDate?: string; // YYYY-MM-DD
+  assignee?: string; // Free-text owner for people outside the contact directory
+  assigneeId?: string; // Contact id; takes precedence over assignee
+  kanbanColumnId?: string; // Which of the room's columns for its status the card sits in
+  toolIds?: string[]; // Registry tools the item relies on
+}
+
+export interface KanbanColumn {
+  id: string;
+  title: string;
+  status: ItemStatus; // Dropping a card in the column gives it this status
+  wipLimit?: number;
 }
 
 export interface BoardLink {
@@ -70,11 +86,16 @@ export interface PlanningRoom {
   links: BoardLink[];
   themeColor: string;
   boardStyle?: 'noir' | 'modern';
+  kanbanColumns?: KanbanColumn[]; // Unset means one column per status
+  autoSnapshot?: { keepDays: number }; // Daily snapshots, kept for this many days; unset turns them off
 }
 
-// Updated AppSection type to only include dashboard, planning, document, and scan
 export type AppSection = 
   | 'dashboard'
   | 'planning' 
   | 'document'
-  | 'scan';
+  | 'scan'
+  | 'timeline'
+  | 'kanban'
+  | 'people'
+  | 'tools';